@@ -46,6 +46,7 @@ module.exports = {
   APPS_BUCKET_NAME: process.env.APPS_BUCKET_NAME || "prod-budi-app-assets",
   TEMPLATES_BUCKET_NAME: process.env.TEMPLATES_BUCKET_NAME || "templates",
   GLOBAL_BUCKET_NAME: process.env.GLOBAL_BUCKET_NAME || "global",
+  EXPORTS_BUCKET_NAME: process.env.EXPORTS_BUCKET_NAME || "exports",
   GLOBAL_CLOUD_BUCKET_NAME:
     process.env.GLOBAL_CLOUD_BUCKET_NAME || "prod-budi-tenant-uploads",
   USE_COUCH: process.env.USE_COUCH || true,
@@ -191,6 +191,26 @@ class RedisWrapper {
     }
   }
 
+  /**
+   * Stores a value only if the key isn't already set, which can be used as a lock.
+   * @return {Promise<boolean>} Whether the value was stored.
+   */
+  async storeIfNotExists(key, value, expirySeconds) {
+    const db = this._db
+    if (typeof value === "object") {
+      value = JSON.stringify(value)
+    }
+    const prefixedKey = addDbPrefix(db, key)
+    const response = await CLIENT.set(
+      prefixedKey,
+      value,
+      "EX",
+      expirySeconds,
+      "NX"
+    )
+    return response === "OK"
+  }
+
   async getTTL(key) {
     const db = this._db
     const prefixedKey = addDbPrefix(db, key)
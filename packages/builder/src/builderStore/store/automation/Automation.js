@@ -1,5 +1,42 @@
 import { generate } from "shortid"
 
+const BRANCH_STEP_ID = "BRANCH"
+
+function getNestedSteps(step) {
+  const branchSteps = (step.branches || []).map(branch => branch?.steps || [])
+  return step.onError?.steps
+    ? [...branchSteps, step.onError.steps]
+    : branchSteps
+}
+
+// finds the list of steps which contains a step, this may be nested within a branch
+function findStepList(steps, id) {
+  for (let step of steps || []) {
+    if (step.id === id) {
+      return steps
+    }
+    for (let nested of getNestedSteps(step)) {
+      const found = findStepList(nested, id)
+      if (found) {
+        return found
+      }
+    }
+  }
+  return null
+}
+
+/**
+ * Lists the steps in the order they are numbered by the server (steps.N), the steps of
+ * each branch (and on error steps) are listed straight after the step they belong to.
+ */
+export function flattenSteps(steps) {
+  const flattened = []
+  for (let step of steps || []) {
+    flattened.push(step, ...getNestedSteps(step).flatMap(flattenSteps))
+  }
+  return flattened
+}
+
 /**
  * Class responsible for the traversing of the automation definition.
  * Automation definitions are stored in linked lists.
@@ -17,7 +54,11 @@ export default class Automation {
     this.automation.testData = { ...this.automation.testData, ...data }
   }
 
-  addBlock(block, idx) {
+  /**
+   * Adds a block to the automation, if a branch is provided ({ id, index }) the block is
+   * added to the steps of that branch of the branch step.
+   */
+  addBlock(block, idx, branch) {
     // Make sure to add trigger if doesn't exist
     if (!this.hasTrigger() && block.type === "TRIGGER") {
       const trigger = { id: generate(), ...block }
@@ -26,7 +67,20 @@ export default class Automation {
     }
 
     const newBlock = { id: generate(), ...block }
-    this.automation.definition.steps.splice(idx, 0, newBlock)
+    if (block.stepId === BRANCH_STEP_ID && !newBlock.branches) {
+      newBlock.branches = []
+    }
+    let steps = this.automation.definition.steps
+    if (branch) {
+      const branchStep = flattenSteps(steps).find(step => step.id === branch.id)
+      if (!branchStep) throw new Error("Branch not found.")
+      branchStep.branches = branchStep.branches || []
+      for (let i = 0; i <= branch.index; i++) {
+        branchStep.branches[i] = branchStep.branches[i] || { steps: [] }
+      }
+      steps = branchStep.branches[branch.index].steps
+    }
+    steps.splice(idx, 0, newBlock)
     return newBlock
   }
 
@@ -38,9 +92,13 @@ export default class Automation {
       return
     }
 
-    const stepIdx = steps.findIndex(step => step.id === id)
-    if (stepIdx < 0) throw new Error("Block not found.")
-    steps.splice(stepIdx, 1, updatedBlock)
+    const list = findStepList(steps, id)
+    if (!list) throw new Error("Block not found.")
+    list.splice(
+      list.findIndex(step => step.id === id),
+      1,
+      updatedBlock
+    )
     this.automation.definition.steps = steps
   }
 
@@ -52,9 +110,12 @@ export default class Automation {
       return
     }
 
-    const stepIdx = steps.findIndex(step => step.id === id)
-    if (stepIdx < 0) throw new Error("Block not found.")
-    steps.splice(stepIdx, 1)
+    const list = findStepList(steps, id)
+    if (!list) throw new Error("Block not found.")
+    list.splice(
+      list.findIndex(step => step.id === id),
+      1
+    )
     this.automation.definition.steps = steps
   }
 
@@ -116,11 +116,12 @@ const automationActions = store => ({
       return state
     })
   },
-  addBlockToAutomation: (block, blockIdx) => {
+  addBlockToAutomation: (block, blockIdx, branch) => {
     store.update(state => {
       const newBlock = state.selectedAutomation.addBlock(
         cloneDeep(block),
-        blockIdx
+        blockIdx,
+        branch
       )
       state.selectedBlock = newBlock
       return state
@@ -1,4 +1,4 @@
-import Automation from "../Automation"
+import Automation, { flattenSteps } from "../Automation"
 import TEST_AUTOMATION from "./testAutomation"
 
 const TEST_BLOCK = {
@@ -35,6 +35,25 @@ describe("Automation Data Object", () => {
     expect(automation.automation.definition.steps[0]).toEqual(updatedBlock)
   })
 
+  it("adds a automation block to a branch", () => {
+    automation = new Automation({ definition: { steps: [] } })
+    const branch = automation.addBlock(
+      { ...TEST_BLOCK, id: "branch", stepId: "BRANCH" },
+      0
+    )
+    expect(branch.branches).toEqual([])
+    const nested = automation.addBlock({ ...TEST_BLOCK, id: "nested" }, 0, {
+      id: branch.id,
+      index: 1,
+    })
+    expect(branch.branches).toEqual([{ steps: [] }, { steps: [nested] }])
+    const { steps } = automation.automation.definition
+    expect(flattenSteps(steps)).toEqual([branch, nested])
+
+    automation.deleteBlock(nested.id)
+    expect(branch.branches[1].steps).toEqual([])
+  })
+
   it("deletes a automation block successfully", () => {
     const { steps } = automation.automation.definition
     const originalLength = steps.length
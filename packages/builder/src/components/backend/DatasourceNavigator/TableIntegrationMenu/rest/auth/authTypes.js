@@ -1,6 +1,10 @@
 export const AUTH_TYPES = {
   BASIC: "basic",
   BEARER: "bearer",
+  OAUTH2: "oauth2",
+  API_KEY: "apiKey",
+  HMAC: "hmac",
+  CUSTOM: "custom",
 }
 
 export const AUTH_TYPE_LABELS = [
@@ -12,4 +16,62 @@ export const AUTH_TYPE_LABELS = [
     label: "Bearer Token",
     value: AUTH_TYPES.BEARER,
   },
+  {
+    label: "OAuth 2.0",
+    value: AUTH_TYPES.OAUTH2,
+  },
+  {
+    label: "API Key",
+    value: AUTH_TYPES.API_KEY,
+  },
+  {
+    label: "HMAC Signature",
+    value: AUTH_TYPES.HMAC,
+  },
+  {
+    label: "Custom Headers",
+    value: AUTH_TYPES.CUSTOM,
+  },
+]
+
+export const OAUTH2_GRANT_TYPES = {
+  CLIENT_CREDENTIALS: "client_credentials",
+  AUTHORIZATION_CODE: "authorization_code",
+}
+
+export const OAUTH2_GRANT_TYPE_LABELS = [
+  {
+    label: "Client Credentials",
+    value: OAUTH2_GRANT_TYPES.CLIENT_CREDENTIALS,
+  },
+  {
+    label: "Authorization Code",
+    value: OAUTH2_GRANT_TYPES.AUTHORIZATION_CODE,
+  },
+]
+
+export const API_KEY_LOCATION_LABELS = [
+  {
+    label: "Header",
+    value: "header",
+  },
+  {
+    label: "Query string",
+    value: "query",
+  },
+]
+
+export const HMAC_TIMESTAMP_FORMAT_LABELS = [
+  {
+    label: "Unix seconds",
+    value: "seconds",
+  },
+  {
+    label: "Unix milliseconds",
+    value: "milliseconds",
+  },
+  {
+    label: "ISO 8601",
+    value: "iso",
+  },
 ]
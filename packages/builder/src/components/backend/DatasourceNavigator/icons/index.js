@@ -15,6 +15,7 @@ import GoogleSheets from "./GoogleSheets.svelte"
 import Firebase from "./Firebase.svelte"
 import Redis from "./Redis.svelte"
 import Snowflake from "./Snowflake.svelte"
+import GraphQL from "./GraphQL.svelte"
 
 export default {
   BUDIBASE: Budibase,
@@ -34,4 +35,5 @@ export default {
   FIREBASE: Firebase,
   REDIS: Redis,
   SNOWFLAKE: Snowflake,
+  GRAPHQL: GraphQL,
 }
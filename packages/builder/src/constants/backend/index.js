@@ -185,6 +185,7 @@ export const IntegrationTypes = {
   FIREBASE: "FIREBASE",
   REDIS: "REDIS",
   SNOWFLAKE: "SNOWFLAKE",
+  GRAPHQL: "GRAPHQL",
 }
 
 export const IntegrationNames = {
@@ -205,6 +206,7 @@ export const IntegrationNames = {
   [IntegrationTypes.FIREBASE]: "Firebase",
   [IntegrationTypes.REDIS]: "Redis",
   [IntegrationTypes.SNOWFLAKE]: "Snowflake",
+  [IntegrationTypes.GRAPHQL]: "GraphQL",
 }
 
 export const SchemaTypeOptions = [
@@ -234,7 +236,9 @@ export const RestBodyTypes = [
 
 export const PaginationTypes = [
   { label: "Page number based", value: "page" },
+  { label: "Offset based", value: "offset" },
   { label: "Cursor based", value: "cursor" },
+  { label: "Link header based", value: "link" },
 ]
 
 export const PaginationLocations = [
@@ -66,6 +66,10 @@ export function createDatasourcesStore() {
       const response = await API.buildDatasourceSchema(datasource?._id)
       return await updateDatasource(response)
     },
+    introspect: async datasource => {
+      const response = await API.introspectDatasource(datasource?._id)
+      return await updateDatasource(response)
+    },
     save: async (body, fetchSchema = false) => {
       let response
       if (body._id) {
@@ -86,6 +86,7 @@ export function createQueriesStore() {
       const result = await API.previewQuery({
         ...query,
         parameters,
+        parameterDefinitions: query.parameters,
       })
       // Assume all the fields are strings and create a basic schema from the
       // unique fields returned by the server
@@ -23,6 +23,44 @@ export const buildAutomationEndpoints = API => ({
     })
   },
 
+  /**
+   * Gets the logs of the published runs of an automation, the most recent first.
+   * @param automationId the ID of the automation to get logs for
+   * @param status optionally only get logs with this status (success, error or stopped)
+   * @param startDate optionally only get runs which started after this date
+   * @param endDate optionally only get runs which started before this date
+   * @param bookmark the bookmark of the page to get
+   */
+  getAutomationLogs: async ({
+    automationId,
+    status,
+    startDate,
+    endDate,
+    bookmark,
+  }) => {
+    const params = new URLSearchParams()
+    const filters = { status, startDate, endDate, bookmark }
+    for (let [key, value] of Object.entries(filters)) {
+      if (value) {
+        params.set(key, value)
+      }
+    }
+    return await API.get({
+      url: `/api/automations/${automationId}/logs?${params}`,
+    })
+  },
+
+  /**
+   * Runs an automation again with the trigger data of a failed run.
+   * @param automationId the ID of the automation
+   * @param logId the ID of the log of the failed run
+   */
+  replayAutomationLog: async ({ automationId, logId }) => {
+    return await API.post({
+      url: `/api/automations/${automationId}/logs/${logId}/replay`,
+    })
+  },
+
   /**
    * Gets a list of all automations.
    */
@@ -18,6 +18,16 @@ export const buildDatasourceEndpoints = API => ({
     })
   },
 
+  /**
+   * Prompts the server to introspect the operations a GraphQL datasource supports.
+   * @param datasourceId the datasource ID to introspect
+   */
+  introspectDatasource: async datasourceId => {
+    return await API.post({
+      url: `/api/datasources/${datasourceId}/introspect`,
+    })
+  },
+
   /**
    * Creates a datasource
    * @param datasource the datasource to create
@@ -64,17 +64,57 @@ export const buildRowEndpoints = API => ({
   /**
    * Exports rows.
    * @param tableId the table ID to export the rows from
-   * @param rows the array of rows to export
+   * @param rows the array of rows to export, all rows matching the query are exported
+   * if not provided
+   * @param format the format to export in, csv, json, ndjson or xlsx
+   * @param columns the columns to export, all columns if not provided
+   * @param query the query the exported rows must match
    */
-  exportRows: async ({ tableId, rows, format }) => {
+  exportRows: async ({ tableId, rows, format, columns, query }) => {
     return await API.post({
       url: `/api/${tableId}/rows/exportRows?format=${format}`,
       body: {
         rows,
+        columns,
+        query,
       },
       parseResponse: async response => {
+        // spreadsheets are binary
+        if (format === "xlsx") {
+          return await response.blob()
+        }
         return await response.text()
       },
     })
   },
+
+  /**
+   * Starts exporting rows in the background, for exports which are too large to
+   * return in a single request.
+   * @param tableId the table ID to export the rows from
+   * @param format the format to export in, csv, json, ndjson or xlsx
+   * @param columns the columns to export, all columns if not provided
+   * @param query the query the exported rows must match
+   */
+  exportRowsInBackground: async ({ tableId, format, columns, query }) => {
+    return await API.post({
+      url: `/api/${tableId}/rows/exportRows/jobs?format=${format}`,
+      body: {
+        columns,
+        query,
+      },
+    })
+  },
+
+  /**
+   * Gets the status of a background export, which includes a link to download the
+   * export once it has completed.
+   * @param tableId the table ID the rows are exported from
+   * @param jobId the ID of the export
+   */
+  getRowsExport: async ({ tableId, jobId }) => {
+    return await API.get({
+      url: `/api/${tableId}/rows/exportRows/jobs/${jobId}`,
+    })
+  },
 })
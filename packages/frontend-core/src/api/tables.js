@@ -29,6 +29,7 @@ export const buildTableEndpoints = API => ({
    * @param sortOrder the order to sort by
    * @param sortType the type to sort by, either numerically or alphabetically
    * @param paginate whether to paginate the data
+   * @param keyset whether to paginate external tables by keyset rather than page number
    */
   searchTable: async ({
     tableId,
@@ -39,6 +40,7 @@ export const buildTableEndpoints = API => ({
     sortOrder,
     sortType,
     paginate,
+    keyset,
   }) => {
     if (!tableId || !query) {
       return {
@@ -55,6 +57,7 @@ export const buildTableEndpoints = API => ({
         sortOrder,
         sortType,
         paginate,
+        keyset,
       },
     })
   },
@@ -63,12 +66,16 @@ export const buildTableEndpoints = API => ({
    * Imports data into an existing table
    * @param tableId the table ID to import to
    * @param data the data import object
+   * @param matchOn the columns to match existing rows on, for external tables
+   * @param dryRun whether to only validate the import, for external tables
    */
-  importTableData: async ({ tableId, data }) => {
+  importTableData: async ({ tableId, data, matchOn, dryRun }) => {
     return await API.post({
       url: `/api/tables/${tableId}/import`,
       body: {
         dataImport: data,
+        matchOn,
+        dryRun,
       },
     })
   },
@@ -37,6 +37,20 @@ module AwsMock {
         Contents: {},
       })
     )
+    // @ts-ignore
+    this.headBucket = jest.fn(response({}))
+    // @ts-ignore
+    this.upload = jest.fn(params => ({
+      // read the whole stream, as the object store would
+      promise: () =>
+        new Promise((resolve, reject) => {
+          params.Body.on("end", () => resolve({}))
+          params.Body.on("error", reject)
+          params.Body.resume()
+        }),
+    }))
+    // @ts-ignore
+    this.getSignedUrl = jest.fn(() => "http://test.com/signed")
   }
 
   aws.DynamoDB = { DocumentClient }
@@ -12,13 +12,16 @@ module MsSqlMock {
 
   // mssql.connect = jest.fn(() => ({ recordset: [] }))
 
-  mssql.ConnectionPool = jest.fn(() => ({
-    connect: jest.fn(() => ({
+  mssql.ConnectionPool = jest.fn(() => {
+    const pool = {
       request: jest.fn(() => ({
         query: jest.fn(sql => ({ recordset: [sql] })),
       })),
-    })),
-  }))
+      connect: jest.fn(() => pool),
+      close: jest.fn(),
+    }
+    return pool
+  })
 
   module.exports = mssql
 }
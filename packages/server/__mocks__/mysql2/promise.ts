@@ -4,6 +4,7 @@ module MySQLMock {
   const client = {
     connect: jest.fn(),
     end: jest.fn(),
+    release: jest.fn(),
     query: jest.fn(async () => {
       return [[]]
     }),
@@ -13,5 +14,12 @@ module MySQLMock {
     return client
   })
 
+  mysql.createPool = jest.fn(() => ({
+    getConnection: jest.fn(async () => client),
+    end: jest.fn(),
+  }))
+
+  mysql.escape = (value: any) => `'${value}'`
+
   module.exports = mysql
 }
@@ -1,6 +1,7 @@
 module FetchMock {
   const fetch = jest.requireActual("node-fetch")
   let failCount = 0
+  let resetCount = 0
 
   module.exports = async (url: any, opts: any) => {
     function json(body: any, status = 200) {
@@ -77,6 +78,18 @@ module FetchMock {
           opts,
         })
       }
+    } else if (url.includes("resetonce.com")) {
+      resetCount++
+      if (resetCount === 1) {
+        const err: any = new Error("socket hang up")
+        err.code = "ECONNRESET"
+        throw err
+      }
+      return json({ resets: resetCount - 1, url })
+    } else if (url.includes("reset.com")) {
+      const err: any = new Error("socket hang up")
+      err.code = "ECONNRESET"
+      throw err
     }
     return fetch(url, opts)
   }
@@ -23,6 +23,11 @@ module OracleDbMock {
     return new Connection()
   })
 
+  oracleDb.createPool = jest.fn(() => ({
+    getConnection: oracleDb.getConnection,
+    close: jest.fn(),
+  }))
+
   // expose mocks
   oracleDb.executeMock = execute
   oracleDb.closeMock = close
@@ -20,9 +20,20 @@ module PgMock {
   Client.prototype.connect = jest.fn()
   Client.prototype.release = jest.fn()
 
+  // constructor
+  function Pool() {}
+
+  Pool.prototype.connect = jest.fn(() => {
+    // @ts-ignore
+    return new Client()
+  })
+  Pool.prototype.end = jest.fn()
+
   const on = jest.fn()
+  Client.prototype.on = on
 
   pg.Client = Client
+  pg.Pool = Pool
   pg.queryMock = query
   pg.on = on
 
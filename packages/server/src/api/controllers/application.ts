@@ -395,6 +395,11 @@ const destroyApp = async (ctx: any) => {
     appId = getProdAppID(appId)
   }
 
+  // automations only in production, cleaned up whilst the datasources can still be read
+  if (isUnpublish) {
+    await cleanupAutomations(appId)
+  }
+
   const db = isUnpublish ? getProdAppDB() : getAppDB()
   const result = await db.destroy()
 
@@ -408,12 +413,8 @@ const destroyApp = async (ctx: any) => {
   if (!env.isTest() && !isUnpublish) {
     await deleteApp(appId)
   }
-  // automations only in production
-  if (isUnpublish) {
-    await cleanupAutomations(appId)
-  }
   // remove app role when the dev app is deleted (no trace of app anymore)
-  else {
+  if (!isUnpublish) {
     await removeAppFromUserRoles(ctx, appId)
   }
   await appCache.invalidateAppMetadata(appId)
@@ -7,11 +7,14 @@ const {
   removeDeprecated,
 } = require("../../automations/utils")
 const { deleteEntityMetadata } = require("../../utilities")
-const { MetadataTypes } = require("../../constants")
+const { fetchLogs } = require("../../automations/logs")
+const { MetadataTypes, AutomationLogStatus } = require("../../constants")
 const { setTestFlag, clearTestFlag } = require("../../utilities/redis")
-const { getAppDB } = require("@budibase/backend-core/context")
+const { getAppDB, doInAppContext } = require("@budibase/backend-core/context")
+const { getProdAppID, dbExists } = require("@budibase/backend-core/db")
 
 const ACTION_DEFS = removeDeprecated(actions.ACTION_DEFINITIONS)
+const BRANCH_STEP_ID = actions.ACTION_DEFINITIONS.BRANCH.stepId
 const TRIGGER_DEFS = removeDeprecated(triggers.TRIGGER_DEFINITIONS)
 
 /*************************
@@ -165,6 +168,41 @@ module.exports.getDefinitionList = async function (ctx) {
   }
 }
 
+// runs are only logged in the published app
+exports.logs = async function (ctx) {
+  const prodAppId = getProdAppID(ctx.appId)
+  if (!(await dbExists(prodAppId))) {
+    ctx.body = { data: [], hasNextPage: false }
+    return
+  }
+  ctx.body = await doInAppContext(prodAppId, () =>
+    fetchLogs(ctx.params.id, ctx.query)
+  )
+}
+
+exports.replayLog = async function (ctx) {
+  const prodAppId = getProdAppID(ctx.appId)
+  if (!(await dbExists(prodAppId))) {
+    ctx.throw(400, "App has not been published.")
+  }
+  ctx.body = await doInAppContext(prodAppId, async () => {
+    const db = getAppDB()
+    const log = await db.get(ctx.params.logId)
+    if (log.automationId !== ctx.params.id) {
+      ctx.throw(404, "Automation log not found.")
+    }
+    if (log.status !== AutomationLogStatus.ERROR) {
+      ctx.throw(400, "Only failed automation runs can be replayed.")
+    }
+    const automation = await db.get(log.automationId)
+    await triggers.replayTrigger(automation, log, prodAppId)
+    return {
+      message: `Automation ${automation._id} has been replayed.`,
+      automation,
+    }
+  })
+}
+
 /*********************
  *                   *
  *   API FUNCTIONS   *
@@ -195,6 +233,23 @@ function prepareTestInput(input) {
   return input
 }
 
+// records which branch each branch step took, so the test history shows which steps ran
+function getBranchesRun(response) {
+  const steps = (response && response.steps) || []
+  return steps
+    .filter(
+      step =>
+        step.stepId === BRANCH_STEP_ID &&
+        step.outputs &&
+        step.outputs.branch != null
+    )
+    .map(step => ({
+      id: step.id,
+      branch: step.outputs.branch,
+      branchIndex: step.outputs.branchIndex,
+    }))
+}
+
 exports.test = async function (ctx) {
   const db = getAppDB()
   let automation = await db.get(ctx.params.id)
@@ -212,6 +267,7 @@ exports.test = async function (ctx) {
   await updateTestHistory(ctx.appId, automation, {
     ...ctx.request.body,
     occurredAt: new Date().getTime(),
+    branches: getBranchesRun(response),
   })
   await clearTestFlag(automation._id)
   ctx.body = response
@@ -9,8 +9,12 @@ const {
 const { BuildSchemaErrors, InvalidColumns } = require("../../constants")
 const { integrations } = require("../../integrations")
 const { getDatasourceAndQuery } = require("./row/utils")
-const { invalidateDynamicVariables } = require("../../threads/utils")
+const {
+  invalidateDynamicVariables,
+  invalidateQueryCache,
+} = require("../../threads/utils")
 const { getAppDB } = require("@budibase/backend-core/context")
+const { invalidatePool } = require("../../integrations/base/connectionPool")
 
 exports.fetch = async function (ctx) {
   // Get internal tables
@@ -63,6 +67,25 @@ exports.buildSchemaFromDb = async function (ctx) {
   ctx.body = response
 }
 
+exports.introspect = async function (ctx) {
+  const db = getAppDB()
+  const datasource = await db.get(ctx.params.datasourceId)
+  const Connector = integrations[datasource.source]
+  const connector = new Connector(datasource.config)
+  if (!connector.introspect) {
+    ctx.throw(400, "Datasource does not support introspection.")
+  }
+  try {
+    datasource.introspection = await connector.introspect()
+  } catch (err) {
+    ctx.throw(400, err)
+  }
+
+  const dbResp = await db.put(datasource)
+  datasource._rev = dbResp.rev
+  ctx.body = { datasource }
+}
+
 /**
  * Check for variables that have been updated or removed and invalidate them.
  */
@@ -101,6 +124,9 @@ exports.update = async function (ctx) {
   let datasource = await db.get(datasourceId)
   const auth = datasource.config.auth
   await invalidateVariables(datasource, ctx.request.body)
+  // the config is changing, the pool for the previous config won't be used again
+  await invalidatePool(datasource.source, datasource.config)
+  await invalidateQueryCache(datasourceId)
   datasource = { ...datasource, ...ctx.request.body }
   if (auth && !ctx.request.body.auth) {
     // don't strip auth config from DB
@@ -110,14 +136,6 @@ exports.update = async function (ctx) {
   const response = await db.put(datasource)
   datasource._rev = response.rev
 
-  // Drain connection pools when configuration is changed
-  if (datasource.source) {
-    const source = integrations[datasource.source]
-    if (source && source.pool) {
-      await source.pool.end()
-    }
-  }
-
   ctx.status = 200
   ctx.message = "Datasource saved successfully."
   ctx.body = { datasource }
@@ -144,14 +162,6 @@ exports.save = async function (ctx) {
   const dbResp = await db.put(datasource)
   datasource._rev = dbResp.rev
 
-  // Drain connection pools when configuration is changed
-  if (datasource.source) {
-    const source = integrations[datasource.source]
-    if (source && source.pool) {
-      await source.pool.end()
-    }
-  }
-
   const response = { datasource }
   if (schemaError) {
     response.error = schemaError
@@ -175,7 +185,10 @@ exports.destroy = async function (ctx) {
   )
 
   // delete the datasource
+  const datasource = await db.get(ctx.params.datasourceId)
   await db.remove(ctx.params.datasourceId, ctx.params.revId)
+  await invalidatePool(datasource.source, datasource.config)
+  await invalidateQueryCache(datasource._id)
 
   ctx.message = `Datasource deleted.`
   ctx.status = 200
@@ -220,6 +233,9 @@ const buildSchemaHelper = async datasource => {
   const connector = new Connector(datasource.config)
   await connector.buildSchema(datasource._id, datasource.entities)
   datasource.entities = connector.tables
+  if (connector.procedures) {
+    datasource.procedures = connector.procedures
+  }
 
   // make sure they all have a display name selected
   for (let entity of Object.values(datasource.entities)) {
@@ -6,6 +6,7 @@ import {
 } from "@budibase/backend-core/db"
 import { DocumentTypes, getAutomationParams } from "../../../db/utils"
 import { disableAllCrons, enableCronTrigger } from "../../../automations/utils"
+import { enableChangeCapture } from "../../../automations/cdc"
 import { app as appCache } from "@budibase/backend-core/cache"
 import {
   getAppId,
@@ -90,6 +91,9 @@ async function initDeployedApp(prodAppId: any) {
   }
   await Promise.all(promises)
   console.log("Enabled cron triggers for deployed app..")
+  // datasources which no longer capture changes stop being polled on their next poll
+  await enableChangeCapture(prodAppId)
+  console.log("Enabled change capture for deployed app..")
 }
 
 async function deployApp(deployment: any) {
@@ -5,6 +5,8 @@ import { OpenAPI2 } from "./sources/openapi2"
 import { OpenAPI3 } from "./sources/openapi3"
 import { Query } from "./../../../../definitions/common"
 import { Curl } from "./sources/curl"
+import { Postman } from "./sources/postman"
+import { Har } from "./sources/har"
 // @ts-ignore
 import { getAppDB } from "@budibase/backend-core/context"
 interface ImportResult {
@@ -19,7 +21,13 @@ export class RestImporter {
 
   constructor(data: string) {
     this.data = data
-    this.sources = [new OpenAPI2(), new OpenAPI3(), new Curl()]
+    this.sources = [
+      new OpenAPI2(),
+      new OpenAPI3(),
+      new Postman(),
+      new Har(),
+      new Curl(),
+    ]
   }
 
   init = async () => {
@@ -35,9 +43,23 @@ export class RestImporter {
     return this.source.getInfo()
   }
 
-  importQueries = async (datasourceId: string): Promise<ImportResult> => {
+  /**
+   * @param datasourceId The datasource the queries are imported into.
+   * @param authConfigIds Replacements for the auth configs of the import, used when
+   * the datasource already has a matching auth config.
+   */
+  importQueries = async (
+    datasourceId: string,
+    authConfigIds: { [key: string]: string } = {}
+  ): Promise<ImportResult> => {
     // constuct the queries
     let queries = await this.source.getQueries(datasourceId)
+    for (let query of queries) {
+      const authConfigId = query.fields.authConfigId
+      if (authConfigId && authConfigIds[authConfigId]) {
+        query.fields.authConfigId = authConfigIds[authConfigId]
+      }
+    }
 
     // validate queries
     const errorQueries: Query[] = []
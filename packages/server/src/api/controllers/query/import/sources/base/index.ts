@@ -1,8 +1,16 @@
-import { Query, QueryParameter } from "../../../../../../definitions/datasource"
+import {
+  AuthConfig,
+  Query,
+  QueryParameter,
+} from "../../../../../../definitions/datasource"
 import { URL } from "url"
 
 export interface ImportInfo {
   name: string
+  url?: string
+  // added to the config of the datasource when the import creates it
+  staticVariables?: { [key: string]: string }
+  authConfigs?: AuthConfig[]
 }
 
 enum MethodToVerb {
@@ -3,6 +3,60 @@ import SwaggerParser from "@apidevtools/swagger-parser"
 import { OpenAPI } from "openapi-types"
 const yaml = require("js-yaml")
 
+const isOpenAPI31 = (document: any) => {
+  return (
+    typeof document?.openapi === "string" && /^3\.1\./.test(document.openapi)
+  )
+}
+
+const resolveRef = (document: any, ref: string) => {
+  if (!ref.startsWith("#/")) {
+    throw new Error(`Unsupported reference ${ref}`)
+  }
+  const target = ref
+    .substring(2)
+    .split("/")
+    .map(part =>
+      decodeURIComponent(part).replace(/~1/g, "/").replace(/~0/g, "~")
+    )
+    .reduce((value, key) => value?.[key], document)
+  if (target === undefined) {
+    throw new Error(`Could not resolve reference ${ref}`)
+  }
+  return target
+}
+
+/**
+ * Replaces the internal references of the document with the objects they refer to,
+ * circular references result in circular objects in the same way as the parser library.
+ */
+const dereference = (document: any) => {
+  const resolved: { [ref: string]: any } = {}
+  const walk = (value: any): any => {
+    if (Array.isArray(value)) {
+      return value.map(walk)
+    }
+    if (!value || typeof value !== "object") {
+      return value
+    }
+    if (typeof value.$ref === "string") {
+      const ref = value.$ref
+      if (!(ref in resolved)) {
+        const target = resolveRef(document, ref)
+        resolved[ref] = Array.isArray(target) ? [] : {}
+        Object.assign(resolved[ref], walk(target))
+      }
+      return resolved[ref]
+    }
+    const result: any = {}
+    for (let [key, child] of Object.entries(value)) {
+      result[key] = walk(child)
+    }
+    return result
+  }
+  return walk(document)
+}
+
 export abstract class OpenAPISource extends ImportSource {
   parseData = async (data: string): Promise<OpenAPI.Document> => {
     let json: OpenAPI.Document
@@ -19,6 +73,10 @@ export abstract class OpenAPISource extends ImportSource {
       }
     }
 
+    // the parser library can't validate OpenAPI 3.1 yet, only resolve its references
+    if (isOpenAPI31(json)) {
+      return dereference(json)
+    }
     return SwaggerParser.validate(json, {})
   }
 }
@@ -0,0 +1,128 @@
+import { ImportSource, ImportInfo } from "./base"
+import { Query } from "../../../../../definitions/common"
+import { URL } from "url"
+
+// headers which are set by the browser or by the request itself, credentials are never
+// imported, they should be set up as an auth config of the datasource
+const IGNORED_HEADERS = [
+  "content-length",
+  "host",
+  "connection",
+  "cookie",
+  "authorization",
+  "proxy-authorization",
+]
+// requests for pages and assets aren't API calls
+const API_RESOURCE_TYPES = ["xhr", "fetch"]
+
+const getBody = (postData: any) => {
+  if (!postData) {
+    return {}
+  }
+  const mimeType = postData.mimeType || ""
+  if (mimeType.includes("application/x-www-form-urlencoded")) {
+    const params = (postData.params || []).reduce((acc: any, param: any) => {
+      acc[param.name] = param.value
+      return acc
+    }, {})
+    return { bodyType: "encoded", requestBody: JSON.stringify(params, null, 2) }
+  }
+  if (mimeType.includes("json")) {
+    return { bodyType: "json", requestBody: postData.text }
+  }
+  if (mimeType.includes("xml")) {
+    return { bodyType: "xml", requestBody: postData.text }
+  }
+  return postData.text ? { bodyType: "text", requestBody: postData.text } : {}
+}
+
+/**
+ * HTTP Archive (HAR) 1.2, e.g. exported from the network tab of the browser
+ * http://www.softwareishard.com/blog/har-12-spec/
+ */
+export class Har extends ImportSource {
+  entries: any[] = []
+
+  isSupported = async (data: string): Promise<boolean> => {
+    try {
+      const har = JSON.parse(data)
+      if (!Array.isArray(har?.log?.entries)) {
+        return false
+      }
+      this.entries = this.getApiEntries(har.log.entries)
+    } catch (err) {
+      return false
+    }
+    return true
+  }
+
+  /**
+   * Only keeps the API requests of the capture, and only the first of any requests
+   * which were repeated.
+   */
+  getApiEntries = (entries: any[]) => {
+    const seen = new Set<string>()
+    return entries.filter(entry => {
+      const request = entry?.request
+      if (!request?.url || !request.method) {
+        return false
+      }
+      if (
+        entry._resourceType &&
+        !API_RESOURCE_TYPES.includes(entry._resourceType)
+      ) {
+        return false
+      }
+      try {
+        this.verbFromMethod(request.method.toLowerCase())
+      } catch (err) {
+        return false
+      }
+      const key = `${request.method} ${request.url}`
+      if (seen.has(key)) {
+        return false
+      }
+      seen.add(key)
+      return true
+    })
+  }
+
+  getInfo = async (): Promise<ImportInfo> => {
+    const first = this.entries[0]
+    return {
+      name: first ? new URL(first.request.url).hostname : "HAR Import",
+    }
+  }
+
+  getQueries = async (datasourceId: string): Promise<Query[]> => {
+    return this.entries.map(entry => {
+      const request = entry.request
+      const url = new URL(request.url)
+      const method = request.method.toLowerCase()
+      const headers = (request.headers || []).reduce(
+        (acc: any, header: any) => {
+          const name = header.name.toLowerCase()
+          // http2 pseudo headers start with a colon, e.g. :authority
+          if (!name.startsWith(":") && !IGNORED_HEADERS.includes(name)) {
+            acc[header.name] = header.value
+          }
+          return acc
+        },
+        {}
+      )
+      const { bodyType, requestBody } = getBody(request.postData)
+      const query = this.constructQuery(
+        datasourceId,
+        `${request.method.toUpperCase()} ${url.pathname}`,
+        method,
+        url.origin + url.pathname,
+        undefined,
+        url.search,
+        headers
+      )
+      query.fields.bodyType = bodyType || "none"
+      query.fields.requestBody = requestBody
+      return query
+    })
+  }
+}
@@ -1,8 +1,16 @@
 import { ImportInfo } from "./base"
-import { Query, QueryParameter } from "../../../../../definitions/datasource"
+import {
+  AuthConfig,
+  AuthType,
+  ApiKeyLocation,
+  OAuth2GrantType,
+  Query,
+  QueryParameter,
+} from "../../../../../definitions/datasource"
 import { OpenAPIV3 } from "openapi-types"
 import { OpenAPISource } from "./base/openapi"
 import { URL } from "url"
+const newid = require("../../../../../db/newid")
 
 const parameterNotRef = (
   param: OpenAPIV3.ParameterObject | OpenAPIV3.ReferenceObject
@@ -26,7 +34,7 @@ const schemaNotRef = (
 }
 
 const isOpenAPI3 = (document: any): document is OpenAPIV3.Document => {
-  return document.openapi.includes("3.0")
+  return /^3\.[01]\./.test(document.openapi)
 }
 
 const methods: string[] = Object.values(OpenAPIV3.HttpMethods)
@@ -64,6 +72,11 @@ const getRequestBody = (operation: OpenAPIV3.OperationObject) => {
         if (schema.example) {
           return schema.example
         }
+        // OpenAPI 3.1 schemas have a list of examples instead
+        const examples = (schema as any).examples
+        if (Array.isArray(examples) && examples.length > 0) {
+          return examples[0]
+        }
       }
     }
   }
@@ -78,18 +91,139 @@ const getMimeTypes = (operation: OpenAPIV3.OperationObject): string[] => {
   return []
 }
 
+// OpenAPI 3.1 schemas can have multiple types, e.g. ["string", "null"]
+const getSchemaType = (schema: any): string | undefined => {
+  if (Array.isArray(schema.type)) {
+    return schema.type.find((type: string) => type !== "null")
+  }
+  return schema.type
+}
+
+const getFieldType = (schema: any): string => {
+  switch (getSchemaType(schema)) {
+    case "integer":
+    case "number":
+      return "number"
+    case "boolean":
+      return "boolean"
+    case "string":
+      return ["date", "date-time"].includes(schema.format)
+        ? "datetime"
+        : "string"
+    default:
+      return "string"
+  }
+}
+
+// properties can be spread across the schemas of an allOf, refs may be circular
+const getProperties = (schema: any, seen = new Set<any>()): any => {
+  if (!schema || typeof schema !== "object" || seen.has(schema)) {
+    return {}
+  }
+  seen.add(schema)
+  let properties = { ...schema.properties }
+  for (let subSchema of schema.allOf || []) {
+    properties = { ...properties, ...getProperties(subSchema, seen) }
+  }
+  return properties
+}
+
+const getResponseSchema = (operation: OpenAPIV3.OperationObject) => {
+  const responses: any = operation.responses || {}
+  const status =
+    Object.keys(responses).find(status => /^2/.test(status)) || "default"
+  const content = responses[status]?.content || {}
+  const mimeType = Object.keys(content).find(mimeType =>
+    mimeType.includes("json")
+  )
+  return mimeType ? content[mimeType].schema : undefined
+}
+
 /**
- * OpenAPI Version 3.0
+ * Generates the schema of a query from its response, so the fields of the query are
+ * known before it has been run. Array responses are the rows of the query.
+ */
+const getQuerySchema = (operation: OpenAPIV3.OperationObject) => {
+  let schema = getResponseSchema(operation)
+  if (schema && getSchemaType(schema) === "array") {
+    schema = schema.items
+  }
+  const fields: { [key: string]: { name: string; type: string } } = {}
+  for (let [name, property] of Object.entries(getProperties(schema))) {
+    fields[name] = { name, type: getFieldType(property) }
+  }
+  return fields
+}
+
+const getAuthConfig = (
+  scheme: any
+): { type: AuthType; config: any } | undefined => {
+  switch (scheme.type) {
+    case "http":
+      switch (scheme.scheme?.toLowerCase()) {
+        case "basic":
+          return {
+            type: AuthType.BASIC,
+            config: { username: "", password: "" },
+          }
+        case "bearer":
+          return { type: AuthType.BEARER, config: { token: "" } }
+        default:
+          return undefined
+      }
+    case "apiKey":
+      if (!["header", "query"].includes(scheme.in)) {
+        return undefined
+      }
+      return {
+        type: AuthType.API_KEY,
+        config: {
+          name: scheme.name,
+          value: "",
+          location:
+            scheme.in === "query"
+              ? ApiKeyLocation.QUERY
+              : ApiKeyLocation.HEADER,
+        },
+      }
+    case "oauth2":
+      const flows = scheme.flows || {}
+      const flow = flows.clientCredentials || flows.authorizationCode
+      if (!flow) {
+        return undefined
+      }
+      return {
+        type: AuthType.OAUTH2,
+        config: {
+          grantType: flows.clientCredentials
+            ? OAuth2GrantType.CLIENT_CREDENTIALS
+            : OAuth2GrantType.AUTHORIZATION_CODE,
+          tokenUrl: flow.tokenUrl,
+          clientId: "",
+          scopes: Object.keys(flow.scopes || {}).join(" ") || undefined,
+        },
+      }
+    default:
+      return undefined
+  }
+}
+
+/**
+ * OpenAPI Version 3.0 and 3.1
  * https://github.com/OAI/OpenAPI-Specification/blob/main/versions/3.0.0.md
+ * https://github.com/OAI/OpenAPI-Specification/blob/main/versions/3.1.0.md
  */
 export class OpenAPI3 extends OpenAPISource {
   document!: OpenAPIV3.Document
+  // the auth configs of the security schemes, by the name of the scheme
+  authConfigs: { [name: string]: AuthConfig } = {}
 
   isSupported = async (data: string): Promise<boolean> => {
     try {
       const document: any = await this.parseData(data)
       if (isOpenAPI3(document)) {
         this.document = document
+        this.authConfigs = this.getAuthConfigs()
         return true
       } else {
         return false
@@ -103,9 +237,37 @@ export class OpenAPI3 extends OpenAPISource {
     const name = this.document.info.title || "OpenAPI Import"
     return {
       name,
+      authConfigs: Object.values(this.authConfigs),
     }
   }
 
+  getAuthConfigs = () => {
+    const authConfigs: { [name: string]: AuthConfig } = {}
+    const schemes: any = this.document.components?.securitySchemes || {}
+    for (let [name, scheme] of Object.entries(schemes)) {
+      const authConfig = getAuthConfig(scheme)
+      if (authConfig) {
+        authConfigs[name] = { _id: newid(), name, ...authConfig }
+      }
+    }
+    return authConfigs
+  }
+
+  /**
+   * Operations can override the security of the document, only the first of the
+   * schemes which can be used is applied to the query.
+   */
+  getAuthConfigId = (operation: OpenAPIV3.OperationObject) => {
+    const security = operation.security || this.document.security || []
+    for (let requirement of security) {
+      const name = Object.keys(requirement).find(name => this.authConfigs[name])
+      if (name) {
+        return this.authConfigs[name]._id
+      }
+    }
+    return undefined
+  }
+
   getQueries = async (datasourceId: string): Promise<Query[]> => {
     let url: string | URL | undefined
     if (this.document.servers?.length) {
@@ -120,7 +282,9 @@ export class OpenAPI3 extends OpenAPISource {
 
     const queries: Query[] = []
 
-    for (let [path, pathItemObject] of Object.entries(this.document.paths)) {
+    for (let [path, pathItemObject] of Object.entries(
+      this.document.paths || {}
+    )) {
       // parameters that apply to every operation in the path
       let pathParams: OpenAPIV3.ParameterObject[] = []
 
@@ -196,6 +360,11 @@ export class OpenAPI3 extends OpenAPISource {
           parameters,
           requestBody
         )
+        query.schema = getQuerySchema(operation)
+        const authConfigId = this.getAuthConfigId(operation)
+        if (authConfigId) {
+          query.fields.authConfigId = authConfigId
+        }
         queries.push(query)
       }
     }
@@ -0,0 +1,281 @@
+import { ImportSource, ImportInfo } from "./base"
+import {
+  AuthConfig,
+  AuthType,
+  ApiKeyLocation,
+  OAuth2GrantType,
+  Query,
+  QueryParameter,
+} from "../../../../../definitions/datasource"
+const newid = require("../../../../../db/newid")
+
+const SCHEMA_REGEX = /schema\.getpostman\.com\/json\/collection\/v2\.[01]/
+
+interface PostmanRequest {
+  name: string
+  method: string
+  path: string
+  queryString: string
+  headers: { [key: string]: string }
+  parameters: QueryParameter[]
+  bodyType?: string
+  requestBody?: string
+  authConfigId?: string
+}
+
+const isEnabled = (entry: any) => entry && !entry.disabled
+
+// postman key value lists, e.g. [{ key: "a", value: "1" }]
+const toObject = (list: any[] = []): { [key: string]: string } => {
+  return list.filter(isEnabled).reduce((acc, entry) => {
+    acc[entry.key] = entry.value == null ? "" : `${entry.value}`
+    return acc
+  }, {})
+}
+
+// auth attributes are stored as lists of key value pairs, e.g. bearer: [{ key: "token" }]
+const authValues = (auth: any) => toObject(auth[auth.type] || [])
+
+/**
+ * Postman variables use the same syntax as bindings, e.g. {{baseUrl}}, the path is later
+ * processed to add braces around path params, so variables are reduced to single braces.
+ */
+const toPathParams = (path: string) =>
+  path.replace(/{{\s*([^}]+?)\s*}}/g, "{$1}")
+
+const parseJson = (json: string | undefined) => {
+  try {
+    return json ? JSON.parse(json) : undefined
+  } catch (err) {
+    return undefined
+  }
+}
+
+const parseBody = (body: any) => {
+  if (!body || body.disabled) {
+    return {}
+  }
+  switch (body.mode) {
+    case "raw":
+      const language = body.options?.raw?.language
+      return {
+        bodyType:
+          language === "xml" ? "xml" : language === "text" ? "text" : "json",
+        requestBody: body.raw,
+      }
+    case "urlencoded":
+      return {
+        bodyType: "encoded",
+        requestBody: JSON.stringify(toObject(body.urlencoded), null, 2),
+      }
+    case "formdata":
+      const fields = (body.formdata || []).filter(
+        (field: any) => field.type !== "file"
+      )
+      return {
+        bodyType: "form",
+        requestBody: JSON.stringify(toObject(fields), null, 2),
+      }
+    case "graphql":
+      return {
+        bodyType: "json",
+        requestBody: JSON.stringify(
+          {
+            query: body.graphql?.query,
+            variables: parseJson(body.graphql?.variables),
+          },
+          null,
+          2
+        ),
+      }
+    default:
+      return {}
+  }
+}
+
+/**
+ * Postman Collection v2.1
+ * https://schema.postman.com/collection/json/v2.1.0/draft-07/docs/index.html
+ */
+export class Postman extends ImportSource {
+  collection: any
+  requests: PostmanRequest[] = []
+  authConfigs: AuthConfig[] = []
+
+  isSupported = async (data: string): Promise<boolean> => {
+    try {
+      const collection = JSON.parse(data)
+      if (!SCHEMA_REGEX.test(collection?.info?.schema)) {
+        return false
+      }
+      this.collection = collection
+      this.authConfigs = []
+      this.requests = []
+      this.parseItems(collection.item, [], collection.auth)
+    } catch (err) {
+      return false
+    }
+    return true
+  }
+
+  getInfo = async (): Promise<ImportInfo> => {
+    return {
+      name: this.collection.info.name || "Postman Import",
+      staticVariables: toObject(this.collection.variable),
+      authConfigs: this.authConfigs,
+    }
+  }
+
+  getQueries = async (datasourceId: string): Promise<Query[]> => {
+    return this.requests.map(request => {
+      const query = this.constructQuery(
+        datasourceId,
+        request.name,
+        request.method,
+        request.path,
+        undefined,
+        request.queryString,
+        request.headers,
+        request.parameters
+      )
+      query.fields.bodyType = request.bodyType || "none"
+      query.fields.requestBody = request.requestBody
+      if (request.authConfigId) {
+        query.fields.authConfigId = request.authConfigId
+      }
+      return query
+    })
+  }
+
+  /**
+   * Folders are flattened into the names of the queries, requests without auth inherit
+   * it from the closest folder which configures it.
+   */
+  parseItems = (items: any[] = [], folders: string[], auth: any) => {
+    for (let item of items) {
+      const itemAuth = item.auth || auth
+      if (Array.isArray(item.item)) {
+        this.parseItems(item.item, [...folders, item.name], itemAuth)
+      } else if (item.request) {
+        const request = this.parseRequest(item, folders, itemAuth)
+        if (request) {
+          this.requests.push(request)
+        }
+      }
+    }
+  }
+
+  parseRequest = (
+    item: any,
+    folders: string[],
+    auth: any
+  ): PostmanRequest | undefined => {
+    // requests can be a plain URL, which are GET requests
+    const request =
+      typeof item.request === "string" ? { url: item.request } : item.request
+    const method = (request.method || "GET").toLowerCase()
+    try {
+      this.verbFromMethod(method)
+    } catch (err) {
+      return undefined
+    }
+    const url =
+      typeof request.url === "string" ? { raw: request.url } : request.url || {}
+    const [rawPath, ...rawQuery] = (url.raw || "").split("?")
+    const queryString = url.query
+      ? url.query
+          .filter(isEnabled)
+          .map((param: any) =>
+            param.value == null ? param.key : `${param.key}=${param.value}`
+          )
+          .join("&")
+      : rawQuery.join("?")
+
+    // path variables e.g. /users/:id become parameters
+    const parameters: QueryParameter[] = []
+    const defaults = toObject(url.variable)
+    const path = toPathParams(rawPath).replace(
+      /\/:([A-Za-z_][\w-]*)/g,
+      (match, name) => {
+        parameters.push({ name, default: defaults[name] || "" })
+        return `/{${name}}`
+      }
+    )
+
+    return {
+      name: [...folders, item.name].join(" / "),
+      method,
+      path,
+      queryString,
+      headers: toObject(request.header),
+      parameters,
+      ...parseBody(request.body),
+      authConfigId: this.getAuthConfigId(request.auth || auth),
+    }
+  }
+
+  /**
+   * Converts postman auth into an auth config of the datasource, the same auth is only
+   * added to the datasource once.
+   */
+  getAuthConfigId = (auth: any): string | undefined => {
+    if (!auth || auth.type === "noauth") {
+      return undefined
+    }
+    const values = authValues(auth)
+    let type: AuthType, config: any
+    switch (auth.type) {
+      case "basic":
+        type = AuthType.BASIC
+        config = { username: values.username, password: values.password }
+        break
+      case "bearer":
+        type = AuthType.BEARER
+        config = { token: values.token }
+        break
+      case "apikey":
+        type = AuthType.API_KEY
+        config = {
+          name: values.key,
+          value: values.value,
+          location:
+            values.in === "query"
+              ? ApiKeyLocation.QUERY
+              : ApiKeyLocation.HEADER,
+        }
+        break
+      case "oauth2":
+        type = AuthType.OAUTH2
+        config = {
+          grantType:
+            values.grant_type === "authorization_code"
+              ? OAuth2GrantType.AUTHORIZATION_CODE
+              : OAuth2GrantType.CLIENT_CREDENTIALS,
+          tokenUrl: values.accessTokenUrl,
+          clientId: values.clientId,
+          clientSecret: values.clientSecret,
+          scopes: values.scope,
+          redirectUri: values.redirect_uri,
+        }
+        break
+      default:
+        return undefined
+    }
+    const existing = this.authConfigs.find(
+      authConfig =>
+        authConfig.type === type &&
+        JSON.stringify(authConfig.config) === JSON.stringify(config)
+    )
+    if (existing) {
+      return existing._id
+    }
+    const authConfig: AuthConfig = {
+      _id: newid(),
+      name: `${type}-${this.authConfigs.length + 1}`,
+      type,
+      config,
+    }
+    this.authConfigs.push(authConfig)
+    return authConfig._id
+  }
+}
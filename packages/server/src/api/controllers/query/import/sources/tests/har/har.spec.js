@@ -0,0 +1,59 @@
+const { Har } = require("../../har")
+const fs = require("fs")
+const path = require("path")
+
+const getData = file => {
+  return fs.readFileSync(path.join(__dirname, `./data/${file}.har`), "utf8")
+}
+
+describe("HAR Import", () => {
+  let har
+
+  beforeEach(async () => {
+    har = new Har()
+  })
+
+  const getQueries = async () => {
+    await har.isSupported(getData("capture"))
+    return har.getQueries("datasourceId")
+  }
+
+  it("validates unsupported data", async () => {
+    expect(await har.isSupported("curl http://example.com")).toBe(false)
+    expect(await har.isSupported("")).toBe(false)
+    expect(await har.isSupported(JSON.stringify({ log: {} }))).toBe(false)
+    expect(await har.isSupported(getData("capture"))).toBe(true)
+  })
+
+  it("returns import info", async () => {
+    await har.isSupported(getData("capture"))
+    const info = await har.getInfo()
+    expect(info.name).toBe("example.com")
+  })
+
+  it("only imports unique API requests", async () => {
+    const queries = await getQueries()
+    expect(queries.map(query => query.name)).toEqual([
+      "GET /api/users",
+      "POST /api/users",
+      "POST /api/login",
+    ])
+  })
+
+  it("populates path, query and headers, without credentials", async () => {
+    const [query] = await getQueries()
+    expect(query.queryVerb).toBe("read")
+    expect(query.fields.path).toBe("https://example.com/api/users")
+    expect(query.fields.queryString).toBe("limit=10")
+    expect(query.fields.headers).toEqual({ accept: "application/json" })
+  })
+
+  it("populates body", async () => {
+    const [, create, login] = await getQueries()
+    expect(create.fields.bodyType).toBe("json")
+    expect(create.fields.requestBody).toBe('{"name":"test"}')
+    expect(create.fields.headers).toEqual({ "content-type": "application/json" })
+    expect(login.fields.bodyType).toBe("encoded")
+    expect(JSON.parse(login.fields.requestBody)).toEqual({ remember: "true" })
+  })
+})
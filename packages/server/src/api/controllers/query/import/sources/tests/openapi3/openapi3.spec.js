@@ -237,4 +237,100 @@ describe("OpenAPI3 Import", () => {
       await runTests("crud", testBody, assertions)
     })
   })
+  describe("OpenAPI 3.1", () => {
+    const init = async (file, extension) => {
+      const supported = await openapi3.isSupported(getData(file, extension))
+      expect(supported).toBe(true)
+      const info = await openapi3.getInfo()
+      const queries = await openapi3.getQueries()
+      return {
+        info,
+        queries: queries.reduce((acc, query) => {
+          acc[query.name] = query
+          return acc
+        }, {}),
+      }
+    }
+
+    const testAuthConfigs = async file => {
+      for (let extension of ["json", "yaml"]) {
+        const { info, queries } = await init(file, extension)
+        const authConfigs = info.authConfigs.reduce((acc, authConfig) => {
+          acc[authConfig.name] = authConfig
+          return acc
+        }, {})
+        expect(authConfigs.bearerAuth.type).toBe("bearer")
+        expect(authConfigs.basicAuth.type).toBe("basic")
+        expect(authConfigs.apiKeyAuth).toMatchObject({
+          type: "apiKey",
+          config: { name: "x-api-key", location: "header" },
+        })
+        expect(authConfigs.oauth).toMatchObject({
+          type: "oauth2",
+          config: {
+            grantType: "client_credentials",
+            tokenUrl: "http://example.com/oauth/token",
+            scopes: "reports:read",
+          },
+        })
+
+        // operations without security use the security of the document
+        const assertions = {
+          getUsers: authConfigs.bearerAuth._id,
+          createUser: authConfigs.apiKeyAuth._id,
+          createToken: authConfigs.basicAuth._id,
+          getReports: authConfigs.oauth._id,
+        }
+        for (let [operationId, authConfigId] of Object.entries(assertions)) {
+          expect(queries[operationId].fields.authConfigId).toBe(authConfigId)
+        }
+      }
+    }
+
+    it("converts security schemes into auth configs", async () => {
+      await testAuthConfigs("secure")
+    })
+
+    it("populates schema from the response", async () => {
+      const userSchema = {
+        id: { name: "id", type: "number" },
+        name: { name: "name", type: "string" },
+        admin: { name: "admin", type: "boolean" },
+        createdAt: { name: "createdAt", type: "datetime" },
+        manager: { name: "manager", type: "string" },
+      }
+      await runTests("secure", async (file, extension) => {
+        const { queries } = await init(file, extension)
+        expect(queries.getUsers.schema).toEqual(userSchema)
+        expect(queries.createUser.schema).toEqual(userSchema)
+        expect(queries.getReports.schema).toEqual({})
+      })
+    })
+
+    it("populates body from the examples of the schema", async () => {
+      await runTests("secure", async (file, extension) => {
+        const { queries } = await init(file, extension)
+        expect(JSON.parse(queries.createUser.fields.requestBody)).toEqual({
+          name: "name",
+          admin: false,
+        })
+      })
+    })
+  })
+
+  it("populates schema from allOf and array responses", async () => {
+    await runTests("crud", async (file, extension) => {
+      await openapi3.isSupported(getData(file, extension))
+      const queries = await openapi3.getQueries()
+      const entitySchema = {
+        id: { name: "id", type: "number" },
+        name: { name: "name", type: "string" },
+        type: { name: "type", type: "string" },
+      }
+      for (let query of queries) {
+        const expected = query.name === "deleteEntity" ? {} : entitySchema
+        expect(query.schema).toEqual(expected)
+      }
+    })
+  })
 })
@@ -0,0 +1,100 @@
+const { Postman } = require("../../postman")
+const fs = require("fs")
+const path = require("path")
+
+const getData = file => {
+  return fs.readFileSync(path.join(__dirname, `./data/${file}.json`), "utf8")
+}
+
+describe("Postman Import", () => {
+  let postman
+
+  beforeEach(async () => {
+    postman = new Postman()
+  })
+
+  const init = async () => {
+    await postman.isSupported(getData("collection"))
+  }
+
+  const getQuery = async name => {
+    await init()
+    const queries = await postman.getQueries("datasourceId")
+    return queries.find(query => query.name === name)
+  }
+
+  it("validates unsupported data", async () => {
+    expect(await postman.isSupported("curl http://example.com")).toBe(false)
+    expect(await postman.isSupported("")).toBe(false)
+    expect(await postman.isSupported(JSON.stringify({ info: {} }))).toBe(false)
+    expect(await postman.isSupported(getData("collection"))).toBe(true)
+  })
+
+  it("returns import info", async () => {
+    await init()
+    const info = await postman.getInfo()
+    expect(info.name).toBe("Users API")
+    expect(info.staticVariables).toEqual({
+      baseUrl: "https://example.com/api",
+      token: "abc123",
+    })
+    expect(info.authConfigs.map(config => config.type)).toEqual([
+      "bearer",
+      "basic",
+    ])
+    expect(info.authConfigs[0].config).toEqual({ token: "{{token}}" })
+  })
+
+  it("flattens folders and skips unsupported methods", async () => {
+    await init()
+    const queries = await postman.getQueries("datasourceId")
+    expect(queries.map(query => query.name)).toEqual([
+      "Users / List users",
+      "Users / Get user",
+      "Users / Create user",
+      "Login",
+    ])
+    expect(queries.map(query => query.queryVerb)).toEqual([
+      "read",
+      "read",
+      "create",
+      "create",
+    ])
+  })
+
+  it("populates path, query and headers", async () => {
+    const query = await getQuery("Users / List users")
+    expect(query.fields.path).toBe("{{baseUrl}}/users")
+    expect(query.fields.queryString).toBe("limit=10&offset=0")
+    expect(query.fields.headers).toEqual({ Accept: "application/json" })
+  })
+
+  it("converts path variables into parameters", async () => {
+    const query = await getQuery("Users / Get user")
+    expect(query.fields.path).toBe("{{baseUrl}}/users/{{userId}}")
+    expect(query.parameters).toEqual([{ name: "userId", default: "1" }])
+  })
+
+  it("populates body", async () => {
+    let query = await getQuery("Users / Create user")
+    expect(query.fields.bodyType).toBe("json")
+    expect(query.fields.requestBody).toBe('{\n  "name": "test"\n}')
+
+    query = await getQuery("Login")
+    expect(query.fields.bodyType).toBe("encoded")
+    expect(JSON.parse(query.fields.requestBody)).toEqual({ remember: "true" })
+  })
+
+  it("links queries to the inherited auth config", async () => {
+    await init()
+    const { authConfigs } = await postman.getInfo()
+    const queries = await postman.getQueries("datasourceId")
+    const authConfigIds = queries.map(query => query.fields.authConfigId)
+    expect(authConfigIds).toEqual([
+      authConfigs[0]._id,
+      authConfigs[0]._id,
+      authConfigs[0]._id,
+      authConfigs[1]._id,
+    ])
+  })
+})
@@ -3,7 +3,10 @@ import { BaseQueryVerbs } from "../../../constants"
 import { Thread, ThreadType } from "../../../threads"
 import { save as saveDatasource } from "../datasource"
 import { RestImporter } from "./import"
-import { invalidateDynamicVariables } from "../../../threads/utils"
+import {
+  invalidateDynamicVariables,
+  invalidateQueryCache,
+} from "../../../threads/utils"
 import { QUERY_THREAD_TIMEOUT } from "../../../environment"
 import { getAppDB } from "@budibase/backend-core/context"
 import { quotas } from "@budibase/pro"
@@ -36,6 +39,41 @@ export async function fetch(ctx: any) {
   ctx.body = enrichQueries(body.rows.map((row: any) => row.doc))
 }
 
+/**
+ * Adds the static variables and auth configs of an import to an existing datasource, the
+ * values already in the datasource are kept. Imported auth configs which match an existing
+ * auth config by name and type aren't added, the queries use the existing auth config.
+ * @returns The IDs of the existing auth configs, keyed by the ID of the imported auth config.
+ */
+async function mergeImportInfo(datasourceId: string, info: any) {
+  const db = getAppDB()
+  const datasource = await db.get(datasourceId)
+  const config = datasource.config || {}
+  const authConfigs = [...(config.authConfigs || [])]
+  const authConfigIds: { [key: string]: string } = {}
+  for (let authConfig of info.authConfigs || []) {
+    const existing = authConfigs.find(
+      (current: any) =>
+        current.name === authConfig.name && current.type === authConfig.type
+    )
+    if (existing) {
+      authConfigIds[authConfig._id] = existing._id
+    } else {
+      authConfigs.push(authConfig)
+    }
+  }
+  datasource.config = {
+    ...config,
+    staticVariables: {
+      ...(info.staticVariables || {}),
+      ...(config.staticVariables || {}),
+    },
+    authConfigs,
+  }
+  await db.put(datasource)
+  return authConfigIds
+}
+
 const _import = async (ctx: any) => {
   const body = ctx.request.body
   const data = body.data
@@ -43,7 +81,8 @@ const _import = async (ctx: any) => {
   const importer = new RestImporter(data)
   await importer.init()
 
-  let datasourceId
+  let datasourceId,
+    authConfigIds = {}
   if (!body.datasourceId) {
     // construct new datasource
     const info: any = await importer.getInfo()
@@ -53,6 +92,8 @@ const _import = async (ctx: any) => {
       config: {
         url: info.url,
         defaultHeaders: [],
+        staticVariables: info.staticVariables || {},
+        authConfigs: info.authConfigs || [],
       },
       name: info.name,
     }
@@ -64,9 +105,13 @@ const _import = async (ctx: any) => {
   } else {
     // use existing datasource
     datasourceId = body.datasourceId
+    authConfigIds = await mergeImportInfo(
+      datasourceId,
+      await importer.getInfo()
+    )
   }
 
-  const importResult = await importer.importQueries(datasourceId)
+  const importResult = await importer.importQueries(datasourceId, authConfigIds)
 
   ctx.body = {
     ...importResult,
@@ -86,6 +131,10 @@ export async function save(ctx: any) {
 
   const response = await db.put(query)
   query._rev = response.rev
+  // the query may have changed, previous results are no longer valid
+  if (query.cache && query.cache.ttl) {
+    await invalidateQueryCache(query.datasourceId, query._id)
+  }
 
   ctx.body = query
   ctx.message = `Query ${query.name} saved successfully.`
@@ -108,8 +157,14 @@ export async function preview(ctx: any) {
   const datasource = await db.get(ctx.request.body.datasourceId)
   // preview may not have a queryId as it hasn't been saved, but if it does
   // this stops dynamic variables from calling the same query
-  const { fields, parameters, queryVerb, transformer, queryId } =
-    ctx.request.body
+  const {
+    fields,
+    parameters,
+    parameterDefinitions,
+    queryVerb,
+    transformer,
+    queryId,
+  } = ctx.request.body
 
   try {
     const runFn = () =>
@@ -119,6 +174,7 @@ export async function preview(ctx: any) {
         queryVerb,
         fields,
         parameters,
+        parameterDefinitions,
         transformer,
         queryId,
       })
@@ -135,7 +191,10 @@ export async function preview(ctx: any) {
   }
 }
 
-async function execute(ctx: any, opts = { rowsOnly: false }) {
+async function execute(
+  ctx: any,
+  opts: { rowsOnly?: boolean; noCache?: boolean } = {}
+) {
   const db = getAppDB()
 
   const query = await db.get(ctx.params.queryId)
@@ -161,8 +220,11 @@ async function execute(ctx: any, opts = { rowsOnly: false }) {
         fields: query.fields,
         pagination: ctx.request.body.pagination,
         parameters: enrichedParameters,
+        parameterDefinitions: query.parameters,
         transformer: query.transformer,
         queryId: ctx.params.queryId,
+        cache: opts.noCache ? undefined : query.cache,
+        userId: ctx.user?._id,
       })
 
     const { rows, pagination, extra } = await quotas.addQuery(runFn)
@@ -184,6 +246,14 @@ export async function executeV2(ctx: any) {
   return execute(ctx, { rowsOnly: false })
 }
 
+/**
+ * Runs the query without reading or storing cached results, for when the current result
+ * is required, e.g. scheduled checks for changes to the result of the query.
+ */
+export async function executeWithoutCache(ctx: any) {
+  return execute(ctx, { rowsOnly: false, noCache: true })
+}
+
 const removeDynamicVariables = async (queryId: any) => {
   const db = getAppDB()
   const query = await db.get(queryId)
@@ -205,8 +275,19 @@ const removeDynamicVariables = async (queryId: any) => {
   }
 }
 
+export async function invalidateCache(ctx: any) {
+  const db = getAppDB()
+  const query = await db.get(ctx.params.queryId)
+  await invalidateQueryCache(query.datasourceId, query._id)
+  ctx.message = `Query cache invalidated.`
+  ctx.status = 200
+  ctx.body = { invalidated: true }
+}
+
 export async function destroy(ctx: any) {
   const db = getAppDB()
+  const query = await db.get(ctx.params.queryId)
+  await invalidateQueryCache(query.datasourceId, query._id)
   await removeDynamicVariables(ctx.params.queryId)
   await db.remove(ctx.params.queryId, ctx.params.revId)
   ctx.message = `Query deleted.`
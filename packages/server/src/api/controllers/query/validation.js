@@ -15,6 +15,8 @@ exports.queryValidation = () => {
       Joi.object({
         name: Joi.string(),
         default: Joi.string().allow(""),
+        type: OPTIONAL_STRING,
+        direction: Joi.string().valid("in", "out", "inout").optional(),
       })
     ),
     queryVerb: Joi.string().allow().required(),
@@ -22,6 +24,9 @@ exports.queryValidation = () => {
     schema: Joi.object({}).required().unknown(true),
     transformer: OPTIONAL_STRING,
     flags: Joi.object().optional(),
+    cache: Joi.object({
+      ttl: Joi.number().integer().min(0).allow(null),
+    }).optional(),
   })
 }
 
@@ -45,6 +50,8 @@ exports.generateQueryPreviewValidation = () => {
     datasourceId: Joi.string().required(),
     transformer: OPTIONAL_STRING,
     parameters: Joi.object({}).required().unknown(true),
+    // the definitions of the parameters, used to type the parameters of procedures
+    parameterDefinitions: Joi.array().optional(),
     queryId: OPTIONAL_STRING,
   }))
 }
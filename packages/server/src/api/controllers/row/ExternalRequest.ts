@@ -1,10 +1,14 @@
 import {
+  AggregationJson,
   FilterTypes,
   IncludeRelationships,
+  KeysetJson,
   Operation,
   PaginationJson,
+  QueryJson,
   RelationshipsJson,
   SearchFilters,
+  SortDirection,
   SortJson,
 } from "../../../definitions/datasource"
 import {
@@ -20,6 +24,11 @@ import {
   convertRowId,
 } from "../../../integrations/utils"
 import { getDatasourceAndQuery } from "./utils"
+import {
+  getRowSecurityFilters,
+  mergeRowSecurityFilters,
+  filterRowsForUser,
+} from "./rowSecurity"
 import {
   DataSourceOperation,
   FieldTypes,
@@ -46,11 +55,37 @@ interface RunConfig {
   filters?: SearchFilters
   sort?: SortJson
   paginate?: PaginationJson
+  aggregation?: AggregationJson
+  // if set keyset pagination is used, the bookmark is the one returned with the previous page
+  keyset?: { bookmark?: string }
   row?: Row
   rows?: Row[]
+  // the user making the request, reads and writes are restricted by the row security rules
+  // of the tables, SYSTEM_USER is used when the request isn't made on behalf of a user
+  user?: any
 }
 
 module External {
+  function removeIdFilters(filters: SearchFilters, primary?: string[]) {
+    for (let [key, filter] of Object.entries(filters)) {
+      // nested groups need the same treatment
+      if (key === "groups" && Array.isArray(filter)) {
+        for (let group of filter) {
+          removeIdFilters(group, primary)
+        }
+        continue
+      }
+      if (filter._id && primary) {
+        const parts = breakRowIdField(filter._id)
+        for (let field of primary) {
+          filter[field] = parts.shift()
+        }
+      }
+      // make sure this field doesn't exist on any filter
+      delete filter._id
+    }
+  }
+
   function buildFilters(
     id: string | undefined | string[],
     filters: SearchFilters,
@@ -61,16 +96,7 @@ module External {
     let idCopy: undefined | string | any[] = cloneDeep(id)
     if (filters) {
       // need to map over the filters and make sure the _id field isn't present
-      for (let filter of Object.values(filters)) {
-        if (filter._id && primary) {
-          const parts = breakRowIdField(filter._id)
-          for (let field of primary) {
-            filter[field] = parts.shift()
-          }
-        }
-        // make sure this field doesn't exist on any filter
-        delete filter._id
-      }
+      removeIdFilters(filters, primary)
     }
     // there is no id, just use the user provided filters
     if (!idCopy || !table) {
@@ -118,9 +144,12 @@ module External {
         }
       }
     }
-    // check the row and filters to make sure they aren't a key of some sort
-    if (config.filters) {
-      for (let [key, filter] of Object.entries(config.filters)) {
+    const iterateFilters = (filters: SearchFilters) => {
+      for (let [key, filter] of Object.entries(filters)) {
+        if (key === "groups" && Array.isArray(filter)) {
+          filter.forEach(group => iterateFilters(group))
+          continue
+        }
         // oneOf is an array, don't iterate it
         if (
           typeof filter !== "object" ||
@@ -132,6 +161,10 @@ module External {
         iterateObject(filter)
       }
     }
+    // check the row and filters to make sure they aren't a key of some sort
+    if (config.filters) {
+      iterateFilters(config.filters)
+    }
     if (config.row) {
       iterateObject(config.row)
     }
@@ -139,6 +172,36 @@ module External {
     return config
   }
 
+  /**
+   * Builds a filter which matches all of the rows specified by their _id, composite
+   * keys need every part of the key to match so they are split into OR'd filter groups.
+   */
+  function buildBulkFilters(rows: Row[], table: Table): SearchFilters {
+    const primary = table.primary
+    if (!primary || primary.length === 0) {
+      throw `Unable to carry out bulk operation, table "${table.name}" has no primary key.`
+    }
+    const ids = rows.map(row => {
+      if (!row._id) {
+        throw "All rows must have an _id for bulk operations"
+      }
+      return breakRowIdField(row._id)
+    })
+    if (primary.length === 1) {
+      return {
+        oneOf: {
+          [primary[0]]: ids.map(id => id[0]),
+        },
+      }
+    }
+    return {
+      allOr: true,
+      groups: ids.map(id => ({
+        equal: Object.fromEntries(primary.map((key, idx) => [key, id[idx]])),
+      })),
+    }
+  }
+
   function generateIdForRow(row: Row | undefined, table: Table): string {
     const primary = table.primary
     if (!row || !primary) {
@@ -205,6 +268,73 @@ module External {
     return row
   }
 
+  /**
+   * Makes sure an aggregation only refers to columns which exist on the table, as
+   * the results aren't rows no further processing is possible to clean them up.
+   */
+  function validateAggregation(aggregation: AggregationJson, table: Table) {
+    const fields = [
+      ...(aggregation.groupBy || []),
+      ...(aggregation.calculations || []).map(calc => calc.field),
+    ]
+    for (let field of fields) {
+      if (field && !table.schema[field]) {
+        throw `Unable to aggregate, column "${field}" not found in table "${table.name}".`
+      }
+    }
+  }
+
+  /**
+   * Builds the keyset used for cursor pagination, this is made up of the sort columns followed
+   * by the primary key, so that it will always uniquely identify a row. If a bookmark from a
+   * previous page is provided the values of the last row of that page are decoded from it.
+   */
+  function buildKeyset(
+    table: Table,
+    sort: SortJson | undefined,
+    bookmark: string | undefined
+  ): KeysetJson {
+    if (!table.primary || table.primary.length === 0) {
+      throw `Unable to paginate table "${table.name}" by keyset, it has no primary key.`
+    }
+    const sortEntries = Object.entries(sort || {})
+    const lastDirection = sortEntries.length
+      ? sortEntries[sortEntries.length - 1][1]
+      : SortDirection.ASCENDING
+    const fields = sortEntries.map(([column, direction]) => ({
+      column,
+      direction,
+    }))
+    for (let column of table.primary) {
+      if (!fields.find(field => field.column === column)) {
+        fields.push({ column, direction: lastDirection })
+      }
+    }
+    if (!bookmark) {
+      return { fields }
+    }
+    let values: any[]
+    try {
+      values = JSON.parse(Buffer.from(bookmark, "base64").toString("utf8"))
+    } catch (err) {
+      throw "Invalid bookmark provided"
+    }
+    if (!Array.isArray(values) || values.length !== fields.length) {
+      throw "Bookmark does not match the requested sort"
+    }
+    return {
+      fields: fields.map((field, index) => ({
+        ...field,
+        value: values[index],
+      })),
+    }
+  }
+
+  function generateBookmark(row: Row, keyset: KeysetJson): string {
+    const values = keyset.fields.map(field => row[field.column])
+    return Buffer.from(JSON.stringify(values)).toString("base64")
+  }
+
   function isOneSide(field: FieldSchema) {
     return (
       field.relationshipType && field.relationshipType.split("-")[0] === "one"
@@ -216,6 +346,7 @@ module External {
     private tableId: string
     private datasource: Datasource
     private tables: { [key: string]: Table } = {}
+    private user: any
 
     constructor(operation: Operation, tableId: string, datasource: Datasource) {
       this.operation = operation
@@ -374,7 +505,11 @@ module External {
           continue
         }
         let linked = basicProcessing(row, linkedTable)
-        if (!linked._id) {
+        // related rows are restricted by the row security rules of their own table
+        if (
+          !linked._id ||
+          filterRowsForUser(linkedTable, [linked], this.user).length === 0
+        ) {
           continue
         }
         columns[relationship.column] = linked
@@ -584,6 +719,18 @@ module External {
         }
       }
       // finally cleanup anything that needs to be removed
+      for (let json of this.buildRelationshipRemovals(related)) {
+        promises.push(getDatasourceAndQuery(json))
+      }
+      await Promise.all(promises)
+    }
+
+    /**
+     * Builds the writes which remove the relationships found by lookupRelations, rows in a junction
+     * table are deleted and foreign keys in the related table are set to null.
+     */
+    buildRelationshipRemovals(related: { [key: string]: any }) {
+      const writes: QueryJson[] = []
       for (let [colName, { isMany, rows, tableId }] of Object.entries(
         related
       )) {
@@ -603,17 +750,15 @@ module External {
               ? DataSourceOperation.DELETE
               : DataSourceOperation.UPDATE
             const body = isMany ? null : { [colName]: null }
-            promises.push(
-              getDatasourceAndQuery({
-                endpoint: getEndpoint(tableId, op),
-                body,
-                filters,
-              })
-            )
+            writes.push({
+              endpoint: getEndpoint(tableId, op),
+              body,
+              filters,
+            } as QueryJson)
           }
         }
       }
-      await Promise.all(promises)
+      return writes
     }
 
     /**
@@ -654,6 +799,133 @@ module External {
       return fields
     }
 
+    /**
+     * Reads the rows of the table which match the filters, without their relationships.
+     */
+    async readRows(table: Table, filters: SearchFilters, limit: number) {
+      const response = await getDatasourceAndQuery({
+        endpoint: getEndpoint(this.tableId, DataSourceOperation.READ),
+        resource: {
+          fields: isSQL(this.datasource)
+            ? this.buildFields(table, IncludeRelationships.EXCLUDE)
+            : [],
+        },
+        filters: cloneDeep(filters),
+        paginate: {
+          limit,
+        },
+        meta: {
+          table,
+        },
+      })
+      return this.outputProcessing(response, table, [])
+    }
+
+    /**
+     * Rows which the user can't read can't be updated or deleted either, this makes sure all of
+     * the rows which are about to be written can be read.
+     */
+    async checkRowsReadable(
+      table: Table,
+      filters: SearchFilters,
+      securityFilters: SearchFilters,
+      count: number
+    ) {
+      const merged = mergeRowSecurityFilters(filters, securityFilters)
+      const readable = await this.readRows(table, merged, count)
+      if (readable.length < count) {
+        throw count === 1 ? "Row not found" : "Rows not found"
+      }
+    }
+
+    /**
+     * Bulk updates and deletes are carried out by the integration within a single transaction, the
+     * rows are retrieved after updating (or before deleting) so that they can be returned. Relationships
+     * to deleted rows are removed within the same transaction. Relationship columns cannot be changed
+     * through a bulk update.
+     */
+    async runBulk(
+      table: Table,
+      rows: Row[] = [],
+      securityFilters: SearchFilters | undefined
+    ) {
+      const { operation, tableId } = this
+      if (!isSQL(this.datasource)) {
+        throw "Bulk operations are only supported by SQL datasources"
+      }
+      if (rows.length === 0) {
+        return { rows: [], table }
+      }
+      let filters = buildBulkFilters(rows, table)
+      if (securityFilters) {
+        await this.checkRowsReadable(
+          table,
+          filters,
+          securityFilters,
+          rows.length
+        )
+        filters = mergeRowSecurityFilters(filters, securityFilters)
+      }
+      if (operation === DataSourceOperation.BULK_DELETE) {
+        const deleted = await this.readRows(table, filters, rows.length)
+        // any relationships which refer to the deleted rows are cleaned up
+        const relatedWrites = []
+        for (let row of deleted) {
+          const related = await this.lookupRelations(table._id || "", row)
+          relatedWrites.push(...this.buildRelationshipRemovals(related))
+        }
+        await getDatasourceAndQuery({
+          endpoint: getEndpoint(tableId, operation),
+          filters,
+          meta: {
+            table,
+          },
+          extra: {
+            relatedWrites,
+          },
+        })
+        return { rows: deleted, table }
+      }
+      // @ts-ignore
+      const primary: string[] = table.primary
+      const rowFilters: SearchFilters[] = []
+      const updated: Row[] = []
+      const body = rows.map(row => {
+        const processed = this.inputProcessing(row, table).row || {}
+        // the row is identified by its current primary key, which the update may change
+        const keys = breakRowIdField(row._id as string)
+        rowFilters.push(
+          mergeRowSecurityFilters(
+            buildFilters(keys, {}, table),
+            securityFilters
+          )
+        )
+        const updatedKeys = primary.map((key, idx) =>
+          processed[key] != null ? processed[key] : keys[idx]
+        )
+        updated.push({ _id: generateRowIdField(updatedKeys) })
+        return processed
+      })
+      await getDatasourceAndQuery({
+        endpoint: getEndpoint(tableId, operation),
+        body,
+        meta: {
+          table,
+        },
+        extra: {
+          rowFilters,
+        },
+      })
+      const updatedFilters = mergeRowSecurityFilters(
+        buildBulkFilters(updated, table),
+        securityFilters
+      )
+      return {
+        rows: await this.readRows(table, updatedFilters, rows.length),
+        table,
+      }
+    }
+
     async run(config: RunConfig) {
       const { operation, tableId } = this
       let { datasourceId, tableName } = breakExternalTableId(tableId)
@@ -673,22 +945,60 @@ module External {
       if (!table) {
         throw `Unable to process query, table "${tableName}" not defined.`
       }
+      if (table.readonly && operation !== DataSourceOperation.READ) {
+        throw `Unable to write to "${tableName}", it is a view and is read only.`
+      }
+      this.user = config.user
+      const securityFilters =
+        operation === DataSourceOperation.CREATE
+          ? undefined
+          : getRowSecurityFilters(table, config.user)
+      if (
+        operation === DataSourceOperation.BULK_UPDATE ||
+        operation === DataSourceOperation.BULK_DELETE
+      ) {
+        return this.runBulk(table, config.rows, securityFilters)
+      }
       // look for specific components of config which may not be considered acceptable
-      let { id, row, filters, sort, paginate, rows } = cleanupConfig(
-        config,
-        table
-      )
+      let { id, row, filters, sort, paginate, rows, aggregation } =
+        cleanupConfig(config, table)
+      if (aggregation) {
+        if (operation !== DataSourceOperation.READ || !isSql) {
+          throw "Aggregations are only supported when reading from SQL tables"
+        }
+        validateAggregation(aggregation, table)
+      }
       filters = buildFilters(id, filters || {}, table)
-      const relationships = this.buildRelationships(table)
-      // clean up row on ingress using schema
-      const processed = this.inputProcessing(row, table)
-      row = processed.row
       if (
         operation === DataSourceOperation.DELETE &&
         (filters == null || Object.keys(filters).length === 0)
       ) {
         throw "Deletion must be filtered"
       }
+      if (
+        securityFilters &&
+        (operation === DataSourceOperation.UPDATE ||
+          operation === DataSourceOperation.DELETE)
+      ) {
+        await this.checkRowsReadable(table, filters, securityFilters, 1)
+      }
+      // the rules are also part of the write, so rows which can't be read aren't changed
+      filters = mergeRowSecurityFilters(filters, securityFilters)
+      let keyset: KeysetJson | undefined, limit: number | undefined
+      if (config.keyset && operation === DataSourceOperation.READ) {
+        keyset = buildKeyset(table, sort, config.keyset.bookmark)
+        limit = paginate?.limit
+        paginate = {
+          // request an extra row to find out if there is another page
+          limit: limit ? limit + 1 : limit,
+          keyset,
+        } as PaginationJson
+      }
+      // aggregated results aren't rows, relationships can't be joined
+      const relationships = aggregation ? [] : this.buildRelationships(table)
+      // clean up row on ingress using schema
+      const processed = this.inputProcessing(row, table)
+      row = processed.row
       let json = {
         endpoint: {
           datasourceId,
@@ -697,11 +1007,12 @@ module External {
         },
         resource: {
           // have to specify the fields to avoid column overlap (for SQL)
-          fields: isSql ? this.buildFields(table) : [],
+          fields: isSql && !aggregation ? this.buildFields(table) : [],
         },
         filters,
         sort,
         paginate,
+        aggregation,
         relationships,
         body: row || rows,
         // pass an id filter into extra, purely for mysql/returning
@@ -714,6 +1025,10 @@ module External {
       }
       // can't really use response right now
       const response = await getDatasourceAndQuery(json)
+      // aggregated results are returned as is, there are no row IDs to generate
+      if (aggregation) {
+        return response.length && response[0].read !== true ? response : []
+      }
       // handle many to many relationships now if we know the ID (could be auto increment)
       if (
         operation !== DataSourceOperation.READ &&
@@ -726,6 +1041,17 @@ module External {
         )
       }
       const output = this.outputProcessing(response, table, relationships)
+      if (keyset) {
+        const hasNextPage = limit != null && output.length > limit
+        const rows = hasNextPage ? output.slice(0, limit) : output
+        return {
+          rows,
+          hasNextPage,
+          bookmark: hasNextPage
+            ? generateBookmark(rows[rows.length - 1], keyset)
+            : undefined,
+        }
+      }
       // if reading it'll just be an array of rows, return whole thing
       return operation === DataSourceOperation.READ && Array.isArray(response)
         ? output
@@ -0,0 +1,136 @@
+const env = require("../../../environment")
+const Queue = env.isTest()
+  ? require("../../../utilities/queue/inMemoryQueue")
+  : require("bull")
+const { JobQueues, ObjectStoreBuckets } = require("../../../constants")
+const { utils } = require("@budibase/backend-core/redis")
+const { doInAppContext } = require("@budibase/backend-core/context")
+const {
+  doInTenant,
+  getTenantIDFromAppID,
+} = require("@budibase/backend-core/tenancy")
+const {
+  ObjectStore,
+  streamUpload,
+  sanitizeKey,
+} = require("@budibase/backend-core/objectStore")
+const { isExternalTable } = require("../../../integrations/utils")
+const { getGlobalUser } = require("../../../utilities/global")
+const exporters = require("../view/exporters")
+const internal = require("./internal")
+const external = require("./external")
+const { opts, redisProtocolUrl } = utils.getRedisOptions()
+
+// completed exports are kept for a day, download links last for an hour
+const JOB_OPTS = {
+  removeOnComplete: { age: 24 * 60 * 60 },
+  removeOnFail: { age: 24 * 60 * 60 },
+}
+const DOWNLOAD_LINK_EXPIRY_SECONDS = 60 * 60
+
+const CONTENT_TYPES = {
+  [exporters.ExportFormats.CSV]: "text/csv",
+  [exporters.ExportFormats.JSON]: "application/json",
+  [exporters.ExportFormats.NDJSON]: "application/x-ndjson",
+  [exporters.ExportFormats.XLSX]:
+    "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+}
+
+let exportQueue
+
+function getQueue() {
+  if (!exportQueue) {
+    exportQueue = new Queue(
+      JobQueues.EXPORTS,
+      redisProtocolUrl || { redis: opts }
+    )
+  }
+  return exportQueue
+}
+
+function getExportKey(appId, jobId, format) {
+  return sanitizeKey(`${appId}/exports/${jobId}/export.${format}`)
+}
+
+// only the ID and role of the user are queued, the rest of the user is retrieved when exporting
+async function getExportUser(userId, roleId) {
+  const user = userId ? await getGlobalUser(userId) : {}
+  return { ...user, _id: userId, userId, roleId }
+}
+
+async function processExport(job) {
+  const { appId, tableId, format, columns, userId, roleId, ...opts } = job.data
+  return doInTenant(getTenantIDFromAppID(appId), () =>
+    doInAppContext(appId, async () => {
+      const api = isExternalTable(tableId) ? external : internal
+      const user = await getExportUser(userId, roleId)
+      const stream = await exporters.streamExport(
+        format,
+        api.exportPages(tableId, { ...opts, user }),
+        columns
+      )
+      const key = getExportKey(appId, job.id, format)
+      await streamUpload(ObjectStoreBuckets.EXPORTS, key, stream, {
+        ContentType: CONTENT_TYPES[format],
+      })
+      return { key }
+    })
+  )
+}
+
+/**
+ * Starts processing exports, the exports are streamed directly into the object store.
+ */
+exports.init = () => {
+  return getQueue().process(processExport)
+}
+
+exports.shutdown = async () => {
+  if (exportQueue) {
+    await exportQueue.close()
+    exportQueue = null
+  }
+}
+
+/**
+ * Queues an export of the rows of a table.
+ * @param {object} data The app and table to export, along with the format, columns, query
+ * and the ID and role of the user exporting.
+ * @return {Promise<string>} The ID of the job, used to check when the export is ready.
+ */
+exports.queueExport = async data => {
+  const job = await getQueue().add(data, JOB_OPTS)
+  return `${job.id}`
+}
+
+/**
+ * Retrieves the status of an export, once complete this includes a link to download it.
+ * Exports can only be retrieved by the user which started them.
+ */
+exports.getExport = async (appId, tableId, jobId, userId) => {
+  const job = await getQueue().getJob(jobId)
+  // jobs can only be retrieved from the app and table they were exported from
+  if (
+    !job ||
+    job.data.appId !== appId ||
+    job.data.tableId !== tableId ||
+    job.data.userId !== userId
+  ) {
+    return null
+  }
+  const status = await job.getState()
+  const response = { jobId: `${job.id}`, status }
+  if (status === "failed") {
+    response.error = job.failedReason
+  } else if (status === "completed" && job.returnvalue) {
+    response.url = ObjectStore(ObjectStoreBuckets.EXPORTS).getSignedUrl(
+      "getObject",
+      {
+        Key: job.returnvalue.key,
+        Expires: DOWNLOAD_LINK_EXPIRY_SECONDS,
+        ResponseContentDisposition: `attachment; filename="export.${job.data.format}"`,
+      }
+    )
+  }
+  return response
+}
@@ -10,22 +10,30 @@ const {
 } = require("../../../integrations/utils")
 const ExternalRequest = require("./ExternalRequest")
 const { getAppDB } = require("@budibase/backend-core/context")
-const exporters = require("../view/exporters")
-const { apiFileReturn } = require("../../../utilities/fileSystem")
+const { convertBookmark } = require("../../../utilities")
+
+const EXPORT_PAGE_SIZE = 1000
+
+function removeEmptyFilters(filters) {
+  for (let filterField of NoEmptyFilterStrings) {
+    if (!filters[filterField]) {
+      continue
+    }
+    for (let [key, value] of Object.entries(filters[filterField])) {
+      if (!value || value === "") {
+        delete filters[filterField][key]
+      }
+    }
+  }
+  if (Array.isArray(filters.groups)) {
+    filters.groups.forEach(group => removeEmptyFilters(group))
+  }
+}
 
 async function handleRequest(operation, tableId, opts = {}) {
   // make sure the filters are cleaned up, no empty strings for equals, fuzzy or string
   if (opts && opts.filters) {
-    for (let filterField of NoEmptyFilterStrings) {
-      if (!opts.filters[filterField]) {
-        continue
-      }
-      for (let [key, value] of Object.entries(opts.filters[filterField])) {
-        if (!value || value === "") {
-          delete opts.filters[filterField][key]
-        }
-      }
-    }
+    removeEmptyFilters(opts.filters)
   }
   return new ExternalRequest(operation, tableId, opts.datasource).run(opts)
 }
@@ -41,6 +49,7 @@ exports.patch = async ctx => {
   return handleRequest(DataSourceOperation.UPDATE, tableId, {
     id: breakRowIdField(id),
     row: inputs,
+    user: ctx.user,
   })
 }
 
@@ -49,6 +58,7 @@ exports.save = async ctx => {
   const tableId = ctx.params.tableId
   return handleRequest(DataSourceOperation.CREATE, tableId, {
     row: inputs,
+    user: ctx.user,
   })
 }
 
@@ -62,7 +72,9 @@ exports.fetchView = async ctx => {
 
 exports.fetch = async ctx => {
   const tableId = ctx.params.tableId
-  return handleRequest(DataSourceOperation.READ, tableId)
+  return handleRequest(DataSourceOperation.READ, tableId, {
+    user: ctx.user,
+  })
 }
 
 exports.find = async ctx => {
@@ -70,6 +82,7 @@ exports.find = async ctx => {
   const tableId = ctx.params.tableId
   const response = await handleRequest(DataSourceOperation.READ, tableId, {
     id: breakRowIdField(id),
+    user: ctx.user,
   })
   return response ? response[0] : response
 }
@@ -79,30 +92,42 @@ exports.destroy = async ctx => {
   const id = ctx.request.body._id
   const { row } = await handleRequest(DataSourceOperation.DELETE, tableId, {
     id: breakRowIdField(id),
+    user: ctx.user,
   })
   return { response: { ok: true }, row }
 }
 
+exports.bulkPatch = async ctx => {
+  const { rows } = ctx.request.body
+  const tableId = ctx.params.tableId
+  return handleRequest(DataSourceOperation.BULK_UPDATE, tableId, {
+    rows,
+    user: ctx.user,
+  })
+}
+
 exports.bulkDestroy = async ctx => {
   const { rows } = ctx.request.body
   const tableId = ctx.params.tableId
-  let promises = []
-  for (let row of rows) {
-    promises.push(
-      handleRequest(DataSourceOperation.DELETE, tableId, {
-        id: breakRowIdField(row._id),
-      })
-    )
-  }
-  const responses = await Promise.all(promises)
-  return { response: { ok: true }, rows: responses.map(resp => resp.row) }
+  const response = await handleRequest(
+    DataSourceOperation.BULK_DELETE,
+    tableId,
+    {
+      rows,
+      user: ctx.user,
+    }
+  )
+  return { response: { ok: true }, rows: response.rows }
 }
 
 exports.search = async ctx => {
   const tableId = ctx.params.tableId
-  const { paginate, query, ...params } = ctx.request.body
+  const { paginate, query, aggregation, ...params } = ctx.request.body
   let { bookmark, limit } = params
-  if (!bookmark && paginate) {
+  bookmark = convertBookmark(bookmark)
+  // keyset pagination is opt-in, rows with a null in a sort column can't be paged by keyset
+  const useKeyset = !!(paginate && limit && params.keyset)
+  if (!bookmark && paginate && !useKeyset) {
     bookmark = 1
   }
   let paginateObj = {}
@@ -128,10 +153,31 @@ exports.search = async ctx => {
       [params.sort]: direction,
     }
   }
+  // aggregated results are grouped rather than paginated
+  if (aggregation) {
+    const rows = await handleRequest(DataSourceOperation.READ, tableId, {
+      filters: query,
+      sort,
+      paginate: limit ? { limit } : undefined,
+      aggregation,
+      user: ctx.user,
+    })
+    return { rows }
+  }
+  if (useKeyset) {
+    return handleRequest(DataSourceOperation.READ, tableId, {
+      filters: query,
+      sort,
+      paginate: { limit },
+      keyset: { bookmark },
+      user: ctx.user,
+    })
+  }
   const rows = await handleRequest(DataSourceOperation.READ, tableId, {
     filters: query,
     sort,
     paginate: paginateObj,
+    user: ctx.user,
   })
   let hasNextPage = false
   if (paginate && rows.length === limit) {
@@ -142,6 +188,7 @@ exports.search = async ctx => {
         limit: 1,
         page: bookmark * limit + 1,
       },
+      user: ctx.user,
     })
     hasNextPage = nextRows.length > 0
   }
@@ -154,35 +201,49 @@ exports.validate = async () => {
   return { valid: true }
 }
 
-exports.exportRows = async ctx => {
-  const { datasourceId, tableName } = breakExternalTableId(ctx.params.tableId)
+/**
+ * Retrieves the rows of an export a page at a time, either the rows with the provided
+ * IDs or the rows which match the query. Keyset pagination is used so that pages deep
+ * into large tables are as quick to retrieve as the first.
+ */
+exports.exportPages = async function* (tableId, { rows, query, user }) {
+  const { datasourceId, tableName } = breakExternalTableId(tableId)
   const db = getAppDB()
-  let format = ctx.query.format
   const datasource = await db.get(datasourceId)
   if (!datasource || !datasource.entities) {
-    ctx.throw(400, "Datasource has not been configured for plus API.")
+    throw "Datasource has not been configured for plus API."
   }
-  const tables = datasource.entities
-  const table = tables[tableName]
-  ctx.request.body = {
-    query: {
-      oneOf: {
-        [table.primaryDisplay]: ctx.request.body.rows.map(
-          id => breakRowIdField(id)[0]
-        ),
-      },
-    },
+  const table = datasource.entities[tableName]
+  if (rows) {
+    const primary = table.primary || []
+    if (!primary.length) {
+      throw "Unable to export selected rows, the table has no primary key."
+    }
+    const ids = rows.map(id => breakRowIdField(id))
+    query =
+      primary.length === 1
+        ? { oneOf: { [primary[0]]: ids.map(id => id[0]) } }
+        : {
+            allOr: true,
+            groups: ids.map(id => ({
+              equal: Object.fromEntries(
+                primary.map((column, idx) => [column, id[idx]])
+              ),
+            })),
+          }
   }
-
-  let result = await exports.search(ctx)
-
-  let headers = Object.keys(result.rows[0])
-  const exporter = exporters[format]
-  const filename = `export.${format}`
-
-  // send down the file
-  ctx.attachment(filename)
-  return apiFileReturn(exporter(headers, result.rows))
+  let bookmark, hasNextPage
+  do {
+    const response = await handleRequest(DataSourceOperation.READ, tableId, {
+      filters: query || {},
+      paginate: { limit: EXPORT_PAGE_SIZE },
+      keyset: { bookmark },
+      user,
+    })
+    yield response.rows
+    bookmark = response.bookmark
+    hasNextPage = response.hasNextPage
+  } while (hasNextPage)
 }
 
 exports.fetchEnrichedRow = async ctx => {
@@ -198,6 +259,7 @@ exports.fetchEnrichedRow = async ctx => {
   const response = await handleRequest(DataSourceOperation.READ, tableId, {
     id,
     datasource,
+    user: ctx.user,
   })
   const table = tables[tableName]
   const row = response[0]
@@ -226,6 +288,7 @@ exports.fetchEnrichedRow = async ctx => {
             [linkedTable.primary]: linkedIds,
           },
         },
+        user: ctx.user,
       }
     )
   }
@@ -2,6 +2,8 @@ import { quotas } from "@budibase/pro"
 import internal from "./internal"
 import external from "./external"
 import { isExternalTable } from "../../../integrations/utils"
+const exporters = require("../view/exporters")
+const exportJob = require("./exportJob")
 
 function pickApi(tableId: any) {
   if (isExternalTable(tableId)) {
@@ -92,31 +94,53 @@ export async function find(ctx: any) {
   }
 }
 
-export async function destroy(ctx: any) {
+export async function bulkPatch(ctx: any) {
   const appId = ctx.appId
-  const inputs = ctx.request.body
   const tableId = getTableId(ctx)
-  let response, row
-  if (inputs.rows) {
-    let { rows } = await quotas.addQuery(() =>
-      pickApi(tableId).bulkDestroy(ctx)
+  try {
+    const { rows, table } = await quotas.addQuery(() =>
+      pickApi(tableId).bulkPatch(ctx)
     )
-    await quotas.removeRows(rows.length)
-    response = rows
+    ctx.status = 200
     for (let row of rows) {
-      ctx.eventEmitter && ctx.eventEmitter.emitRow(`row:delete`, appId, row)
+      ctx.eventEmitter &&
+        ctx.eventEmitter.emitRow(`row:update`, appId, row, table)
     }
-  } else {
-    let resp = await quotas.addQuery(() => pickApi(tableId).destroy(ctx))
-    await quotas.removeRow()
-    response = resp.response
-    row = resp.row
+    ctx.message = `${table.name} updated successfully.`
+    ctx.body = rows
+  } catch (err) {
+    ctx.throw(400, err)
+  }
+}
+
+async function bulkDestroy(ctx: any) {
+  const appId = ctx.appId
+  const tableId = getTableId(ctx)
+  let { rows } = await quotas.addQuery(() => pickApi(tableId).bulkDestroy(ctx))
+  await quotas.removeRows(rows.length)
+  for (let row of rows) {
     ctx.eventEmitter && ctx.eventEmitter.emitRow(`row:delete`, appId, row)
   }
   ctx.status = 200
+  ctx.row = {}
+  ctx.body = rows
+}
+
+export async function destroy(ctx: any) {
+  const appId = ctx.appId
+  const inputs = ctx.request.body
+  const tableId = getTableId(ctx)
+  if (inputs.rows) {
+    return bulkDestroy(ctx)
+  }
+  let resp = await quotas.addQuery(() => pickApi(tableId).destroy(ctx))
+  await quotas.removeRow()
+  const row = resp.row
+  ctx.eventEmitter && ctx.eventEmitter.emitRow(`row:delete`, appId, row)
+  ctx.status = 200
   // for automations include the row that was deleted
   ctx.row = row || {}
-  ctx.body = response
+  ctx.body = resp.response
 }
 
 export async function search(ctx: any) {
@@ -151,9 +175,60 @@ export async function fetchEnrichedRow(ctx: any) {
 
 export const exportRows = async (ctx: any) => {
   const tableId = getTableId(ctx)
+  const { rows, columns, query } = ctx.request.body
+  const format = ctx.query.format
   try {
-    ctx.body = await quotas.addQuery(() => pickApi(tableId).exportRows(ctx))
+    const pages = pickApi(tableId).exportPages(tableId, {
+      rows,
+      query,
+      version: ctx.version,
+      user: ctx.user,
+    })
+    ctx.body = await quotas.addQuery(() =>
+      exporters.streamExport(format, pages, columns)
+    )
+    ctx.attachment(`export.${format}`)
   } catch (err) {
     ctx.throw(400, err)
   }
 }
+
+/**
+ * Large exports can take longer than a request, they are written to the object store
+ * in the background and can be downloaded once complete.
+ */
+export const exportRowsInBackground = async (ctx: any) => {
+  const tableId = getTableId(ctx)
+  const { rows, columns, query } = ctx.request.body
+  const format = ctx.query.format
+  if (!Object.values(exporters.ExportFormats).includes(format)) {
+    ctx.throw(400, "Invalid export format")
+  }
+  const jobId = await exportJob.queueExport({
+    appId: ctx.appId,
+    tableId,
+    format,
+    columns,
+    rows,
+    query,
+    version: ctx.version,
+    // the job data is stored in redis, so the user is retrieved again when exporting
+    userId: ctx.user._id,
+    roleId: ctx.user.roleId,
+  })
+  ctx.body = { jobId }
+}
+
+export const fetchExport = async (ctx: any) => {
+  const tableId = getTableId(ctx)
+  const response = await exportJob.getExport(
+    ctx.appId,
+    tableId,
+    ctx.params.jobId,
+    ctx.user._id
+  )
+  if (!response) {
+    ctx.throw(404, "Export not found")
+  }
+  ctx.body = response
+}
@@ -28,8 +28,14 @@ const {
 const { cloneDeep } = require("lodash/fp")
 const { getAppDB } = require("@budibase/backend-core/context")
 const { finaliseRow, updateRelatedFormula } = require("./staticFormula")
-const exporters = require("../view/exporters")
-const { apiFileReturn } = require("../../../utilities/fileSystem")
+const {
+  getRowSecurityFilters,
+  mergeRowSecurityFilters,
+  filterRowsForUser,
+} = require("./rowSecurity")
+
+// the most rows a lucene search can return at once
+const EXPORT_PAGE_SIZE = 200
 
 const CALCULATION_TYPES = {
   SUM: "sum",
@@ -103,6 +109,13 @@ exports.patch = async ctx => {
     }
   }
   let dbTable = await db.get(tableId)
+  // rows the user can't read can't be updated either
+  if (
+    !isUserTable &&
+    filterRowsForUser(dbTable, [oldRow], ctx.user).length === 0
+  ) {
+    throw "Row does not exist"
+  }
   // need to build up full patch fields before coerce
   let combinedRow = cloneDeep(oldRow)
   for (let key of Object.keys(inputs)) {
@@ -199,7 +212,9 @@ exports.fetchView = async ctx => {
     })
   } else {
     const tableId = viewInfo.meta.tableId
-    const data = await getRawTableData(ctx, db, tableId)
+    let data = await getRawTableData(ctx, db, tableId)
+    // calculations must only be made from the rows the user can read
+    data = filterRowsForUser(await db.get(tableId), data, ctx.user)
     response = await inMemoryViews.runView(viewInfo, calculation, group, data)
   }
 
@@ -215,6 +230,7 @@ exports.fetchView = async ctx => {
         schema: {},
       }
     }
+    response.rows = filterRowsForUser(table, response.rows, ctx.user)
     rows = await outputProcessing(table, response.rows)
   }
 
@@ -247,6 +263,7 @@ exports.fetch = async ctx => {
   const tableId = ctx.params.tableId
   let table = await db.get(tableId)
   let rows = await getRawTableData(ctx, db, tableId)
+  rows = filterRowsForUser(table, rows, ctx.user)
   return outputProcessing(table, rows)
 }
 
@@ -254,6 +271,9 @@ exports.find = async ctx => {
   const db = dangerousGetDB(ctx.appId)
   const table = await db.get(ctx.params.tableId)
   let row = await findRow(ctx, ctx.params.tableId, ctx.params.rowId)
+  if (filterRowsForUser(table, [row], ctx.user).length === 0) {
+    throw "Row not found"
+  }
   row = await outputProcessing(table, row)
   return row
 }
@@ -268,6 +288,9 @@ exports.destroy = async function (ctx) {
     throw "Supplied tableId doesn't match the row's tableId"
   }
   const table = await db.get(row.tableId)
+  if (filterRowsForUser(table, [row], ctx.user).length === 0) {
+    throw "Row not found"
+  }
   // update the row to include full relationships before deleting them
   row = await outputProcessing(table, row, { squash: false })
   // now remove the relationships
@@ -294,11 +317,30 @@ exports.destroy = async function (ctx) {
   return { response, row }
 }
 
+exports.bulkPatch = async () => {
+  // there are no transactions in CouchDB, rows can't be updated atomically
+  throw "Bulk updates are only supported for external tables"
+}
+
 exports.bulkDestroy = async ctx => {
   const db = getAppDB()
   const tableId = ctx.params.tableId
   const table = await db.get(tableId)
   let { rows } = ctx.request.body
+  // the stored rows are checked, rows the user can't read can't be deleted
+  if (getRowSecurityFilters(table, ctx.user)) {
+    const stored = (
+      await db.allDocs({
+        keys: rows.map(row => row._id),
+        include_docs: true,
+      })
+    ).rows
+      .map(row => row.doc)
+      .filter(doc => doc && doc.tableId === tableId)
+    if (filterRowsForUser(table, stored, ctx.user).length !== rows.length) {
+      throw "Rows not found"
+    }
+  }
 
   // before carrying out any updates, make sure the rows are ready to be returned
   // they need to be the full rows (including previous relationships) for automations
@@ -339,10 +381,15 @@ exports.search = async ctx => {
 
   const { tableId } = ctx.params
   const db = getAppDB()
-  const { paginate, query, ...params } = ctx.request.body
+  let { paginate, query, aggregation, ...params } = ctx.request.body
+  if (aggregation) {
+    throw "Aggregations are only supported for external tables"
+  }
   params.version = ctx.version
   params.tableId = tableId
 
+  const table = await db.get(tableId)
+  query = mergeRowSecurityFilters(query, getRowSecurityFilters(table, ctx.user))
   let response
   if (paginate) {
     response = await paginatedSearch(query, params)
@@ -356,7 +403,6 @@ exports.search = async ctx => {
     if (tableId === InternalTables.USER_METADATA) {
       response.rows = await getGlobalUsersFromMetadata(response.rows)
     }
-    const table = await db.get(tableId)
     response.rows = await outputProcessing(table, response.rows)
   }
 
@@ -370,27 +416,51 @@ exports.validate = async ctx => {
   })
 }
 
-exports.exportRows = async ctx => {
+/**
+ * Retrieves the rows of an export a page at a time, either the rows with the provided
+ * IDs or the rows which match the query.
+ */
+exports.exportPages = async function* (
+  tableId,
+  { rows, query, version, user }
+) {
   const db = getAppDB()
-  const table = await db.get(ctx.params.tableId)
-  const rowIds = ctx.request.body.rows
-  let format = ctx.query.format
-  let response = (
-    await db.allDocs({
-      include_docs: true,
-      keys: rowIds,
+  const table = await db.get(tableId)
+  const processRows = async rows => {
+    if (tableId === InternalTables.USER_METADATA) {
+      rows = await getGlobalUsersFromMetadata(rows)
+    }
+    return outputProcessing(table, rows)
+  }
+  if (rows) {
+    for (let i = 0; i < rows.length; i += EXPORT_PAGE_SIZE) {
+      let page = (
+        await db.allDocs({
+          include_docs: true,
+          keys: rows.slice(i, i + EXPORT_PAGE_SIZE),
+        })
+      ).rows
+        .map(row => row.doc)
+        // the IDs are provided by the caller, only export rows of this table
+        .filter(doc => doc && doc.tableId === tableId)
+      page = filterRowsForUser(table, page, user)
+      yield await processRows(page)
+    }
+    return
+  }
+  query = mergeRowSecurityFilters(query, getRowSecurityFilters(table, user))
+  let bookmark, hasNextPage
+  do {
+    const response = await paginatedSearch(query, {
+      tableId,
+      version,
+      bookmark,
+      limit: EXPORT_PAGE_SIZE,
     })
-  ).rows.map(row => row.doc)
-
-  let rows = await outputProcessing(table, response)
-
-  let headers = Object.keys(rows[0])
-  const exporter = exporters[format]
-  const filename = `export.${format}`
-
-  // send down the file
-  ctx.attachment(filename)
-  return apiFileReturn(exporter(headers, rows))
+    yield await processRows(response.rows)
+    bookmark = response.bookmark
+    hasNextPage = response.hasNextPage
+  } while (hasNextPage)
 }
 
 exports.fetchEnrichedRow = async ctx => {
@@ -402,6 +472,9 @@ exports.fetchEnrichedRow = async ctx => {
     db.get(tableId),
     findRow(ctx, tableId, rowId),
   ])
+  if (filterRowsForUser(table, [row], ctx.user).length === 0) {
+    throw "Row not found"
+  }
   // get the link docs
   const linkVals = await linkRows.getLinkDocuments({
     tableId,
@@ -429,8 +502,14 @@ exports.fetchEnrichedRow = async ctx => {
       groups[linkedTableId].push(row)
     }
   }
-  let linkedRows = []
+  let linkedRows = [],
+    hiddenIds = []
   for (let [tableId, rows] of Object.entries(groups)) {
+    // linked rows the user can't read are removed once placed in the row
+    const readable = filterRowsForUser(tables[tableId], rows, ctx.user)
+    hiddenIds = hiddenIds.concat(
+      rows.filter(row => !readable.includes(row)).map(row => row._id)
+    )
     // need to include the IDs in these rows for any links they may have
     linkedRows = linkedRows.concat(
       await outputProcessing(tables[tableId], rows)
@@ -446,8 +525,9 @@ exports.fetchEnrichedRow = async ctx => {
         .filter(link => link.fieldName === fieldName)
         .map(link => linkVals.indexOf(link))
       // find the rows that the links state are linked to this field
-      row[fieldName] = linkedRows.filter((linkRow, index) =>
-        linkIndexes.includes(index)
+      row[fieldName] = linkedRows.filter(
+        (linkRow, index) =>
+          linkIndexes.includes(index) && !hiddenIds.includes(linkRow._id)
       )
     }
   }
@@ -138,10 +138,16 @@ class QueryBuilder {
     return value
   }
 
-  buildSearchQuery() {
+  /**
+   * Builds the list of lucene expressions for a set of filters, nested filter groups
+   * are built recursively and wrapped in brackets.
+   * @param filters The filter structure to build expressions for
+   * @returns {string[]}
+   */
+  buildExpressions(filters) {
     const builder = this
-    let query = "*:*"
     const allPreProcessingOpts = { escape: true, lowercase: true, wrap: true }
+    const expressions = []
 
     function build(structure, queryFn) {
       for (let [key, value] of Object.entries(structure)) {
@@ -152,13 +158,13 @@ class QueryBuilder {
         if (expression == null) {
           continue
         }
-        query += ` AND ${expression}`
+        expressions.push(expression)
       }
     }
 
     // Construct the actual lucene search query string from JSON structure
-    if (this.query.string) {
-      build(this.query.string, (key, value) => {
+    if (filters.string) {
+      build(filters.string, (key, value) => {
         if (!value) {
           return null
         }
@@ -169,8 +175,8 @@ class QueryBuilder {
         return `${key}:${value}*`
       })
     }
-    if (this.query.range) {
-      build(this.query.range, (key, value) => {
+    if (filters.range) {
+      build(filters.range, (key, value) => {
         if (!value) {
           return null
         }
@@ -185,8 +191,8 @@ class QueryBuilder {
         return `${key}:[${low} TO ${high}]`
       })
     }
-    if (this.query.fuzzy) {
-      build(this.query.fuzzy, (key, value) => {
+    if (filters.fuzzy) {
+      build(filters.fuzzy, (key, value) => {
         if (!value) {
           return null
         }
@@ -197,8 +203,8 @@ class QueryBuilder {
         return `${key}:${value}~`
       })
     }
-    if (this.query.equal) {
-      build(this.query.equal, (key, value) => {
+    if (filters.equal) {
+      build(filters.equal, (key, value) => {
         // 0 evaluates to false, which means we would return all rows if we don't check it
         if (!value && value !== 0) {
           return null
@@ -206,21 +212,50 @@ class QueryBuilder {
         return `${key}:${builder.preprocess(value, allPreProcessingOpts)}`
       })
     }
-    if (this.query.notEqual) {
-      build(this.query.notEqual, (key, value) => {
+    if (filters.notEqual) {
+      build(filters.notEqual, (key, value) => {
         if (!value) {
           return null
         }
         return `!${key}:${builder.preprocess(value, allPreProcessingOpts)}`
       })
     }
-    if (this.query.empty) {
-      build(this.query.empty, key => `!${key}:["" TO *]`)
+    if (filters.empty) {
+      build(filters.empty, key => `!${key}:["" TO *]`)
+    }
+    if (filters.notEmpty) {
+      build(filters.notEmpty, key => `${key}:["" TO *]`)
+    }
+    if (Array.isArray(filters.groups)) {
+      for (let group of filters.groups) {
+        const expression = this.buildGroupQuery(group)
+        if (expression) {
+          expressions.push(expression)
+        }
+      }
     }
-    if (this.query.notEmpty) {
-      build(this.query.notEmpty, key => `${key}:["" TO *]`)
+    return expressions
+  }
+
+  /**
+   * Builds a nested filter group, the expressions within the group are joined with
+   * OR if the group has allOr set, otherwise AND.
+   * @param group The filter group
+   * @returns {string|null}
+   */
+  buildGroupQuery(group) {
+    const expressions = this.buildExpressions(group).map(expression =>
+      // lucene can't match a purely negative clause, it needs something to exclude from
+      expression.startsWith("!") ? `(*:* AND ${expression})` : expression
+    )
+    if (expressions.length === 0) {
+      return null
     }
-    return query
+    return `(${expressions.join(group.allOr ? " OR " : " AND ")})`
+  }
+
+  buildSearchQuery() {
+    return ["*:*", ...this.buildExpressions(this.query)].join(" AND ")
   }
 
   buildSearchBody() {
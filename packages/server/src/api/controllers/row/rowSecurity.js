@@ -0,0 +1,179 @@
+const { cloneDeep, get } = require("lodash/fp")
+
+// only attributes of the user can be bound into rules, e.g. "{{ user.email }}"
+const USER_BINDING_REGEX = /{{\s*user\.([\w.]+)\s*}}/g
+
+/**
+ * Used in place of a user when rows are accessed by the system rather than on behalf of
+ * a user, e.g. imports and change capture, these can access all rows.
+ */
+const SYSTEM_USER = Object.freeze({})
+
+exports.SYSTEM_USER = SYSTEM_USER
+
+function getTableRules(table) {
+  const rules = table && table.rowSecurity
+  return Array.isArray(rules) ? rules : []
+}
+
+/**
+ * Finds the row security rules of a table which apply to the user, builders can
+ * access all rows in the same way they can access all other resources.
+ */
+function getApplicableRules(table, user) {
+  const rules = getTableRules(table)
+  if (rules.length === 0 || user === SYSTEM_USER) {
+    return []
+  }
+  if (user.builder && user.builder.global) {
+    return []
+  }
+  return rules.filter(
+    rule =>
+      !Array.isArray(rule.roles) ||
+      rule.roles.length === 0 ||
+      rule.roles.includes(user.roleId)
+  )
+}
+
+/**
+ * Binds any user attributes into the filters of a rule, if a binding has no value
+ * the rule can't be matched by any row (e.g. the user has no email).
+ * @returns {object|null} The bound filters, or null if the rule can't be matched.
+ */
+function buildRuleFilters(rule, user) {
+  const filters = cloneDeep(rule.filters || {})
+  if (rule.column && rule.userAttribute) {
+    filters.equal = {
+      ...filters.equal,
+      [rule.column]: `{{ user.${rule.userAttribute} }}`,
+    }
+  }
+  let missing = false
+  function bind(structure) {
+    for (let [key, value] of Object.entries(structure)) {
+      if (value && typeof value === "object") {
+        bind(value)
+      } else if (typeof value === "string" && value.includes("{{")) {
+        structure[key] = value.replace(USER_BINDING_REGEX, (match, path) => {
+          const attribute = get(path, user)
+          missing = missing || attribute == null || attribute === ""
+          return attribute == null ? "" : attribute
+        })
+      }
+    }
+  }
+  bind(filters)
+  return missing ? null : filters
+}
+
+// every row has its primary key (or table ID for internal tables), so this matches nothing
+function denyAllFilters(table) {
+  const key = table.primary && table.primary[0] ? table.primary[0] : "tableId"
+  return { empty: { [key]: true } }
+}
+
+/**
+ * Builds the filters which restrict the rows of a table that a user can read, a row can
+ * be read if it matches any of the rules which apply to the user. If the table has rules
+ * and no user is provided no rows can be read, SYSTEM_USER must be used to read all rows.
+ * @param table The table which is being read.
+ * @param user The user reading the table, from the request context.
+ * @returns {object|undefined} The security filters, undefined if all rows can be read.
+ */
+exports.getRowSecurityFilters = (table, user) => {
+  if (getTableRules(table).length !== 0 && !user) {
+    return denyAllFilters(table)
+  }
+  const rules = getApplicableRules(table, user)
+  if (rules.length === 0) {
+    return undefined
+  }
+  const groups = rules
+    .map(rule => buildRuleFilters(rule, user))
+    .filter(filters => filters != null)
+  if (groups.length === 0) {
+    return denyAllFilters(table)
+  }
+  return { allOr: true, groups }
+}
+
+/**
+ * Combines the filters of a search with the row security filters, the search filters
+ * are kept in their own group so that any allOr they use doesn't affect the rules.
+ */
+exports.mergeRowSecurityFilters = (filters, securityFilters) => {
+  if (!securityFilters) {
+    return filters
+  }
+  return {
+    groups: [filters || {}, securityFilters],
+  }
+}
+
+function normalise(value) {
+  return typeof value === "string" ? value.toLowerCase() : value
+}
+
+function isEmpty(value) {
+  return (
+    value == null || value === "" || (Array.isArray(value) && !value.length)
+  )
+}
+
+function matchesFilters(row, filters) {
+  const results = []
+  function test(structure, fn) {
+    for (let [key, expected] of Object.entries(structure || {})) {
+      results.push(fn(row[key], expected))
+    }
+  }
+  test(filters.string, (value, expected) =>
+    String(normalise(value)).startsWith(normalise(expected))
+  )
+  test(filters.fuzzy, (value, expected) =>
+    String(normalise(value)).includes(normalise(expected))
+  )
+  test(filters.range, (value, { low, high }) => {
+    if (isEmpty(value)) {
+      return false
+    }
+    return (isEmpty(low) || value >= low) && (isEmpty(high) || value <= high)
+  })
+  test(
+    filters.equal,
+    (value, expected) => normalise(value) == normalise(expected)
+  )
+  test(
+    filters.notEqual,
+    (value, expected) => normalise(value) != normalise(expected)
+  )
+  test(filters.empty, value => isEmpty(value))
+  test(filters.notEmpty, value => !isEmpty(value))
+  test(filters.oneOf, (value, expected) =>
+    (Array.isArray(expected) ? expected : [expected])
+      .map(normalise)
+      .includes(normalise(value))
+  )
+  for (let group of filters.groups || []) {
+    results.push(matchesFilters(row, group))
+  }
+  if (results.length === 0) {
+    return true
+  }
+  return filters.allOr
+    ? results.some(result => result)
+    : results.every(result => result)
+}
+
+/**
+ * Removes any rows which the user can't read, this is used when rows are retrieved
+ * directly rather than through a search.
+ */
+exports.filterRowsForUser = (table, rows, user) => {
+  const securityFilters = exports.getRowSecurityFilters(table, user)
+  if (!securityFilters) {
+    return rows
+  }
+  return rows.filter(row => matchesFilters(row, securityFilters))
+}
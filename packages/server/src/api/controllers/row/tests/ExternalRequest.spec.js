@@ -0,0 +1,212 @@
+jest.mock("../utils", () => ({
+  getDatasourceAndQuery: jest.fn(),
+}))
+const { getDatasourceAndQuery } = require("../utils")
+const ExternalRequest = require("../ExternalRequest")
+const { SYSTEM_USER } = require("../rowSecurity")
+
+const DATASOURCE_ID = "datasource_plus_test"
+const TASKS_ID = `${DATASOURCE_ID}__tasks`
+const PROJECTS_ID = `${DATASOURCE_ID}__projects`
+const TAGS_ID = `${DATASOURCE_ID}__tags`
+const TASK_TAGS_ID = `${DATASOURCE_ID}__task_tags`
+const user = { email: "test@test.com", roleId: "BASIC" }
+
+function datasource() {
+  return {
+    _id: DATASOURCE_ID,
+    source: "POSTGRES",
+    entities: {
+      tasks: {
+        _id: TASKS_ID,
+        name: "tasks",
+        primary: ["id"],
+        schema: {
+          id: { type: "number" },
+          owner: { type: "string" },
+          project: {
+            type: "link",
+            tableId: PROJECTS_ID,
+            relationshipType: "one-to-many",
+            foreignKey: "projectId",
+            fieldName: "id",
+          },
+          projectId: { type: "number" },
+        },
+        rowSecurity: [{ column: "owner", userAttribute: "email" }],
+      },
+      projects: {
+        _id: PROJECTS_ID,
+        name: "projects",
+        primary: ["id"],
+        schema: {
+          id: { type: "number" },
+          owner: { type: "string" },
+        },
+        rowSecurity: [{ column: "owner", userAttribute: "email" }],
+      },
+    },
+  }
+}
+
+function run(operation, config, source = datasource()) {
+  return new ExternalRequest(operation, TASKS_ID, source).run(config)
+}
+
+// the database only returns the rows which match the security rule
+function respondToReads(rows) {
+  getDatasourceAndQuery.mockImplementation(async json => {
+    if (json.endpoint.operation !== "READ") {
+      return [{ [json.endpoint.operation.toLowerCase()]: true }]
+    }
+    const filter = JSON.stringify(json.filters)
+    const readable = rows.filter(
+      row => !filter.includes("test@test.com") || row.owner === "test@test.com"
+    )
+    return readable.length ? readable : [{ read: true }]
+  })
+}
+
+function queriesFor(operation) {
+  return getDatasourceAndQuery.mock.calls
+    .map(([json]) => json)
+    .filter(json => json.endpoint.operation === operation)
+}
+
+describe("ExternalRequest row security", () => {
+  beforeEach(() => {
+    getDatasourceAndQuery.mockReset()
+  })
+
+  it("should not read any rows of a secured table without a user", async () => {
+    respondToReads([])
+    await run("READ", {})
+    expect(queriesFor("READ")[0].filters).toEqual({
+      groups: [{}, { empty: { id: true } }],
+    })
+  })
+
+  it("should read all rows with the system user", async () => {
+    respondToReads([])
+    await run("READ", { user: SYSTEM_USER })
+    expect(queriesFor("READ")[0].filters).toEqual({})
+  })
+
+  it("should not update a row which the user can't read", async () => {
+    respondToReads([{ id: 1, owner: "other@test.com" }])
+    await expect(
+      run("UPDATE", { id: [1], row: { owner: "test@test.com" }, user })
+    ).rejects.toEqual("Row not found")
+    expect(queriesFor("UPDATE")).toEqual([])
+  })
+
+  it("should restrict the write to the rows the user can read", async () => {
+    respondToReads([{ id: 1, owner: "test@test.com" }])
+    await run("DELETE", { id: [1], user })
+    const [deletion] = queriesFor("DELETE")
+    expect(deletion.filters).toEqual({
+      groups: [
+        { equal: { id: 1 } },
+        { allOr: true, groups: [{ equal: { owner: "test@test.com" } }] },
+      ],
+    })
+  })
+
+  it("should not bulk delete rows which the user can't read", async () => {
+    respondToReads([
+      { id: 1, owner: "test@test.com" },
+      { id: 2, owner: "other@test.com" },
+    ])
+    const rows = [{ _id: "%5B1%5D" }, { _id: "%5B2%5D" }]
+    await expect(run("BULK_DELETE", { rows, user })).rejects.toEqual(
+      "Rows not found"
+    )
+    expect(queriesFor("BULK_DELETE")).toEqual([])
+  })
+
+  it("should restrict a bulk update to the rows the user can read and re-read them by their new key", async () => {
+    respondToReads([{ id: 1, owner: "test@test.com" }])
+    await run("BULK_UPDATE", {
+      rows: [{ _id: "%5B1%5D", id: 5, owner: "test@test.com" }],
+      user,
+    })
+    const security = {
+      allOr: true,
+      groups: [{ equal: { owner: "test@test.com" } }],
+    }
+    const [update] = queriesFor("BULK_UPDATE")
+    expect(update.body).toEqual([{ id: 5, owner: "test@test.com" }])
+    expect(update.extra.rowFilters).toEqual([
+      { groups: [{ equal: { id: 1 } }, security] },
+    ])
+    const reads = queriesFor("READ")
+    expect(reads[reads.length - 1].filters).toEqual({
+      groups: [{ oneOf: { id: [5] } }, security],
+    })
+  })
+
+  it("should remove the relationships of bulk deleted rows within the deletion", async () => {
+    const source = datasource()
+    source.entities.tasks.schema.tags = {
+      type: "link",
+      tableId: TAGS_ID,
+      relationshipType: "many-to-many",
+      through: TASK_TAGS_ID,
+      throughFrom: "tagId",
+      throughTo: "taskId",
+      fieldName: "id",
+    }
+    source.entities.task_tags = {
+      _id: TASK_TAGS_ID,
+      name: "task_tags",
+      primary: ["id"],
+      schema: {
+        id: { type: "number" },
+        taskId: { type: "number" },
+        tagId: { type: "number" },
+      },
+    }
+    getDatasourceAndQuery.mockImplementation(async json => {
+      if (json.endpoint.operation !== "READ") {
+        return [{ [json.endpoint.operation.toLowerCase()]: true }]
+      }
+      return json.endpoint.entityId === "task_tags"
+        ? [{ id: 10, taskId: 1, tagId: 3 }]
+        : [{ id: 1, owner: "test@test.com" }]
+    })
+    const rows = [{ _id: "%5B1%5D" }]
+    await run("BULK_DELETE", { rows, user: SYSTEM_USER }, source)
+    const [deletion] = queriesFor("BULK_DELETE")
+    expect(deletion.extra.relatedWrites).toEqual([
+      {
+        endpoint: {
+          datasourceId: DATASOURCE_ID,
+          entityId: "task_tags",
+          operation: "DELETE",
+        },
+        body: null,
+        filters: { equal: { id: 10 } },
+      },
+    ])
+    // nothing is written outside of the transaction
+    expect(queriesFor("DELETE")).toEqual([])
+  })
+
+  it("should not include related rows which the user can't read", async () => {
+    getDatasourceAndQuery.mockResolvedValue([
+      {
+        "tasks.id": 1,
+        "tasks.owner": "test@test.com",
+        "tasks.projectId": 1,
+        "projects.id": 1,
+        "projects.owner": "other@test.com",
+      },
+    ])
+    const [row] = await run("READ", { user })
+    expect(row.project).toBeUndefined()
+    const [systemRow] = await run("READ", { user: SYSTEM_USER })
+    expect(systemRow.project).toEqual([
+      expect.objectContaining({ _id: "%5B1%5D" }),
+    ])
+  })
+})
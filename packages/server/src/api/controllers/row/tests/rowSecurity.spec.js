@@ -0,0 +1,87 @@
+const {
+  getRowSecurityFilters,
+  mergeRowSecurityFilters,
+  filterRowsForUser,
+  SYSTEM_USER,
+} = require("../rowSecurity")
+
+const user = { email: "test@test.com", roleId: "BASIC", department: "sales" }
+
+function table(rowSecurity) {
+  return { _id: "ta_test", name: "test", schema: {}, rowSecurity }
+}
+
+describe("Row security", () => {
+  const rows = [
+    { _id: "ro_1", tableId: "ta_test", owner: "test@test.com", department: "it" },
+    { _id: "ro_2", tableId: "ta_test", owner: "other@test.com", department: "sales" },
+    { _id: "ro_3", tableId: "ta_test", owner: "other@test.com", department: "it" },
+  ]
+
+  it("should not restrict tables without rules", () => {
+    expect(getRowSecurityFilters(table(), user)).toBeUndefined()
+    expect(filterRowsForUser(table(), rows, user)).toEqual(rows)
+  })
+
+  it("should bind the user into the rules and match any of them", () => {
+    const secured = table([
+      { column: "owner", userAttribute: "email" },
+      { filters: { equal: { department: "{{ user.department }}" } } },
+    ])
+    expect(getRowSecurityFilters(secured, user)).toEqual({
+      allOr: true,
+      groups: [
+        { equal: { owner: "test@test.com" } },
+        { equal: { department: "sales" } },
+      ],
+    })
+    expect(filterRowsForUser(secured, rows, user).map(row => row._id)).toEqual([
+      "ro_1",
+      "ro_2",
+    ])
+  })
+
+  it("should only apply rules for the roles of the user", () => {
+    const secured = table([
+      { roles: ["POWER"], column: "owner", userAttribute: "email" },
+    ])
+    expect(getRowSecurityFilters(secured, user)).toBeUndefined()
+    expect(
+      getRowSecurityFilters(secured, { ...user, roleId: "POWER" })
+    ).toBeDefined()
+  })
+
+  it("should not restrict builders", () => {
+    const secured = table([{ column: "owner", userAttribute: "email" }])
+    const builder = { ...user, builder: { global: true } }
+    expect(filterRowsForUser(secured, rows, builder)).toEqual(rows)
+  })
+
+  it("should not match any rows when the user is missing a bound attribute", () => {
+    const secured = table([{ column: "owner", userAttribute: "email" }])
+    const noEmail = { roleId: "BASIC" }
+    expect(getRowSecurityFilters(secured, noEmail)).toEqual({
+      empty: { tableId: true },
+    })
+    expect(filterRowsForUser(secured, rows, noEmail)).toEqual([])
+  })
+
+  it("should not match any rows without a user, unless it is the system", () => {
+    const secured = table([{ column: "owner", userAttribute: "email" }])
+    expect(getRowSecurityFilters(secured, undefined)).toEqual({
+      empty: { tableId: true },
+    })
+    expect(filterRowsForUser(secured, rows, undefined)).toEqual([])
+    expect(getRowSecurityFilters(secured, SYSTEM_USER)).toBeUndefined()
+    expect(filterRowsForUser(secured, rows, SYSTEM_USER)).toEqual(rows)
+  })
+
+  it("should keep the search filters in their own group", () => {
+    const query = { allOr: true, equal: { department: "it" } }
+    const security = { allOr: true, groups: [{ equal: { owner: "a" } }] }
+    expect(mergeRowSecurityFilters(query, security)).toEqual({
+      groups: [query, security],
+    })
+    expect(mergeRowSecurityFilters(query, undefined)).toBe(query)
+  })
+})
@@ -0,0 +1,35 @@
+jest.mock("../../../../integrations/base/utils", () => ({
+  makeExternalQuery: jest.fn(async () => [{ read: true }]),
+}))
+jest.mock("@budibase/backend-core/context", () => ({
+  getAppDB: () => ({ get: async _id => ({ _id }) }),
+}))
+jest.mock("../../../../threads/utils", () => ({
+  invalidateQueryCache: jest.fn(),
+}))
+const { invalidateQueryCache } = require("../../../../threads/utils")
+const { getDatasourceAndQuery } = require("../utils")
+
+describe("getDatasourceAndQuery", () => {
+  beforeEach(() => {
+    invalidateQueryCache.mockReset()
+  })
+
+  function query(operation) {
+    return getDatasourceAndQuery({
+      endpoint: { datasourceId: "datasource_plus_test", operation },
+    })
+  }
+
+  it("should invalidate the cached queries of the datasource after a write", async () => {
+    await query("UPDATE")
+    await query("BULK_DELETE")
+    expect(invalidateQueryCache).toHaveBeenCalledTimes(2)
+    expect(invalidateQueryCache).toHaveBeenCalledWith("datasource_plus_test")
+  })
+
+  it("should not invalidate the cached queries after a read", async () => {
+    await query("READ")
+    expect(invalidateQueryCache).not.toHaveBeenCalled()
+  })
+})
@@ -2,8 +2,9 @@ const validateJs = require("validate.js")
 const { cloneDeep } = require("lodash/fp")
 const { InternalTables } = require("../../../db/utils")
 const userController = require("../user")
-const { FieldTypes } = require("../../../constants")
+const { FieldTypes, DataSourceOperation } = require("../../../constants")
 const { makeExternalQuery } = require("../../../integrations/base/utils")
+const { invalidateQueryCache } = require("../../../threads/utils")
 const { getAppDB } = require("@budibase/backend-core/context")
 
 validateJs.extend(validateJs.validators.datetime, {
@@ -20,7 +21,12 @@ exports.getDatasourceAndQuery = async json => {
   const datasourceId = json.endpoint.datasourceId
   const db = getAppDB()
   const datasource = await db.get(datasourceId)
-  return makeExternalQuery(datasource, json)
+  const response = await makeExternalQuery(datasource, json)
+  // writing to the datasource may have changed the results of its cached queries
+  if (json.endpoint.operation !== DataSourceOperation.READ) {
+    await invalidateQueryCache(datasourceId)
+  }
+  return response
 }
 
 exports.findRow = async (ctx, tableId, rowId) => {
@@ -1,6 +1,7 @@
 const {
   buildExternalTableId,
   breakExternalTableId,
+  breakRowIdField,
 } = require("../../../integrations/utils")
 const {
   getTable,
@@ -18,8 +19,16 @@ const { makeExternalQuery } = require("../../../integrations/base/utils")
 const { cloneDeep } = require("lodash/fp")
 const csvParser = require("../../../utilities/csvParser")
 const { handleRequest } = require("../row/external")
+const { SYSTEM_USER } = require("../row/rowSecurity")
 const { getAppDB } = require("@budibase/backend-core/context")
 
+// the number of rows written by each query of an import
+const IMPORT_CHUNK_SIZE = 500
+// the largest chunk which can be requested, each chunk is matched against the table in one filter
+const MAX_IMPORT_CHUNK_SIZE = 1000
+// the number of existing rows retrieved by each query when matching a chunk
+const IMPORT_LOOKUP_PAGE_SIZE = 1000
+
 async function makeTableRequest(
   datasource,
   operation,
@@ -162,6 +171,31 @@ function isRelationshipSetup(column) {
   return column.foreignKey || column.through
 }
 
+/**
+ * Views can't be altered, only the Budibase specific settings can be changed - the
+ * pseudo primary key used to identify rows and the display column.
+ */
+async function saveReadonlyTable(ctx, datasource, table, oldTable) {
+  const columns = Object.keys(oldTable.schema)
+  const primary = table.primary || oldTable.primary
+  if (
+    !Array.isArray(primary) ||
+    primary.length === 0 ||
+    primary.find(key => !columns.includes(key))
+  ) {
+    ctx.throw(400, "The primary key must be made up of columns in the view.")
+  }
+  const tableToSave = {
+    ...oldTable,
+    primary,
+    primaryDisplay: table.primaryDisplay || oldTable.primaryDisplay,
+    rowSecurity: table.rowSecurity,
+  }
+  datasource.entities[tableToSave.name] = tableToSave
+  await getAppDB().put(datasource)
+  return tableToSave
+}
+
 exports.save = async function (ctx) {
   const table = ctx.request.body
   const { _rename: renamed } = table
@@ -189,6 +223,10 @@ exports.save = async function (ctx) {
 
   const db = getAppDB()
   const datasource = await db.get(datasourceId)
+
+  if (oldTable && oldTable.readonly) {
+    return saveReadonlyTable(ctx, datasource, tableToSave, oldTable)
+  }
   const oldTables = cloneDeep(datasource.entities)
   const tables = datasource.entities
 
@@ -301,18 +339,189 @@ exports.destroy = async function (ctx) {
   return tableToDelete
 }
 
+function importValue(value, type) {
+  switch (type) {
+    case FieldTypes.NUMBER: {
+      const number = Number(value)
+      return isNaN(number) ? `${value}` : `${number}`
+    }
+    case FieldTypes.BOOLEAN:
+      if ([true, 1, "true", "1"].includes(value)) {
+        return "true"
+      }
+      if ([false, 0, "false", "0"].includes(value)) {
+        return "false"
+      }
+      return `${value}`
+    case FieldTypes.DATETIME: {
+      const date = new Date(value)
+      return isNaN(date.getTime()) ? `${value}` : date.toISOString()
+    }
+    default:
+      return value instanceof Date ? value.toISOString() : `${value}`
+  }
+}
+
+/**
+ * The key an import row is matched to an existing row on, the values are normalised by
+ * the column type as the database may return them differently to how they were imported
+ * (e.g. 5.00 as 5 or a MySQL boolean as 1).
+ */
+function importKey(table, row, columns) {
+  const values = columns.map(column =>
+    importValue(row[column], table.schema[column]?.type)
+  )
+  return JSON.stringify(values)
+}
+
+/**
+ * Finds the rows which already exist in the table, by the columns the import is matched
+ * on, so that they can be updated rather than created.
+ */
+async function findExistingRows(table, matchOn, rows) {
+  const existing = {}
+  const keyed = rows.filter(({ row }) =>
+    matchOn.every(column => row[column] != null)
+  )
+  if (!matchOn.length || !keyed.length) {
+    return existing
+  }
+  const filters =
+    matchOn.length === 1
+      ? { oneOf: { [matchOn[0]]: keyed.map(({ row }) => row[matchOn[0]]) } }
+      : {
+          allOr: true,
+          groups: keyed.map(({ row }) => ({
+            equal: Object.fromEntries(
+              matchOn.map(column => [column, row[column]])
+            ),
+          })),
+        }
+  // several rows can share the values which are matched on, so page through all of them
+  let bookmark, hasNextPage
+  do {
+    const response = await handleRequest(DataSourceOperation.READ, table._id, {
+      filters,
+      paginate: { limit: IMPORT_LOOKUP_PAGE_SIZE },
+      keyset: { bookmark },
+      user: SYSTEM_USER,
+    })
+    for (let row of response.rows) {
+      existing[importKey(table, row, matchOn)] = row._id
+    }
+    bookmark = response.bookmark
+    hasNextPage = response.hasNextPage
+  } while (hasNextPage)
+  return existing
+}
+
+/**
+ * Writes a chunk of rows in a single request, if that fails the rows are written one at
+ * a time so that only the rows which can't be written are reported.
+ */
+async function writeRows(table, rows, { bulk, single }, report) {
+  if (!rows.length) {
+    return 0
+  }
+  try {
+    await handleRequest(bulk, table._id, {
+      rows: rows.map(({ row }) => row),
+      user: SYSTEM_USER,
+    })
+    return rows.length
+  } catch (err) {
+    let written = 0
+    for (let { index, row } of rows) {
+      try {
+        const { _id, ...values } = row
+        await handleRequest(single, table._id, {
+          id: _id ? breakRowIdField(_id) : undefined,
+          row: values,
+          user: SYSTEM_USER,
+        })
+        written++
+      } catch (err) {
+        report.errors.push({ row: index + 1, message: err.message || `${err}` })
+      }
+    }
+    return written
+  }
+}
+
+/**
+ * Imports CSV or JSON into the table, rows which match an existing row on the matchOn
+ * columns (the primary key by default) are updated. Rows are written in chunks and any
+ * rows which fail validation or can't be written are reported, rather than failing the
+ * whole import. A dry run reports what would be imported without writing anything.
+ */
 exports.bulkImport = async function (ctx) {
   const table = await getTable(ctx.params.tableId)
-  const { dataImport } = ctx.request.body
-  if (!dataImport || !dataImport.schema || !dataImport.csvString) {
+  const { dataImport, matchOn = table.primary || [], dryRun } = ctx.request.body
+  const requestedChunkSize = parseInt(ctx.request.body.chunkSize)
+  const chunkSize =
+    requestedChunkSize > 0
+      ? Math.min(requestedChunkSize, MAX_IMPORT_CHUNK_SIZE)
+      : IMPORT_CHUNK_SIZE
+  if (!dataImport || (!dataImport.csvString && !dataImport.jsonString)) {
     ctx.throw(400, "Provided data import information is invalid.")
   }
-  const rows = await csvParser.transform({
+  for (let column of matchOn) {
+    if (!table.schema[column]) {
+      ctx.throw(400, `Unable to match import on "${column}", not a column.`)
+    }
+  }
+  const parsed = await csvParser.parseRows({
     ...dataImport,
     existingTable: table,
   })
-  await handleRequest(DataSourceOperation.BULK_CREATE, table._id, {
-    rows,
+  const { rows, errors } = csvParser.validate({
+    rows: parsed,
+    existingTable: table,
   })
-  return table
+  const report = {
+    dryRun: !!dryRun,
+    total: parsed.length,
+    created: 0,
+    updated: 0,
+    errors: errors.map(({ index, message }) => ({ row: index + 1, message })),
+  }
+  for (let i = 0; i < rows.length; i += chunkSize) {
+    const chunk = rows.slice(i, i + chunkSize)
+    const existing = await findExistingRows(table, matchOn, chunk)
+    const creates = [],
+      updates = []
+    for (let { index, row } of chunk) {
+      const _id = matchOn.length && existing[importKey(table, row, matchOn)]
+      if (_id) {
+        updates.push({ index, row: { ...row, _id } })
+      } else {
+        creates.push({ index, row })
+      }
+    }
+    if (dryRun) {
+      report.created += creates.length
+      report.updated += updates.length
+      continue
+    }
+    report.created += await writeRows(
+      table,
+      creates,
+      {
+        bulk: DataSourceOperation.BULK_CREATE,
+        single: DataSourceOperation.CREATE,
+      },
+      report
+    )
+    report.updated += await writeRows(
+      table,
+      updates,
+      {
+        bulk: DataSourceOperation.BULK_UPDATE,
+        single: DataSourceOperation.UPDATE,
+      },
+      report
+    )
+  }
+  report.errors.sort((a, b) => a.row - b.row)
+  return report
 }
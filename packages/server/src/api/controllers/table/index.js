@@ -76,12 +76,17 @@ exports.destroy = async function (ctx) {
 
 exports.bulkImport = async function (ctx) {
   const tableId = ctx.params.tableId
-  await pickApi({ tableId }).bulkImport(ctx)
+  const report = await pickApi({ tableId }).bulkImport(ctx)
   // right now we don't trigger anything for bulk import because it
   // can only be done in the builder, but in the future we may need to
   // think about events for bulk items
   ctx.status = 200
-  ctx.body = { message: `Bulk rows created.` }
+  if (isExternalTable(tableId)) {
+    const message = report.dryRun ? "Import validated." : "Bulk rows imported."
+    ctx.body = { message, ...report }
+  } else {
+    ctx.body = { message: `Bulk rows created.` }
+  }
 }
 
 exports.validateCSVSchema = async function (ctx) {
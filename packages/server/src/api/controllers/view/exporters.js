@@ -1,17 +1,33 @@
+const { Readable } = require("stream")
+const xlsx = require("../../../utilities/xlsx")
+
+function csvRow(headers, row) {
+  return headers
+    .map(header => {
+      let val = row[header]
+      val =
+        typeof val === "object" && !(val instanceof Date)
+          ? `"${JSON.stringify(val).replace(/"/g, "'")}"`
+          : `"${val}"`
+      return val.trim()
+    })
+    .join(",")
+}
+
+function csvHeaders(headers) {
+  return headers.map(key => `"${key}"`).join(",")
+}
+
+// rows are indented in the same way as if the whole array had been stringified
+function jsonRow(row) {
+  return `  ${JSON.stringify(row, undefined, 2).replace(/\n/g, "\n  ")}`
+}
+
 exports.csv = function (headers, rows) {
-  let csv = headers.map(key => `"${key}"`).join(",")
+  let csv = csvHeaders(headers)
 
   for (let row of rows) {
-    csv = `${csv}\n${headers
-      .map(header => {
-        let val = row[header]
-        val =
-          typeof val === "object" && !(val instanceof Date)
-            ? `"${JSON.stringify(val).replace(/"/g, "'")}"`
-            : `"${val}"`
-        return val.trim()
-      })
-      .join(",")}`
+    csv = `${csv}\n${csvRow(headers, row)}`
   }
   return csv
 }
@@ -23,4 +39,86 @@ exports.json = function (headers, rows) {
 exports.ExportFormats = {
   CSV: "csv",
   JSON: "json",
+  NDJSON: "ndjson",
+  XLSX: "xlsx",
+}
+
+async function* textExport(format, headers, pages) {
+  let first = true
+  if (format === exports.ExportFormats.CSV) {
+    yield csvHeaders(headers)
+  } else if (format === exports.ExportFormats.JSON) {
+    yield "["
+  }
+  for await (let rows of pages) {
+    if (!rows.length) {
+      continue
+    }
+    switch (format) {
+      case exports.ExportFormats.CSV:
+        yield `\n${rows.map(row => csvRow(headers, row)).join("\n")}`
+        break
+      case exports.ExportFormats.NDJSON:
+        yield `${rows.map(row => JSON.stringify(row)).join("\n")}\n`
+        break
+      case exports.ExportFormats.JSON:
+        yield `${first ? "\n" : ",\n"}${rows.map(jsonRow).join(",\n")}`
+        break
+    }
+    first = false
+  }
+  if (format === exports.ExportFormats.JSON) {
+    yield first ? "]" : "\n]"
+  }
+}
+
+/**
+ * Streams an export of rows, the pages of rows are only retrieved as the export is
+ * read, so that large tables don't have to be held in memory.
+ * @param {string} format One of the export formats.
+ * @param {AsyncIterable<object[]>|object[][]} pages The rows to export, a page at a time.
+ * @param {string[]|undefined} columns The columns to export, if not provided the columns
+ * of the first row are used.
+ * @return {Promise<Readable>} The stream of the file, which can be used as the body of
+ * a response.
+ */
+exports.streamExport = async (format, pages, columns) => {
+  if (!Object.values(exports.ExportFormats).includes(format)) {
+    throw `Format must be one of ${Object.values(exports.ExportFormats).join(
+      ", "
+    )}`
+  }
+  // the first page is retrieved up front, so errors can still be returned as a response
+  const iterator = pages[Symbol.asyncIterator]
+    ? pages[Symbol.asyncIterator]()
+    : pages[Symbol.iterator]()
+  const first = await iterator.next()
+  const firstRows = first.done ? [] : first.value
+  const headers =
+    columns && columns.length ? columns : Object.keys(firstRows[0] || {})
+  const selectColumns = rows =>
+    columns && columns.length
+      ? rows.map(row =>
+          headers.reduce((selected, header) => {
+            selected[header] = row[header]
+            return selected
+          }, {})
+        )
+      : rows
+  const selectedPages = (async function* () {
+    yield selectColumns(firstRows)
+    if (first.done) {
+      return
+    }
+    let next = await iterator.next()
+    while (!next.done) {
+      yield selectColumns(next.value)
+      next = await iterator.next()
+    }
+  })()
+
+  if (format === exports.ExportFormats.XLSX) {
+    return Readable.from(xlsx.workbook(headers, selectedPages))
+  }
+  return Readable.from(textExport(format, headers, selectedPages))
 }
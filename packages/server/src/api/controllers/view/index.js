@@ -1,5 +1,4 @@
 const viewTemplate = require("./viewBuilder")
-const { apiFileReturn } = require("../../../utilities/fileSystem")
 const exporters = require("./exporters")
 const { saveView, getView, getViews, deleteView } = require("./utils")
 const { fetchView } = require("../row")
@@ -57,7 +56,12 @@ exports.exportView = async ctx => {
 
   const format = ctx.query.format
   if (!format || !Object.values(exporters.ExportFormats).includes(format)) {
-    ctx.throw(400, "Format must be specified, either csv or json")
+    ctx.throw(
+      400,
+      `Format must be specified, one of ${Object.values(
+        exporters.ExportFormats
+      ).join(", ")}`
+    )
   }
 
   if (view) {
@@ -111,9 +115,17 @@ exports.exportView = async ctx => {
 
   // Export part
   let headers = Object.keys(schema)
-  const exporter = exporters[format]
+  // JSON exports contain the whole row, only tabular formats are limited to the schema
+  const tabular = [
+    exporters.ExportFormats.CSV,
+    exporters.ExportFormats.XLSX,
+  ].includes(format)
   const filename = `${viewName}.${format}`
   // send down the file
   ctx.attachment(filename)
-  ctx.body = apiFileReturn(exporter(headers, rows))
+  ctx.body = await exporters.streamExport(
+    format,
+    [rows],
+    tabular ? headers : undefined
+  )
 }
@@ -0,0 +1,108 @@
+const zlib = require("zlib")
+const exporters = require("../exporters")
+
+const ROWS = [
+  { _id: "1", name: "one", count: 1, active: true },
+  { _id: "2", name: "two", count: 2, active: false },
+  { _id: "3", name: "three", count: 3, active: true },
+]
+
+async function* pages(rows = ROWS, size = 2) {
+  for (let i = 0; i < rows.length; i += size) {
+    yield rows.slice(i, i + size)
+  }
+}
+
+async function read(stream) {
+  const chunks = []
+  for await (let chunk of stream) {
+    chunks.push(Buffer.from(chunk))
+  }
+  return Buffer.concat(chunks)
+}
+
+async function exportRows(format, columns, rows) {
+  return read(await exporters.streamExport(format, pages(rows), columns))
+}
+
+// reads the files of a zip from its central directory
+function unzip(buffer) {
+  const files = {}
+  const end = buffer.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]))
+  let offset = buffer.readUInt32LE(end + 16)
+  for (let i = 0; i < buffer.readUInt16LE(end + 10); i++) {
+    const compressedSize = buffer.readUInt32LE(offset + 20)
+    const nameLength = buffer.readUInt16LE(offset + 28)
+    const localOffset = buffer.readUInt32LE(offset + 42)
+    const name = buffer.toString("utf8", offset + 46, offset + 46 + nameLength)
+    const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26)
+    files[name] = zlib
+      .inflateRawSync(buffer.slice(dataStart, dataStart + compressedSize))
+      .toString("utf8")
+    offset += 46 + nameLength
+  }
+  return files
+}
+
+describe("exporters", () => {
+  it("streams the same CSV as exporting all rows at once", async () => {
+    const headers = Object.keys(ROWS[0])
+    const csv = await exportRows(exporters.ExportFormats.CSV)
+    expect(csv.toString()).toEqual(exporters.csv(headers, ROWS))
+  })
+
+  it("streams the same JSON as exporting all rows at once", async () => {
+    const json = await exportRows(exporters.ExportFormats.JSON)
+    expect(json.toString()).toEqual(exporters.json([], ROWS))
+    const empty = await exportRows(exporters.ExportFormats.JSON, undefined, [])
+    expect(JSON.parse(empty.toString())).toEqual([])
+  })
+
+  it("streams NDJSON with the selected columns", async () => {
+    const ndjson = await exportRows(exporters.ExportFormats.NDJSON, [
+      "name",
+      "count",
+    ])
+    const rows = ndjson
+      .toString()
+      .trim()
+      .split("\n")
+      .map(line => JSON.parse(line))
+    expect(rows).toEqual([
+      { name: "one", count: 1 },
+      { name: "two", count: 2 },
+      { name: "three", count: 3 },
+    ])
+  })
+
+  it("streams XLSX workbooks", async () => {
+    const rows = [...ROWS, { _id: "4", name: "<four & more>", count: 4 }]
+    const xlsx = await exportRows(
+      exporters.ExportFormats.XLSX,
+      ["name", "count", "active"],
+      rows
+    )
+    const files = unzip(xlsx)
+    expect(Object.keys(files)).toEqual([
+      "[Content_Types].xml",
+      "_rels/.rels",
+      "xl/workbook.xml",
+      "xl/_rels/workbook.xml.rels",
+      "xl/worksheets/sheet1.xml",
+    ])
+    const sheet = files["xl/worksheets/sheet1.xml"]
+    expect(sheet.match(/<row /g).length).toBe(5)
+    expect(sheet).toContain(
+      '<c r="A1" t="inlineStr"><is><t xml:space="preserve">name</t></is></c>'
+    )
+    expect(sheet).toContain('<c r="B2"><v>1</v></c>')
+    expect(sheet).toContain('<c r="C3" t="b"><v>0</v></c>')
+    expect(sheet).toContain("&lt;four &amp; more&gt;")
+  })
+
+  it("rejects unknown formats", async () => {
+    await expect(exporters.streamExport("pdf", pages())).rejects.toContain(
+      "Format must be one of"
+    )
+  })
+})
@@ -38,6 +38,18 @@ router
     authorized(BUILDER),
     controller.find
   )
+  .get(
+    "/api/automations/:id/logs",
+    paramResource("id"),
+    authorized(BUILDER),
+    controller.logs
+  )
+  .post(
+    "/api/automations/:id/logs/:logId/replay",
+    paramResource("id"),
+    authorized(BUILDER),
+    controller.replayLog
+  )
   .put(
     "/api/automations",
     bodyResource("_id"),
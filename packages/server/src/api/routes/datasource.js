@@ -36,6 +36,11 @@ router
     authorized(BUILDER),
     datasourceController.buildSchemaFromDb
   )
+  .post(
+    "/api/datasources/:datasourceId/introspect",
+    authorized(BUILDER),
+    datasourceController.introspect
+  )
   .post(
     "/api/datasources",
     authorized(BUILDER),
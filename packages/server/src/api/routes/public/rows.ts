@@ -192,6 +192,23 @@ read.push(new Endpoint("get", "/tables/:tableId/rows/:rowId", controller.read))
  *                     type: object
  *                     description: Searches for rows which have a column value that is any
  *                       of the specified values. The format of this must be columnName -> [value1, value2].
+ *                   allOr:
+ *                     type: boolean
+ *                     description: By default all of the filters must match for a row to be returned,
+ *                       if this is set then only one of the filters needs to match.
+ *                   groups:
+ *                     type: array
+ *                     description: Nested groups of filters, each group has the same format as the
+ *                       query (including allOr and further groups) and is evaluated on its own before being
+ *                       combined with the rest of the query. This allows expressing queries such as
+ *                       "status = open AND (owner = me OR priority = high)".
+ *                     example:
+ *                       - allOr: true
+ *                         equal:
+ *                           columnName1: value
+ *                           columnName2: value
+ *                     items:
+ *                       type: object
  *               paginate:
  *                 type: boolean
  *                 description: Enables pagination, by default this is disabled.
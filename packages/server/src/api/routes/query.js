@@ -54,6 +54,12 @@ router
     authorized(PermissionTypes.QUERY, PermissionLevels.WRITE),
     queryController.executeV2
   )
+  .post(
+    "/api/queries/:queryId/cache/invalidate",
+    paramResource("queryId"),
+    authorized(PermissionTypes.QUERY, PermissionLevels.WRITE),
+    queryController.invalidateCache
+  )
   .delete(
     "/api/queries/:queryId/:revId",
     paramResource("queryId"),
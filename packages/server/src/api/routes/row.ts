@@ -85,18 +85,28 @@ router
    * defaults to false.
    * @apiParam (Body) {object} [query] This contains a set of filters which should be applied, if none
    * specified then the request will be unfiltered. An example with all of the possible query
-   * options has been supplied below.
+   * options has been supplied below. Filters can be nested using "groups", each group has the same
+   * structure as the query and can set "allOr" to require only one of its filters to match.
    * @apiParam (Body) {number} [limit] This sets a limit for the number of rows that will be returned,
    * this will be implemented at the database level if supported for performance reasons. This
    * is useful when paginating to set exactly how many rows per page.
    * @apiParam (Body) {string} [bookmark] If pagination is enabled then a bookmark will be returned
    * with each successful search request, this should be supplied back to get the next page.
+   * @apiParam (Body) {boolean} [keyset] For external (SQL) tables, when paginating the bookmark will
+   * be a cursor based on the sort column and primary key rather than a page number. Rows which have
+   * no value in the sort column are not returned after the first page.
    * @apiParam (Body) {object} [sort] If sort is desired this should contain the name of the column to
    * sort on.
    * @apiParam (Body) {string} [sortOrder] If sort is enabled then this can be either "descending" or
    * "ascending" as required.
    * @apiParam (Body) {string} [sortType] If sort is enabled then you must specify the type of search
    * being used, either "string" or "number". This is only used for internal tables.
+   * @apiParam (Body) {object} [aggregation] Only supported for external (SQL) tables, if provided the
+   * rows will be grouped and calculated by the database rather than returned as is. This should
+   * contain a list of "calculations", each with a "type" (count, sum, avg, min or max), the
+   * "field" to calculate (not required for count) and the "name" the result is returned under;
+   * and optionally a list of "groupBy" columns. Sorting can be applied to a group by column or
+   * a calculation name, pagination is not supported.
    *
    * @apiParamExample {json} Example:
    * {
@@ -118,7 +128,14 @@ router
    *    "notEmpty": {},
    *    "oneOf": {
    *      "columnName": ["value"]
-   *    }
+   *    },
+   *    "groups": [{
+   *      "allOr": true,
+   *      "equal": {
+   *        "columnName": "someValue",
+   *        "otherColumnName": "otherValue"
+   *      }
+   *    }]
    *  },
    *  "limit": 10,
    *  "sort": "name",
@@ -192,6 +209,28 @@ router
     authorized(PermissionTypes.TABLE, PermissionLevels.WRITE),
     rowController.patch
   )
+  /**
+   * @api {patch} /api/:tableId/rows/bulk Updates rows in bulk
+   * @apiName Update rows in bulk
+   * @apiGroup rows
+   * @apiPermission table write access
+   * @apiDescription This endpoint is only supported for external (SQL) tables, all of the rows
+   * will be updated within a single transaction - if any update fails none of the rows will be
+   * changed. Relationship columns cannot be updated through this endpoint.
+   *
+   * @apiParam {string} tableId The ID of the table the rows are to be updated in.
+   *
+   * @apiParam (Body) {object[]} rows The rows which are to be updated, each row must contain an _id
+   * and the columns which are to be changed.
+   *
+   * @apiSuccess {object[]} body The rows that were updated.
+   */
+  .patch(
+    "/api/:tableId/rows/bulk",
+    paramResource("tableId"),
+    authorized(PermissionTypes.TABLE, PermissionLevels.WRITE),
+    rowController.bulkPatch
+  )
   /**
    * @api {post} /api/:tableId/rows/validate Validate inputs for a row
    * @apiName Validate inputs for a row
@@ -224,7 +263,8 @@ router
    * @apiGroup rows
    * @apiPermission table write access
    * @apiDescription This endpoint can delete a single row, or delete them in a bulk
-   * fashion.
+   * fashion. When deleting in bulk from an external (SQL) table the rows are deleted within a
+   * single transaction.
    *
    * @apiParam {string} tableId The ID of the table the row is to be deleted from.
    *
@@ -250,13 +290,19 @@ router
    * @apiName Export rows
    * @apiGroup rows
    * @apiPermission table write access
-   * @apiDescription This API can export a number of provided rows
+   * @apiDescription This API can export a number of provided rows, or all of the rows
+   * which match a query. The export is streamed as it is generated.
    *
-   * @apiParam {string} tableId The ID of the table the row is to be deleted from.
+   * @apiParam {string} tableId The ID of the table the rows are to be exported from.
+   * @apiParam (Query) {string} format The format of the export, one of csv, json,
+   * ndjson or xlsx.
    *
-   * @apiParam (Body) {object[]} [rows] The row IDs which are to be exported
+   * @apiParam (Body) {string[]} [rows] The row IDs which are to be exported, if not
+   * provided all rows which match the query are exported.
+   * @apiParam (Body) {object} [query] The search query the exported rows must match.
+   * @apiParam (Body) {string[]} [columns] The columns to export, all columns by default.
    *
-   * @apiSuccess {object[]|object}
+   * @apiSuccess {file} body The exported file.
    */
   .post(
     "/api/:tableId/rows/exportRows",
@@ -264,5 +310,42 @@ router
     authorized(PermissionTypes.TABLE, PermissionLevels.WRITE),
     rowController.exportRows
   )
+  /**
+   * @api {post} /api/:tableId/rows/exportRows/jobs Export rows in the background
+   * @apiName Export rows in the background
+   * @apiGroup rows
+   * @apiPermission table write access
+   * @apiDescription Queues an export, which is written to the object store rather
+   * than returned. Accepts the same parameters as exporting rows.
+   *
+   * @apiSuccess {string} jobId The ID of the export, used to check when it is ready.
+   */
+  .post(
+    "/api/:tableId/rows/exportRows/jobs",
+    paramResource("tableId"),
+    authorized(PermissionTypes.TABLE, PermissionLevels.WRITE),
+    rowController.exportRowsInBackground
+  )
+  /**
+   * @api {get} /api/:tableId/rows/exportRows/jobs/:jobId Get a background export
+   * @apiName Get a background export
+   * @apiGroup rows
+   * @apiPermission table write access
+   * @apiDescription Retrieves the status of a background export.
+   *
+   * @apiParam {string} jobId The ID of the export.
+   *
+   * @apiSuccess {string} status The status of the export, e.g. waiting, active,
+   * completed or failed.
+   * @apiSuccess {string} [url] A link to download the export once it has completed,
+   * the link expires after an hour.
+   * @apiSuccess {string} [error] The reason the export failed.
+   */
+  .get(
+    "/api/:tableId/rows/exportRows/jobs/:jobId",
+    paramResource("tableId"),
+    authorized(PermissionTypes.TABLE, PermissionLevels.WRITE),
+    rowController.fetchExport
+  )
 
 export default router
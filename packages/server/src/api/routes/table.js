@@ -182,9 +182,16 @@ router
    *
    * @apiParam (Body) {object} dataImport This is the same as the structure used when creating an internal table with
    * a CSV, it will have the "schema" returned from the CSV validation endpoint and the "csvString" which is to be
-   * turned into rows.
+   * turned into rows. External tables can also be imported from a "jsonString", an array of rows.
+   * @apiParam (Body) {string[]} [matchOn] External tables only, rows which match an existing row on these columns
+   * are updated rather than created. Defaults to the primary key of the table.
+   * @apiParam (Body) {boolean} [dryRun] External tables only, validates the import and reports the number of rows
+   * which would be created and updated, without writing anything.
+   * @apiParam (Body) {number} [chunkSize] External tables only, the number of rows written at a time, at most 1000.
    *
    * @apiSuccess {string} message A message stating that the data was imported successfully.
+   * @apiSuccess {object[]} [errors] External tables only, the rows which could not be imported and why, rows are
+   * numbered from 1.
    */
   .post(
     "/api/tables/:tableId/import",
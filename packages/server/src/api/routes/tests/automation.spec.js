@@ -6,6 +6,8 @@ const {
 } = require("./utilities/TestFunctions")
 const setup = require("./utilities")
 const { basicAutomation } = setup.structures
+const { storeLog } = require("../../../automations/logs")
+const { doInAppContext, getAppDB } = require("@budibase/backend-core/context")
 
 const MAX_RETRIES = 4
 
@@ -117,6 +119,29 @@ describe("/automations", () => {
       expect(newAuto._rev).not.toEqual(originalAuto._rev)
     })
 
+    it("should validate the steps nested within a branch", async () => {
+      const autoConfig = basicAutomation()
+      autoConfig.definition.trigger = TRIGGER_DEFINITIONS["ROW_SAVED"]
+      autoConfig.definition.trigger.id = "branch_trigger_id"
+      const branch = { ...ACTION_DEFINITIONS["BRANCH"], id: "branch_id" }
+      const { schema, ...nested } = ACTION_DEFINITIONS["DELAY"]
+      branch.branches = [{ steps: [{ ...nested, id: "nested_id" }] }, { steps: [] }]
+      autoConfig.definition.steps.push(branch)
+      await request
+        .post(`/api/automations`)
+        .set(config.defaultHeaders())
+        .send(autoConfig)
+        .expect('Content-Type', /json/)
+        .expect(400)
+      branch.branches[0].steps[0].schema = schema
+      await request
+        .post(`/api/automations`)
+        .set(config.defaultHeaders())
+        .send(autoConfig)
+        .expect('Content-Type', /json/)
+        .expect(200)
+    })
+
     it("should apply authorization to endpoint", async () => {
       await checkBuilderEndpoint({
         config,
@@ -231,4 +256,72 @@ describe("/automations", () => {
       })
     })
   })
+
+  describe("logs", () => {
+    async function createRuns() {
+      const automation = basicAutomation()
+      return doInAppContext(config.prodAppId, async () => {
+        const db = getAppDB()
+        automation._id = "au_logged"
+        await db.put(automation)
+        const data = { automation, event: { fields: { name: "Test" } } }
+        const success = await storeLog(
+          data,
+          { steps: [{}, { outputs: { success: true } }] },
+          { startedAt: Date.now() - 1000 }
+        )
+        const failed = await storeLog(
+          data,
+          { steps: [{}] },
+          { startedAt: Date.now(), error: "Step failed" }
+        )
+        return { success, failed }
+      })
+    }
+
+    it("returns the published runs of an automation, the most recent first", async () => {
+      const { success, failed } = await createRuns()
+      const res = await request
+        .get(`/api/automations/au_logged/logs`)
+        .set(config.defaultHeaders())
+        .expect("Content-Type", /json/)
+        .expect(200)
+      expect(res.body.data.map(log => log._id)).toEqual([failed._id, success._id])
+      expect(res.body.data[0].status).toEqual("error")
+      expect(res.body.data[0].error).toEqual("Step failed")
+      expect(res.body.data[1].event).toEqual({ fields: { name: "Test" } })
+    })
+
+    it("filters the runs by status", async () => {
+      const { success } = await createRuns()
+      const res = await request
+        .get(`/api/automations/au_logged/logs?status=success`)
+        .set(config.defaultHeaders())
+        .expect("Content-Type", /json/)
+        .expect(200)
+      expect(res.body.data.map(log => log._id)).toEqual([success._id])
+    })
+
+    it("replays a failed run", async () => {
+      const { success, failed } = await createRuns()
+      const res = await request
+        .post(`/api/automations/au_logged/logs/${failed._id}/replay`)
+        .set(config.defaultHeaders())
+        .expect("Content-Type", /json/)
+        .expect(200)
+      expect(res.body.message).toEqual("Automation au_logged has been replayed.")
+      await request
+        .post(`/api/automations/au_logged/logs/${success._id}/replay`)
+        .set(config.defaultHeaders())
+        .expect(400)
+    })
+
+    it("should apply authorization to endpoint", async () => {
+      await checkBuilderEndpoint({
+        config,
+        method: "GET",
+        url: `/api/automations/au_logged/logs`,
+      })
+    })
+  })
 })
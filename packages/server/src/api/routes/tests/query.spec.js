@@ -9,9 +9,16 @@ const { isProdAppID } = authDb
 const mockIsProdAppID = jest.fn(isProdAppID)
 authDb.isProdAppID = mockIsProdAppID
 
+const fs = require("fs")
+const path = require("path")
 const setup = require("./utilities")
 const { checkBuilderEndpoint } = require("./utilities/TestFunctions")
-const { checkCacheForDynamicVariable } = require("../../../threads/utils")
+const {
+  checkCacheForDynamicVariable,
+  checkCacheForQuery,
+  makeQueryCacheKey,
+  storeQueryCache,
+} = require("../../../threads/utils")
 const { basicQuery, basicDatasource } = setup.structures
 
 describe("/queries", () => {
@@ -160,6 +167,29 @@ describe("/queries", () => {
     })
   })
 
+  describe("cache", () => {
+    it("should remove the cached results of a query", async () => {
+      const key = makeQueryCacheKey(datasource._id, query._id)
+      await storeQueryCache(key, { rows: [{ a: 1 }] }, 60)
+      const res = await request
+        .post(`/api/queries/${query._id}/cache/invalidate`)
+        .set(config.defaultHeaders())
+        .expect("Content-Type", /json/)
+        .expect(200)
+
+      expect(res.body).toEqual({ invalidated: true })
+      expect(await checkCacheForQuery(key)).toBe(null)
+    })
+
+    it("should cache each page and app separately", () => {
+      const key = (opts) => makeQueryCacheKey(datasource._id, query._id, opts)
+      const first = key({ appId: "app_dev_1", pagination: { page: 1 } })
+      expect(key({ appId: "app_dev_1", pagination: { page: 2 } })).not.toEqual(first)
+      expect(key({ appId: "app_1", pagination: { page: 1 } })).not.toEqual(first)
+      expect(key({ appId: "app_dev_1", pagination: { page: 1 } })).toEqual(first)
+    })
+  })
+
   describe("preview", () => {
     it("should be able to preview the query", async () => {
       const res = await request
@@ -303,4 +333,57 @@ describe("/queries", () => {
       expect(contents).toBe(null)
     })
   })
+
+  describe("import", () => {
+    const secure = fs.readFileSync(
+      path.join(
+        __dirname,
+        "../../controllers/query/import/sources/tests/openapi3/data/secure/secure.json"
+      ),
+      "utf8"
+    )
+
+    it("should add the auth configs to an existing datasource", async () => {
+      const existingAuth = {
+        _id: "existing",
+        name: "bearerAuth",
+        type: "bearer",
+        config: { token: "mytoken" },
+      }
+      const datasource = await config.restDatasource({
+        url: "http://example.com",
+        staticVariables: { version: "2" },
+        authConfigs: [existingAuth],
+      })
+      const res = await request
+        .post(`/api/queries/import`)
+        .send({ data: secure, datasourceId: datasource._id })
+        .set(config.defaultHeaders())
+        .expect("Content-Type", /json/)
+        .expect(200)
+      expect(res.body.datasourceId).toEqual(datasource._id)
+
+      const { body: updated } = await request
+        .get(`/api/datasources/${datasource._id}`)
+        .set(config.defaultHeaders())
+        .expect(200)
+      expect(updated.config.staticVariables).toEqual({ version: "2" })
+      const authConfigs = updated.config.authConfigs
+      expect(authConfigs.map(authConfig => authConfig.name).sort()).toEqual([
+        "apiKeyAuth",
+        "basicAuth",
+        "bearerAuth",
+        "oauth",
+      ])
+      // the existing auth config is used rather than adding a duplicate
+      expect(authConfigs[0]).toEqual(existingAuth)
+      const getUsers = res.body.queries.find(query => query.name === "getUsers")
+      expect(getUsers.fields.authConfigId).toEqual("existing")
+      const createUser = res.body.queries.find(
+        query => query.name === "createUser"
+      )
+      const apiKeyAuth = authConfigs.find(auth => auth.name === "apiKeyAuth")
+      expect(createUser.fields.authConfigId).toEqual(apiKeyAuth._id)
+    })
+  })
 })
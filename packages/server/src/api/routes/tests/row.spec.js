@@ -3,6 +3,7 @@ const setup = require("./utilities")
 const { basicRow } = setup.structures
 const { doInAppContext } = require("@budibase/backend-core/context")
 const { doInTenant } = require("@budibase/backend-core/tenancy")
+const { BUILTIN_ROLE_IDS } = require("@budibase/backend-core/roles")
 const { quotas, QuotaUsageType, StaticQuotaName, MonthlyQuotaName } = require("@budibase/pro")
 
 // mock the fetch for the search system
@@ -461,6 +462,101 @@ describe("/rows", () => {
     })
   })
 
+  describe("exportRows", () => {
+    it("should be able to export a set of rows", async () => {
+      const row1 = await config.createRow()
+      const row2 = await config.createRow()
+
+      const res = await request
+        .post(`/api/${table._id}/rows/exportRows?format=ndjson`)
+        .send({
+          rows: [row1._id, row2._id],
+          columns: ["_id", "name"],
+        })
+        .set(config.defaultHeaders())
+        .expect(200)
+
+      const rows = res.text.trim().split("\n").map(line => JSON.parse(line))
+      expect(rows.map(row => row._id).sort()).toEqual([row1._id, row2._id].sort())
+      expect(Object.keys(rows[0])).toEqual(["_id", "name"])
+    })
+
+    it("should only export rows of the table", async () => {
+      const row1 = await config.createRow()
+      const otherTable = await config.createTable()
+      const otherRow = await config.createRow({ tableId: otherTable._id, name: "other" })
+
+      const res = await request
+        .post(`/api/${table._id}/rows/exportRows?format=ndjson`)
+        .send({
+          rows: [row1._id, otherRow._id],
+          columns: ["_id", "name"],
+        })
+        .set(config.defaultHeaders())
+        .expect(200)
+
+      const rows = res.text.trim().split("\n").map(line => JSON.parse(line))
+      expect(rows.map(row => row._id)).toEqual([row1._id])
+    })
+
+    it("should reject unknown formats", async () => {
+      const row1 = await config.createRow()
+      await request
+        .post(`/api/${table._id}/rows/exportRows?format=pdf`)
+        .send({ rows: [row1._id] })
+        .set(config.defaultHeaders())
+        .expect(400)
+    })
+
+    it("should be able to export in the background", async () => {
+      const res = await request
+        .post(`/api/${table._id}/rows/exportRows/jobs?format=csv`)
+        .send({})
+        .set(config.defaultHeaders())
+        .expect('Content-Type', /json/)
+        .expect(200)
+      expect(res.body.jobId).toBeDefined()
+
+      const url = `/api/${table._id}/rows/exportRows/jobs/${res.body.jobId}`
+      let job
+      for (let attempt = 0; attempt < 50; attempt++) {
+        job = await request
+          .get(url)
+          .set(config.defaultHeaders())
+          .expect('Content-Type', /json/)
+          .expect(200)
+        if (job.body.status !== "waiting") {
+          break
+        }
+        await new Promise(resolve => setTimeout(resolve, 100))
+      }
+      expect(job.body.status).toEqual("completed")
+      expect(job.body.url).toBeDefined()
+
+      await request
+        .get(`/api/${table._id}/rows/exportRows/jobs/unknown`)
+        .set(config.defaultHeaders())
+        .expect(404)
+    })
+
+    it("should not return an export to another user", async () => {
+      const res = await request
+        .post(`/api/${table._id}/rows/exportRows/jobs?format=csv`)
+        .send({})
+        .set(config.defaultHeaders())
+        .expect(200)
+      const otherUser = await config.login({
+        roleId: BUILTIN_ROLE_IDS.ADMIN,
+        userId: "us_other",
+        builder: true,
+      })
+      await request
+        .get(`/api/${table._id}/rows/exportRows/jobs/${res.body.jobId}`)
+        .set(otherUser)
+        .expect(404)
+    })
+  })
+
   describe("attachments", () => {
     it("should allow enriching attachment rows", async () => {
       const table = await config.createAttachmentTable()
@@ -1,6 +1,10 @@
 const joiValidator = require("../../../middleware/joi-validator")
-const { DataSourceOperation } = require("../../../constants")
-const { WebhookType } = require("../../../constants")
+const { DataSourceOperation, CalculationTypes } = require("../../../constants")
+const {
+  WebhookType,
+  AutomationErrorPolicies,
+  MAX_AUTOMATION_STEP_RETRIES,
+} = require("../../../constants")
 const {
   BUILTIN_PERMISSION_IDS,
   PermissionLevels,
@@ -58,7 +62,21 @@ function filterObject() {
     oneOf: Joi.object().optional(),
     contains: Joi.object().optional(),
     notContains: Joi.object().optional(),
-  }).unknown(true)
+    allOr: Joi.boolean().optional(),
+    groups: Joi.array().items(Joi.link("#filter")).optional(),
+  }).unknown(true).id("filter")
+}
+
+function aggregationObject() {
+  // prettier-ignore
+  return Joi.object({
+    groupBy: Joi.array().items(Joi.string()).optional(),
+    calculations: Joi.array().items(Joi.object({
+      type: Joi.string().valid(...Object.values(CalculationTypes)).required(),
+      field: OPTIONAL_STRING,
+      name: Joi.string().required(),
+    })).min(1).required(),
+  })
 }
 
 exports.internalSearchValidator = () => {
@@ -71,7 +89,9 @@ exports.internalSearchValidator = () => {
     sortOrder: OPTIONAL_STRING,
     sortType: OPTIONAL_STRING,
     paginate: Joi.boolean(),
+    keyset: Joi.boolean().optional(),
     bookmark: Joi.alternatives().try(OPTIONAL_STRING, OPTIONAL_NUMBER).optional(),
+    aggregation: aggregationObject().optional(),
   }))
 }
 
@@ -175,7 +195,9 @@ exports.screenValidator = () => {
   }).unknown(true))
 }
 
-function generateStepSchema(allowStepTypes) {
+function generateStepSchema(allowStepTypes, id) {
+  // steps nested within branches or on error are validated in the same way as the step
+  const nestedSteps = Joi.array().items(Joi.link(`#${id}`))
   // prettier-ignore
   return Joi.object({
     stepId: Joi.string().required(),
@@ -186,8 +208,20 @@ function generateStepSchema(allowStepTypes) {
     icon: Joi.string().required(),
     params: Joi.object(),
     args: Joi.object(),
+    schema: Joi.object({
+      inputs: Joi.object().required(),
+    }).required().unknown(true),
     type: Joi.string().required().valid(...allowStepTypes),
-  }).unknown(true)
+    branches: Joi.array().items(Joi.object({
+      steps: nestedSteps,
+    }).unknown(true)),
+    onError: Joi.object({
+      retries: Joi.number().integer().min(0).max(MAX_AUTOMATION_STEP_RETRIES),
+      backoff: Joi.number().min(0),
+      policy: Joi.string().valid(...Object.values(AutomationErrorPolicies)),
+      steps: nestedSteps,
+    }).unknown(true),
+  }).unknown(true).id(id)
 }
 
 exports.automationValidator = (existing = false) => {
@@ -198,8 +232,8 @@ exports.automationValidator = (existing = false) => {
     name: Joi.string().required(),
     type: Joi.string().valid("automation").required(),
     definition: Joi.object({
-      steps: Joi.array().required().items(generateStepSchema(["ACTION", "LOGIC"])),
-      trigger: generateStepSchema(["TRIGGER"]).allow(null),
+      steps: Joi.array().required().items(generateStepSchema(["ACTION", "LOGIC"], "actionStep")),
+      trigger: generateStepSchema(["TRIGGER"], "triggerStep").allow(null),
     }).required().unknown(true),
   }).unknown(true))
 }
@@ -11,6 +11,8 @@ const http = require("http")
 const api = require("./api")
 const eventEmitter = require("./events")
 const automations = require("./automations/index")
+const exportJob = require("./api/controllers/row/exportJob")
+const changeCapture = require("./automations/cdc")
 const Sentry = require("@sentry/node")
 const fileSystem = require("./utilities/fileSystem")
 const bullboard = require("./automations/bullboard")
@@ -18,6 +20,7 @@ const { logAlert } = require("@budibase/backend-core/logging")
 const { Thread } = require("./threads")
 import redis from "./utilities/redis"
 import * as migrations from "./migrations"
+import { closeAllPools } from "./integrations/base/connectionPool"
 
 const app = new Koa()
 
@@ -82,8 +85,11 @@ server.on("close", async () => {
     console.log("Server Closed")
   }
   await automations.shutdown()
+  await exportJob.shutdown()
+  await changeCapture.shutdown()
   await redis.shutdown()
   await Thread.shutdown()
+  await closeAllPools()
   api.shutdown()
   if (!env.isTest()) {
     process.exit(errCode)
@@ -96,6 +102,9 @@ module.exports = server.listen(env.PORT || 0, async () => {
   eventEmitter.emitPort(env.PORT)
   fileSystem.init()
   await redis.init()
+  // the automation queue doesn't resolve, so is started last
+  exportJob.init()
+  changeCapture.init()
   await automations.init()
 })
 
@@ -14,6 +14,7 @@ let filter = require("./steps/filter")
 let delay = require("./steps/delay")
 let queryRow = require("./steps/queryRows")
 let loop = require("./steps/loop")
+let branch = require("./steps/branch")
 const env = require("../environment")
 
 const ACTION_IMPLS = {
@@ -29,6 +30,7 @@ const ACTION_IMPLS = {
   FILTER: filter.run,
   QUERY_ROWS: queryRow.run,
   LOOP: loop.run,
+  BRANCH: branch.run,
   // these used to be lowercase step IDs, maintain for backwards compat
   discord: discord.run,
   slack: slack.run,
@@ -48,6 +50,7 @@ const ACTION_DEFINITIONS = {
   FILTER: filter.definition,
   QUERY_ROWS: queryRow.definition,
   LOOP: loop.definition,
+  BRANCH: branch.definition,
   // these used to be lowercase step IDs, maintain for backwards compat
   discord: discord.definition,
   slack: slack.definition,
@@ -76,6 +76,38 @@ exports.getError = err => {
   return typeof err !== "string" ? err.toString() : err
 }
 
+// network errors which are likely to succeed if the request is made again
+const TRANSIENT_ERROR_CODES = [
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "ESOCKETTIMEDOUT",
+  "EPIPE",
+  "EAI_AGAIN",
+  "EHOSTUNREACH",
+  "ENETUNREACH",
+]
+
+/**
+ * Checks whether an error is a temporary failure (e.g. a connection reset or a timeout), steps
+ * which catch their errors mark their outputs as retryable with this so that a step with error
+ * handling can be retried.
+ *
+ * @param {object|string} err The error which was caught by the step.
+ * @returns {boolean} Whether the step may succeed if it is run again.
+ */
+exports.isTransientError = err => {
+  if (err == null || typeof err !== "object") {
+    return false
+  }
+  return (
+    TRANSIENT_ERROR_CODES.includes(err.code) ||
+    err.type === "request-timeout" ||
+    err.status === 429 ||
+    err.status >= 500
+  )
+}
+
 exports.substituteLoopStep = (hbsString, substitute) => {
   let blocks = findHBSBlocks(hbsString)
   for (let block of blocks) {
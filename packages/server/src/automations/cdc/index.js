@@ -0,0 +1,253 @@
+const env = require("../../environment")
+const Queue = env.isTest()
+  ? require("../../utilities/queue/inMemoryQueue")
+  : require("bull")
+const { JobQueues } = require("../../constants")
+const { utils } = require("@budibase/backend-core/redis")
+const { doWithDB } = require("@budibase/backend-core/db")
+const { doInAppContext, getAppDB } = require("@budibase/backend-core/context")
+const {
+  doInTenant,
+  getTenantIDFromAppID,
+} = require("@budibase/backend-core/tenancy")
+const { getDatasourceParams } = require("../../db/utils")
+const { SourceNames } = require("../../definitions/datasource")
+const AutomationEmitter = require("../../events/AutomationEmitter")
+const { PostgresWatcher } = require("./postgres")
+const { MySQLWatcher } = require("./mysql")
+const {
+  consumeWrite,
+  lockWatcher,
+  unlockWatcher,
+  shutdown: shutdownWrites,
+} = require("./utils")
+const { opts, redisProtocolUrl } = utils.getRedisOptions()
+
+const POLL_INTERVAL_MS = 5000
+// watchers which haven't been polled for a while are stopped, e.g. if the datasource is
+// being polled by another server
+const WATCHER_IDLE_MS = POLL_INTERVAL_MS * 6
+// the lock outlasts an idle watcher, so another process can't start watching until it stops
+const WATCHER_LOCK_SECONDS = (WATCHER_IDLE_MS + POLL_INTERVAL_MS) / 1000
+const JOB_OPTS = {
+  removeOnComplete: true,
+  removeOnFail: true,
+}
+
+const WATCHERS = {
+  [SourceNames.POSTGRES]: PostgresWatcher,
+  [SourceNames.MYSQL]: MySQLWatcher,
+}
+
+let changeQueue
+const watchers = {}
+
+function getQueue() {
+  if (!changeQueue) {
+    changeQueue = new Queue(
+      JobQueues.CHANGE_CAPTURE,
+      redisProtocolUrl || { redis: opts }
+    )
+  }
+  return changeQueue
+}
+
+function getCapturedTables(datasource) {
+  return Object.values(datasource.entities || {}).filter(
+    table =>
+      table.changeCapture &&
+      !table.readonly &&
+      table.primary &&
+      table.primary.length > 0
+  )
+}
+
+async function stopWatcher(key) {
+  const entry = watchers[key]
+  if (!entry) {
+    return
+  }
+  delete watchers[key]
+  clearTimeout(entry.timeout)
+  await entry.watcher.stop()
+}
+
+function getWatcher(key, datasource) {
+  let entry = watchers[key]
+  if (!entry || entry.watcher.stopped) {
+    entry = watchers[key] = {
+      watcher: new WATCHERS[datasource.source](datasource),
+    }
+  }
+  clearTimeout(entry.timeout)
+  entry.timeout = setTimeout(() => stopWatcher(key), WATCHER_IDLE_MS)
+  entry.timeout.unref()
+  return entry
+}
+
+function getJobId(appId, datasourceId) {
+  return `${appId}_cdc_${datasourceId}`
+}
+
+async function removeJobs(match) {
+  const queue = getQueue()
+  const jobs = await queue.getRepeatableJobs()
+  for (let job of jobs) {
+    if (job.key.includes(match)) {
+      await queue.removeRepeatableByKey(job.key)
+    }
+  }
+}
+
+/**
+ * Once no tables of a datasource capture changes, the triggers which notify of changes
+ * are removed and the datasource is no longer polled.
+ */
+async function removeChangeCapture(appId, datasource) {
+  const key = `${appId}/${datasource._id}`
+  const entry = watchers[key]
+  const watcher = entry
+    ? entry.watcher
+    : new WATCHERS[datasource.source](datasource)
+  try {
+    await watcher.removeTriggers(Object.values(datasource.entities || {}))
+  } finally {
+    await stopWatcher(key)
+    await watcher.stop()
+    await unlockWatcher(key)
+  }
+  await removeJobs(getJobId(appId, datasource._id))
+}
+
+async function emitChanges(appId, changes) {
+  const emitter = new AutomationEmitter(0, { changeCapture: true })
+  for (let { event, row, table } of changes) {
+    // changes made through Budibase have already been emitted
+    if (await consumeWrite(event, row)) {
+      continue
+    }
+    emitter.emitRow(event, appId, row, table)
+  }
+}
+
+async function processChanges(job) {
+  const { appId, datasourceId } = job.data
+  const key = `${appId}/${datasourceId}`
+  return doInTenant(getTenantIDFromAppID(appId), () =>
+    doInAppContext(appId, async () => {
+      let datasource
+      try {
+        datasource = await getAppDB().get(datasourceId)
+      } catch (err) {
+        await stopWatcher(key)
+        // the datasource has been deleted, it doesn't need to be polled again
+        if (err.status === 404) {
+          await removeJobs(getJobId(appId, datasourceId))
+        }
+        return
+      }
+      if (!WATCHERS[datasource.source]) {
+        return stopWatcher(key)
+      }
+      const tables = getCapturedTables(datasource)
+      if (!tables.length) {
+        return removeChangeCapture(appId, datasource)
+      }
+      // only one process watches a datasource, otherwise each of them would emit the changes
+      if (!(await lockWatcher(key, WATCHER_LOCK_SECONDS))) {
+        return stopWatcher(key)
+      }
+      const entry = getWatcher(key, datasource)
+      // polls can take longer than the interval, they mustn't overlap
+      if (entry.polling) {
+        return
+      }
+      entry.polling = true
+      try {
+        const changes = await entry.watcher.poll(
+          tables,
+          Object.values(datasource.entities)
+        )
+        await emitChanges(appId, changes)
+      } catch (err) {
+        console.error(`Unable to capture changes to ${datasourceId}`, err)
+        await stopWatcher(key)
+        throw err
+      } finally {
+        entry.polling = false
+      }
+    })
+  )
+}
+
+/**
+ * Starts capturing changes made directly to external databases, any tables which have
+ * change capture enabled emit row events for changes made outside of Budibase.
+ */
+exports.init = () => {
+  return getQueue().process(processChanges)
+}
+
+exports.shutdown = async () => {
+  for (let key of Object.keys(watchers)) {
+    await stopWatcher(key)
+  }
+  if (changeQueue) {
+    await changeQueue.close()
+    changeQueue = null
+  }
+  await shutdownWrites()
+}
+
+// the datasources which changes can be captured for
+async function getDatasources(appId) {
+  const datasources = await doWithDB(appId, async db => {
+    const response = await db.allDocs(
+      getDatasourceParams(null, { include_docs: true })
+    )
+    return response.rows.map(row => row.doc)
+  })
+  return datasources.filter(datasource => WATCHERS[datasource.source])
+}
+
+/**
+ * Polls each datasource of the app which has tables that capture changes, this is done
+ * for deployed apps in the same way as cron triggers.
+ * @param {string} appId The app which changes should be captured for.
+ */
+exports.enableChangeCapture = async appId => {
+  for (let datasource of await getDatasources(appId)) {
+    if (!getCapturedTables(datasource).length) {
+      continue
+    }
+    await getQueue().add(
+      { appId, datasourceId: datasource._id },
+      {
+        ...JOB_OPTS,
+        repeat: { every: POLL_INTERVAL_MS },
+        jobId: getJobId(appId, datasource._id),
+      }
+    )
+  }
+}
+
+/**
+ * Stops capturing changes for the app, removing the triggers from the databases.
+ * @param {string} appId The app which is being removed or unpublished.
+ */
+exports.disableChangeCapture = async appId => {
+  await removeJobs(`${appId}_cdc`)
+  const datasources = (await getDatasources(appId)).filter(
+    datasource => getCapturedTables(datasource).length
+  )
+  for (let datasource of datasources) {
+    try {
+      await removeChangeCapture(appId, datasource)
+    } catch (err) {
+      console.error(
+        `Unable to remove change capture from ${datasource._id}`,
+        err
+      )
+    }
+  }
+}
@@ -0,0 +1,189 @@
+const mysql = require("mysql2/promise")
+const { integration: MySQLIntegration } = require("../../integrations/mysql")
+const { exportPages } = require("../../api/controllers/row/external")
+const { SYSTEM_USER } = require("../../api/controllers/row/rowSecurity")
+const { diffRows } = require("./utils")
+
+// the events read from the binary log each poll, the rest are read on the next poll
+const MAX_EVENTS = 10000
+// tables are compared to the last time they were read, larger tables aren't captured
+const MAX_SNAPSHOT_ROWS = 10000
+// events start after the magic number at the start of each binary log file
+const FIRST_EVENT_POSITION = 4
+
+const ROW_EVENT_TYPES = ["Write_rows", "Update_rows", "Delete_rows"]
+// e.g. "table_id: 108 (inventory.products)"
+const TABLE_MAP_REGEX = /\(`?([^`.]+)`?\.`?([^`)]+)`?\)$/
+// the statements which end a transaction, transactional tables end with an Xid event instead
+const END_TRANSACTION_REGEX = /^(COMMIT|ROLLBACK)/i
+
+/**
+ * Captures changes to MySQL tables by polling the binary log, as a fallback for databases
+ * which can't notify of changes. The binary log is used to find which tables have changed,
+ * a changed table is then compared to the last time it was read to find the rows which
+ * have changed. This requires binary logging to be enabled and the REPLICATION CLIENT
+ * and REPLICATION SLAVE privileges.
+ */
+class MySQLWatcher {
+  constructor(datasource) {
+    this.integration = new MySQLIntegration({ ...datasource.config })
+    this.database = datasource.config.database
+    this.position = null
+    this.snapshots = {}
+    this.unsupported = new Set()
+    this.stopped = false
+  }
+
+  async query(sql) {
+    return this.integration.internalQuery({ sql })
+  }
+
+  async getPosition() {
+    const [status] = await this.query("SHOW MASTER STATUS")
+    if (!status || !status.File) {
+      throw "Binary logging must be enabled to capture changes to MySQL tables."
+    }
+    return { file: status.File, position: status.Position }
+  }
+
+  /**
+   * Reads the binary log from the last position, finding the tables which have changed. The
+   * position is only moved forward at the end of each transaction, if a transaction is cut
+   * off by the limit on the events read it is read again from the start on the next poll.
+   */
+  async getChangedTables() {
+    const logs = (await this.query("SHOW BINARY LOGS")).map(log => log.Log_name)
+    // the log the watcher was reading has been purged, changes may have been missed
+    if (!logs.includes(this.position.file)) {
+      this.position = { file: logs[0], position: FIRST_EVENT_POSITION }
+    }
+    const files = logs.slice(logs.indexOf(this.position.file))
+    const changed = new Set()
+    let remaining = MAX_EVENTS
+    for (let file of files) {
+      if (remaining <= 0) {
+        break
+      }
+      const from =
+        file === this.position.file
+          ? this.position.position
+          : FIRST_EVENT_POSITION
+      const events = await this.query(
+        `SHOW BINLOG EVENTS IN ${mysql.escape(file)} FROM ${parseInt(
+          from
+        )} LIMIT ${remaining}`
+      )
+      remaining -= events.length
+      let mapped = null,
+        // the tables changed by the transaction being read
+        pending = null
+      const markChanged = name => (pending || changed).add(name)
+      for (let event of events) {
+        const type = event.Event_type.replace(/_v\d$/, "")
+        const query = type === "Query" ? event.Info : null
+        if (query && /^BEGIN/i.test(query)) {
+          pending = new Set()
+        } else if (type === "Table_map") {
+          const match = event.Info.match(TABLE_MAP_REGEX)
+          mapped = match && match[1] === this.database ? match[2] : null
+        } else if (ROW_EVENT_TYPES.includes(type) && mapped) {
+          markChanged(mapped)
+        } else if (query && !END_TRANSACTION_REGEX.test(query)) {
+          // statement based logging, the statement may change any table it mentions
+          for (let name of Object.keys(this.snapshots)) {
+            if (query.includes(name)) {
+              markChanged(name)
+            }
+          }
+        }
+        if (
+          pending &&
+          (type === "Xid" || (query && END_TRANSACTION_REGEX.test(query)))
+        ) {
+          pending.forEach(name => changed.add(name))
+          pending = null
+        }
+        if (!pending) {
+          this.position = { file, position: event.End_log_pos }
+        }
+      }
+      // a single transaction larger than the limit would never be read in full, it has been
+      // committed so every table is compared and the rest of the transaction is skipped over
+      const stuck =
+        this.position.file !== file || this.position.position === from
+      if (pending && remaining <= 0 && events.length && stuck) {
+        Object.keys(this.snapshots).forEach(name => changed.add(name))
+        this.position = {
+          file,
+          position: events[events.length - 1].End_log_pos,
+        }
+      }
+    }
+    return changed
+  }
+
+  async readTable(table) {
+    const rows = []
+    for await (let page of exportPages(table._id, { user: SYSTEM_USER })) {
+      rows.push(...page)
+      if (rows.length > MAX_SNAPSHOT_ROWS) {
+        console.warn(
+          `Unable to capture changes to ${table.name}, tables with more than ${MAX_SNAPSHOT_ROWS} rows are not supported by MySQL.`
+        )
+        return null
+      }
+    }
+    return rows
+  }
+
+  /**
+   * Collects the changes which have been made since the last poll.
+   * @param {object[]} tables The tables which changes are captured for.
+   * @return {Promise<object[]>} The row events, with the row and table they are for.
+   */
+  async poll(tables) {
+    if (!this.position) {
+      this.position = await this.getPosition()
+    }
+    const changed = await this.getChangedTables()
+    const changes = []
+    for (let table of tables) {
+      const previous = this.snapshots[table.name]
+      // tables are read when they're first captured, there is nothing to compare to
+      if (
+        this.unsupported.has(table.name) ||
+        (previous && !changed.has(table.name))
+      ) {
+        continue
+      }
+      const rows = await this.readTable(table)
+      if (!rows) {
+        this.unsupported.add(table.name)
+        continue
+      }
+      const diff = diffRows(previous || new Map(), rows, row => row._id)
+      this.snapshots[table.name] = diff.current
+      if (previous) {
+        changes.push(...diff.changes.map(change => ({ ...change, table })))
+      }
+    }
+    // tables which are no longer captured don't need to be kept
+    for (let name of Object.keys(this.snapshots)) {
+      if (!tables.find(table => table.name === name)) {
+        delete this.snapshots[name]
+      }
+    }
+    return changes
+  }
+
+  // the binary log is only read, nothing is added to the database to capture changes
+  async removeTriggers() {}
+
+  async stop() {
+    this.stopped = true
+    this.snapshots = {}
+    this.unsupported.clear()
+  }
+}
+
+exports.MySQLWatcher = MySQLWatcher
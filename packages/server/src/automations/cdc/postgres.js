@@ -0,0 +1,276 @@
+const { Client } = require("pg")
+const {
+  getSchemaList,
+  quoteIdentifier,
+  quoteLiteral,
+} = require("../../integrations/utils")
+const { DataSourceOperation } = require("../../constants")
+const { handleRequest } = require("../../api/controllers/row/external")
+const { SYSTEM_USER } = require("../../api/controllers/row/rowSecurity")
+const { getRowId } = require("./utils")
+
+const CHANNEL = "budibase_changes"
+const FUNCTION_NAME = "budibase_notify_change"
+const TRIGGER_NAME = "budibase_changes"
+const DEFAULT_SCHEMA = "public"
+// notifications are limited to 8000 bytes, larger rows are left out of the notification
+const MAX_PAYLOAD_SIZE = 7900
+// notifications are dropped if they aren't collected, rather than using up memory
+const MAX_BUFFERED_CHANGES = 10000
+const MAX_FETCH_SIZE = 500
+
+const OPERATION_EVENTS = {
+  INSERT: "row:save",
+  UPDATE: "row:update",
+  DELETE: "row:delete",
+}
+
+// the primary key of the table is passed as the arguments of the trigger, so that the
+// row can still be identified when it is too large to be sent
+const NOTIFY_FUNCTION_SQL = `
+create or replace function ${FUNCTION_NAME}() returns trigger as $$
+declare
+  record jsonb;
+  keys jsonb := '{}'::jsonb;
+  payload text;
+begin
+  if TG_OP = 'DELETE' then
+    record := to_jsonb(OLD);
+  else
+    record := to_jsonb(NEW);
+  end if;
+  for i in 0..TG_NARGS - 1 loop
+    keys := keys || jsonb_build_object(TG_ARGV[i], record -> TG_ARGV[i]);
+  end loop;
+  payload := jsonb_build_object('schema', TG_TABLE_SCHEMA, 'table', TG_TABLE_NAME,
+    'operation', TG_OP, 'keys', keys, 'row', record)::text;
+  if octet_length(payload) > ${MAX_PAYLOAD_SIZE} then
+    payload := jsonb_build_object('schema', TG_TABLE_SCHEMA, 'table', TG_TABLE_NAME,
+      'operation', TG_OP, 'keys', keys)::text;
+  end if;
+  perform pg_notify('${CHANNEL}', payload);
+  return null;
+end;
+$$ language plpgsql;`
+
+/**
+ * Captures changes to Postgres tables using LISTEN/NOTIFY, a trigger is added to each
+ * table which notifies a connection held open by the watcher. Notifications are only
+ * received whilst the connection is open, changes made whilst it is closed are missed.
+ */
+class PostgresWatcher {
+  constructor(datasource) {
+    this.config = datasource.config
+    this.schemas = getSchemaList(this.config.schema, DEFAULT_SCHEMA)
+    this.client = null
+    this.captured = []
+    this.notifications = []
+    this.stopped = false
+  }
+
+  /**
+   * Tables outside of the primary schema are named with their schema.
+   */
+  getTableName(schema, tableName) {
+    return schema === this.schemas[0] ? tableName : `${schema}.${tableName}`
+  }
+
+  getQualifiedName(table) {
+    let schema = this.schemas[0],
+      tableName = table.name
+    const parts = table.name.split(".")
+    if (parts.length > 1 && this.schemas.includes(parts[0])) {
+      schema = parts.shift()
+      tableName = parts.join(".")
+    }
+    return `${quoteIdentifier(schema)}.${quoteIdentifier(tableName)}`
+  }
+
+  async connect({ listen = true } = {}) {
+    this.client = new Client({
+      ...this.config,
+      ssl: this.config.ssl
+        ? {
+            rejectUnauthorized: this.config.rejectUnauthorized,
+            ca: this.config.ca,
+          }
+        : undefined,
+    })
+    this.client.on("notification", message => this.onNotification(message))
+    // the watcher is replaced on the next poll
+    this.client.on("error", err => {
+      console.error("Change capture connection to Postgres failed", err)
+      this.stop()
+    })
+    await this.client.connect()
+    if (listen) {
+      await this.client.query(NOTIFY_FUNCTION_SQL)
+      await this.client.query(`LISTEN ${CHANNEL}`)
+    }
+  }
+
+  onNotification(message) {
+    if (message.channel !== CHANNEL) {
+      return
+    }
+    if (this.notifications.length >= MAX_BUFFERED_CHANGES) {
+      this.notifications.shift()
+    }
+    try {
+      this.notifications.push(JSON.parse(message.payload))
+    } catch (err) {
+      console.error("Unable to parse change notification", err)
+    }
+  }
+
+  /**
+   * Adds the trigger to any newly captured tables and removes it from any tables which
+   * are no longer captured.
+   */
+  async updateTriggers(tables, allTables) {
+    const names = tables.map(table => table.name)
+    let removed
+    if (!this.client) {
+      await this.connect()
+      // triggers may have been left behind by tables which were captured previously
+      removed = allTables.filter(
+        table => !table.readonly && !names.includes(table.name)
+      )
+    } else {
+      removed = allTables.filter(
+        table =>
+          this.captured.includes(table.name) && !names.includes(table.name)
+      )
+    }
+    for (let table of removed) {
+      const name = this.getQualifiedName(table)
+      await this.client.query(
+        `drop trigger if exists ${TRIGGER_NAME} on ${name}`
+      )
+    }
+    for (let table of tables) {
+      if (this.captured.includes(table.name)) {
+        continue
+      }
+      const name = this.getQualifiedName(table)
+      const keys = table.primary.map(quoteLiteral).join(", ")
+      await this.client.query(
+        `drop trigger if exists ${TRIGGER_NAME} on ${name}`
+      )
+      await this.client.query(
+        `create trigger ${TRIGGER_NAME} after insert or update or delete on ${name}
+        for each row execute procedure ${FUNCTION_NAME}(${keys})`
+      )
+    }
+    this.captured = names
+  }
+
+  /**
+   * Removes the triggers from all of the tables, along with the function they call, once
+   * changes are no longer captured for the datasource.
+   */
+  async removeTriggers(allTables) {
+    if (!this.client) {
+      await this.connect({ listen: false })
+    }
+    for (let table of allTables.filter(table => !table.readonly)) {
+      const name = this.getQualifiedName(table)
+      await this.client.query(
+        `drop trigger if exists ${TRIGGER_NAME} on ${name}`
+      )
+    }
+    this.captured = []
+    try {
+      await this.client.query(`drop function if exists ${FUNCTION_NAME}()`)
+    } catch (err) {
+      // the function is still used by the tables of another datasource in the same database
+    }
+  }
+
+  async getRows(table, keys) {
+    const rows = []
+    for (let i = 0; i < keys.length; i += MAX_FETCH_SIZE) {
+      const chunk = keys.slice(i, i + MAX_FETCH_SIZE)
+      const filters =
+        table.primary.length === 1
+          ? {
+              oneOf: {
+                [table.primary[0]]: chunk.map(key => key[table.primary[0]]),
+              },
+            }
+          : { allOr: true, groups: chunk.map(key => ({ equal: key })) }
+      rows.push(
+        ...(await handleRequest(DataSourceOperation.READ, table._id, {
+          filters,
+          user: SYSTEM_USER,
+        }))
+      )
+    }
+    return rows
+  }
+
+  /**
+   * Collects the changes which have been made since the last poll.
+   * @param {object[]} tables The tables which changes are captured for.
+   * @param {object[]} allTables All of the tables of the datasource.
+   * @return {Promise<object[]>} The row events, with the row and table they are for.
+   */
+  async poll(tables, allTables) {
+    await this.updateTriggers(tables, allTables)
+    const notifications = this.notifications
+    this.notifications = []
+    const tablesByName = {}
+    for (let table of tables) {
+      tablesByName[table.name] = table
+    }
+    // rows which have been created or updated are retrieved in the same way as any other read
+    const toFetch = {}
+    for (let notification of notifications) {
+      const name = this.getTableName(notification.schema, notification.table)
+      if (tablesByName[name] && notification.operation !== "DELETE") {
+        toFetch[name] = toFetch[name] || []
+        toFetch[name].push(notification.keys)
+      }
+    }
+    const fetched = {}
+    for (let [name, keys] of Object.entries(toFetch)) {
+      const table = tablesByName[name]
+      for (let row of await this.getRows(table, keys)) {
+        fetched[row._id] = row
+      }
+    }
+    const changes = []
+    for (let notification of notifications) {
+      const table =
+        tablesByName[this.getTableName(notification.schema, notification.table)]
+      const event = OPERATION_EVENTS[notification.operation]
+      if (!table || !event) {
+        continue
+      }
+      const _id = getRowId(table, notification.keys)
+      let row
+      if (notification.operation === "DELETE") {
+        const values = notification.row || notification.keys
+        row = { ...values, _id, tableId: table._id }
+      } else {
+        row = fetched[_id]
+      }
+      // rows which have since been deleted are skipped, the deletion is its own change
+      if (row) {
+        changes.push({ event, row, table })
+      }
+    }
+    return changes
+  }
+
+  async stop() {
+    this.stopped = true
+    if (this.client) {
+      const client = this.client
+      this.client = null
+      await client.end().catch(() => {})
+    }
+  }
+}
+
+exports.PostgresWatcher = PostgresWatcher
@@ -0,0 +1,140 @@
+const { Client, utils } = require("@budibase/backend-core/redis")
+const {
+  isExternalTable,
+  generateRowIdField,
+} = require("../../integrations/utils")
+const newid = require("../../db/newid")
+
+// changes made through Budibase have already been emitted, they're remembered for
+// long enough that the same change isn't emitted again when it is captured
+const RECENT_WRITE_SECONDS = 120
+// identifies this process as the holder of a watcher lock
+const PROCESS_ID = `cdc_${newid()}`
+
+let client
+
+async function getClient() {
+  if (!client) {
+    client = await new Client(utils.Databases.DEBOUNCE).init()
+  }
+  return client
+}
+
+exports.shutdown = async () => {
+  if (client) {
+    await client.finish()
+    client = null
+  }
+}
+
+function getWriteKey(eventName, tableId, rowId) {
+  return `cdc_${tableId}_${eventName}_${rowId}`
+}
+
+function getLockKey(key) {
+  return `cdc_lock_${key}`
+}
+
+/**
+ * Only one process watches each datasource, otherwise every process watching it would
+ * emit each change. The lock is kept for as long as the process keeps renewing it.
+ * @param {string} key The app and datasource which is being watched.
+ * @param {number} seconds How long the lock is held without being renewed.
+ * @return {Promise<boolean>} Whether this process holds the lock.
+ */
+exports.lockWatcher = async (key, seconds) => {
+  const redis = await getClient()
+  const lockKey = getLockKey(key)
+  if (await redis.storeIfNotExists(lockKey, PROCESS_ID, seconds)) {
+    return true
+  }
+  if ((await redis.get(lockKey)) !== PROCESS_ID) {
+    return false
+  }
+  await redis.setExpiry(lockKey, seconds)
+  return true
+}
+
+/**
+ * Releases the lock on a datasource, if this process holds it.
+ */
+exports.unlockWatcher = async key => {
+  const redis = await getClient()
+  const lockKey = getLockKey(key)
+  if ((await redis.get(lockKey)) === PROCESS_ID) {
+    await redis.delete(lockKey)
+  }
+}
+
+/**
+ * Generates the ID of an external row from its primary key.
+ */
+exports.getRowId = (table, row) => {
+  return generateRowIdField(table.primary.map(key => row[key]))
+}
+
+/**
+ * Remembers a row event which was emitted by Budibase, if the table captures changes.
+ * @param {string} eventName The row event, e.g. row:save.
+ * @param {object} event The event which was emitted.
+ */
+exports.recordWrite = async (eventName, event) => {
+  if (
+    !event.row ||
+    !isExternalTable(event.row.tableId) ||
+    (event.metadata && event.metadata.changeCapture) ||
+    (event.table && !event.table.changeCapture)
+  ) {
+    return
+  }
+  const redis = await getClient()
+  const key = getWriteKey(eventName, event.row.tableId, event.row._id)
+  await redis.store(key, Date.now(), RECENT_WRITE_SECONDS)
+}
+
+/**
+ * Checks whether a captured change was made through Budibase, each write is only
+ * matched to a single change.
+ * @return {Promise<boolean>} Whether the change has already been emitted.
+ */
+exports.consumeWrite = async (eventName, row) => {
+  const redis = await getClient()
+  const key = getWriteKey(eventName, row.tableId, row._id)
+  if (!(await redis.get(key))) {
+    return false
+  }
+  await redis.delete(key)
+  return true
+}
+
+/**
+ * Compares the rows of a table to the rows from the last time it was read.
+ * @param {Map<string, string>} previous The rows last time, keyed by row ID, the values
+ * are the stringified rows.
+ * @param {object[]} rows The rows now.
+ * @param {function} getKey Returns the key of a row.
+ * @return {{changes: object[], current: Map<string, string>}} The rows which have been
+ * created, updated or deleted, as row events, and the rows keyed for the next comparison.
+ * Updates also contain the previous version of the row.
+ */
+exports.diffRows = (previous, rows, getKey) => {
+  const changes = []
+  const current = new Map()
+  for (let row of rows) {
+    const key = getKey(row)
+    const value = JSON.stringify(row)
+    current.set(key, value)
+    if (!previous.has(key)) {
+      changes.push({ event: "row:save", row })
+    } else if (previous.get(key) !== value) {
+      const old = JSON.parse(previous.get(key))
+      changes.push({ event: "row:update", row, previous: old })
+    }
+  }
+  for (let [key, value] of previous) {
+    if (!current.has(key)) {
+      changes.push({ event: "row:delete", row: JSON.parse(value) })
+    }
+  }
+  return { changes, current }
+}
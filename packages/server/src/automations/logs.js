@@ -0,0 +1,178 @@
+const env = require("../environment")
+const { AutomationLogStatus } = require("../constants")
+const {
+  generateAutomationLogID,
+  getAutomationLogParams,
+  SEPARATOR,
+} = require("../db/utils")
+const { getAppDB } = require("@budibase/backend-core/context")
+
+const DEFAULT_MAX_RUNS = 100
+const DEFAULT_RETENTION_DAYS = 30
+const DEFAULT_PAGE_SIZE = 50
+const DAY_MS = 24 * 60 * 60 * 1000
+// step statuses set by the orchestrator
+const STOPPED_STATUS = "STOPPED"
+const SKIPPED_STATUS = "SKIPPED"
+
+function getStatus(steps, error) {
+  if (error) {
+    return AutomationLogStatus.ERROR
+  }
+  // the first step is always the trigger
+  const outputs = steps.slice(1).map(step => step.outputs || {})
+  // a step which fails can stop the steps after it, the run is still an error
+  const failed = outputs.some(
+    output =>
+      output.success === false &&
+      output.status !== SKIPPED_STATUS &&
+      output.status !== STOPPED_STATUS
+  )
+  if (failed) {
+    return AutomationLogStatus.ERROR
+  }
+  return outputs.some(output => output.status === STOPPED_STATUS)
+    ? AutomationLogStatus.STOPPED
+    : AutomationLogStatus.SUCCESS
+}
+
+function getErrorMessage(error) {
+  if (typeof error === "string") {
+    return error
+  }
+  return error.message || JSON.stringify(error)
+}
+
+function toISODate(date) {
+  if (!date) {
+    return null
+  }
+  const parsed = new Date(date)
+  if (isNaN(parsed.getTime())) {
+    throw `Invalid date "${date}" for automation logs.`
+  }
+  return parsed.toISOString()
+}
+
+// the date of the run is the second last part of the log ID
+function getLogDate(logId) {
+  return logId.split(SEPARATOR).slice(-2)[0]
+}
+
+/**
+ * Removes the logs of an automation which are older than the retention period, or which are
+ * beyond the maximum number of runs which are kept.
+ * @param {string} automationId The ID of the automation to remove logs for.
+ */
+async function pruneLogs(automationId) {
+  const db = getAppDB()
+  const maxRuns = env.AUTOMATION_LOG_MAX_RUNS || DEFAULT_MAX_RUNS
+  const retentionDays =
+    env.AUTOMATION_LOG_RETENTION_DAYS || DEFAULT_RETENTION_DAYS
+  const oldest = new Date(Date.now() - retentionDays * DAY_MS).toISOString()
+  // logs are returned in the order they ran, oldest first
+  const { rows } = await db.allDocs(getAutomationLogParams(automationId))
+  const expired = rows.filter(
+    (row, index) => index < rows.length - maxRuns || getLogDate(row.id) < oldest
+  )
+  if (expired.length) {
+    await db.bulkDocs(
+      expired.map(row => ({ _id: row.id, _rev: row.value.rev, _deleted: true }))
+    )
+  }
+}
+
+/**
+ * Stores the log of an automation run, along with the trigger data it ran with so that it
+ * can be replayed.
+ * @param {object} data The job data of the run, the automation, the event which triggered
+ * it and the log being replayed if this run is a replay.
+ * @param {object|undefined} output The execution output of the orchestrator.
+ * @param {number} startedAt The time the run started.
+ * @param {any} error The error which stopped the run, if it failed.
+ * @return {Promise<object>} The stored log.
+ */
+exports.storeLog = async (
+  { automation, event, replayOf },
+  output,
+  { startedAt, error }
+) => {
+  const db = getAppDB()
+  const createdAt = new Date(startedAt).toISOString()
+  const steps = (output && output.steps) || []
+  const log = {
+    _id: generateAutomationLogID(automation._id, createdAt),
+    automationId: automation._id,
+    automationName: automation.name,
+    status: getStatus(steps, error),
+    createdAt,
+    duration: Date.now() - startedAt,
+    event,
+    steps,
+  }
+  if (error) {
+    log.error = getErrorMessage(error)
+  }
+  if (replayOf) {
+    log.replayOf = replayOf
+  }
+  await db.put(log)
+  await pruneLogs(automation._id)
+  return log
+}
+
+/**
+ * Retrieves the logs of an automation, the most recent first.
+ * @param {string} automationId The ID of the automation to retrieve logs for.
+ * @param {string|undefined} status Only retrieve logs with this status.
+ * @param {string|undefined} startDate Only retrieve runs which started after this date.
+ * @param {string|undefined} endDate Only retrieve runs which started before this date.
+ * @param {number|undefined} limit The number of logs to retrieve.
+ * @param {string|undefined} bookmark The ID of the last log of the previous page.
+ * @return {Promise<{data: object[], hasNextPage: boolean, bookmark: string|undefined}>}
+ */
+exports.fetchLogs = async (
+  automationId,
+  { status, startDate, endDate, limit, bookmark } = {}
+) => {
+  const db = getAppDB()
+  limit = parseInt(limit) || DEFAULT_PAGE_SIZE
+  const range = getAutomationLogParams(
+    automationId,
+    toISODate(startDate),
+    toISODate(endDate)
+  )
+  if (bookmark && (bookmark < range.startkey || bookmark > range.endkey)) {
+    throw "Invalid bookmark for automation logs."
+  }
+  const logs = []
+  // most recent first, so the range is reversed
+  let params = {
+    include_docs: true,
+    descending: true,
+    startkey: bookmark || range.endkey,
+    endkey: range.startkey,
+    limit: limit + 1,
+    skip: bookmark ? 1 : 0,
+  }
+  // logs are filtered by status after retrieval, keep going until the page is full
+  while (logs.length <= limit) {
+    const { rows } = await db.allDocs(params)
+    logs.push(
+      ...rows
+        .map(row => row.doc)
+        .filter(log => !status || log.status === status)
+    )
+    if (rows.length < params.limit) {
+      break
+    }
+    params = { ...params, startkey: rows[rows.length - 1].id, skip: 1 }
+  }
+  const hasNextPage = logs.length > limit
+  const data = logs.slice(0, limit)
+  return {
+    data,
+    hasNextPage,
+    bookmark: hasNextPage ? data[data.length - 1]._id : undefined,
+  }
+}
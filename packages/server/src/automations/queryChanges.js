@@ -0,0 +1,104 @@
+const queryController = require("../api/controllers/query")
+const { buildCtx } = require("./steps/utils")
+const { diffRows } = require("./cdc/utils")
+const { MetadataTypes } = require("../constants")
+const { generateMetadataID } = require("../db/utils")
+const { updateEntityMetadata } = require("../utilities")
+const { getAppDB } = require("@budibase/backend-core/context")
+
+// the snapshot is stored in the app, larger results aren't compared
+const MAX_SNAPSHOT_RECORDS = 5000
+const JOB_OPTS = {
+  removeOnComplete: true,
+  removeOnFail: true,
+}
+
+const CHANGES = {
+  "row:save": "added",
+  "row:update": "changed",
+  "row:delete": "removed",
+}
+
+async function runQuery(appId, query) {
+  const { queryId, ...parameters } = query
+  const ctx = buildCtx(appId, null, {
+    body: { parameters },
+    params: { queryId },
+  })
+  // the result is compared to the last run, a cached result would hide any changes
+  await queryController.executeWithoutCache(ctx)
+  const data = ctx.body.data
+  return Array.isArray(data) ? data : [data]
+}
+
+async function getSnapshot(automationId) {
+  const db = getAppDB()
+  try {
+    return await db.get(
+      generateMetadataID(MetadataTypes.AUTOMATION_QUERY_SNAPSHOT, automationId)
+    )
+  } catch (err) {
+    return null
+  }
+}
+
+/**
+ * Runs the query of a query changed trigger and compares the result to the last time it
+ * was run, the automation is queued once for each record which has been added, changed
+ * or removed. The first run only records the result, as there is nothing to compare to.
+ * @param {object} queue The queue the automations are run from.
+ * @param {object} job The scheduled job of the trigger.
+ * @return {Promise<object[]>} The changes which were found.
+ */
+exports.checkQueryChanges = async (queue, job) => {
+  const { automation, event } = job.data
+  const { query, key } = automation.definition.trigger.inputs
+  const records = (await runQuery(event.appId, query)).filter(
+    record => record && record[key] != null
+  )
+  if (records.length > MAX_SNAPSHOT_RECORDS) {
+    throw `Query returned more than ${MAX_SNAPSHOT_RECORDS} records, unable to check for changes.`
+  }
+  // records with the same key would replace each other, and appear to change on every check
+  const keys = new Set(records.map(record => `${record[key]}`))
+  if (keys.size !== records.length) {
+    throw `Query returned more than one record with the same "${key}", the key must be unique to check for changes.`
+  }
+  const snapshot = await getSnapshot(automation._id)
+  // the snapshot is reset if the key has been changed
+  const previous =
+    snapshot && snapshot.key === key
+      ? new Map(Object.entries(snapshot.records))
+      : null
+  const { changes, current } = diffRows(
+    previous || new Map(),
+    records,
+    record => `${record[key]}`
+  )
+  const triggered = !previous
+    ? []
+    : changes.map(change => ({
+        change: CHANGES[change.event],
+        key: `${change.row[key]}`,
+        record: change.row,
+        previous: change.previous,
+      }))
+  for (let output of triggered) {
+    await queue.add(
+      { automation, event: { ...output, appId: event.appId } },
+      JOB_OPTS
+    )
+  }
+  // nothing has changed since the snapshot was saved
+  if (previous && !changes.length) {
+    return triggered
+  }
+  // the snapshot is only saved once the changes have been queued, if queueing fails the
+  // changes are found again by the next check
+  await updateEntityMetadata(
+    MetadataTypes.AUTOMATION_QUERY_SNAPSHOT,
+    automation._id,
+    () => ({ key, records: Object.fromEntries(current) })
+  )
+  return triggered
+}
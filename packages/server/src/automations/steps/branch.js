@@ -0,0 +1,103 @@
+const {
+  FilterConditions,
+  PrettyFilterConditions,
+  compare,
+} = require("./filter")
+const automationUtils = require("../automationUtils")
+
+const BranchOptions = {
+  IF: "If",
+  SWITCH: "Switch",
+}
+
+exports.BranchOptions = BranchOptions
+
+exports.definition = {
+  name: "Branch",
+  tagline: "Branch on {{inputs.field}}",
+  icon: "Branch3",
+  description:
+    "Run a different set of steps depending on a condition (if/else) or a value (switch)",
+  type: "LOGIC",
+  internal: true,
+  stepId: "BRANCH",
+  inputs: {
+    option: BranchOptions.IF,
+    condition: FilterConditions.EQUAL,
+  },
+  schema: {
+    inputs: {
+      properties: {
+        option: {
+          type: "string",
+          title: "Branch type",
+          enum: Object.values(BranchOptions),
+        },
+        field: {
+          type: "string",
+          title: "Reference Value",
+        },
+        condition: {
+          type: "string",
+          title: "Condition",
+          enum: Object.values(FilterConditions),
+          pretty: Object.values(PrettyFilterConditions),
+        },
+        value: {
+          type: "string",
+          title: "Comparison Value",
+        },
+        cases: {
+          type: "string",
+          title: "Switch cases (comma separated)",
+        },
+      },
+      required: ["option", "field"],
+    },
+    outputs: {
+      properties: {
+        branch: {
+          type: "string",
+          description:
+            "The branch which ran - Then or Else for if/else, the matching case or Default for a switch",
+        },
+        branchIndex: {
+          type: "number",
+          description: "The position of the branch which ran",
+        },
+        success: {
+          type: "boolean",
+          description: "Whether the branch was chosen",
+        },
+      },
+      required: ["branch", "branchIndex", "success"],
+    },
+  },
+}
+
+/**
+ * Chooses the branch to run, the steps of each branch are held on the step (step.branches)
+ * and are run by the orchestrator. For if/else the first branch is run when the condition
+ * passes and the second when it fails, for a switch the branch of the first matching case
+ * is run, with a final default branch when no case matches.
+ */
+exports.run = async function branch({ inputs }) {
+  const { option, field, condition, value, cases } = inputs
+  if (option === BranchOptions.SWITCH) {
+    const values = automationUtils
+      .stringSplit(cases)
+      .map(caseValue => caseValue.trim())
+    const index = values.findIndex(caseValue =>
+      compare(field, FilterConditions.EQUAL, caseValue)
+    )
+    return index === -1
+      ? { branch: "Default", branchIndex: values.length, success: true }
+      : { branch: values[index], branchIndex: index, success: true }
+  }
+  const passed = compare(field, condition || FilterConditions.EQUAL, value)
+  return {
+    branch: passed ? "Then" : "Else",
+    branchIndex: passed ? 0 : 1,
+    success: true,
+  }
+}
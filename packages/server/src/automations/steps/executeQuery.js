@@ -44,6 +44,11 @@ exports.definition = {
           type: "boolean",
           description: "Whether the action was successful",
         },
+        retryable: {
+          type: "boolean",
+          description:
+            "Whether the query failed temporarily (e.g. a timeout) and may succeed if retried",
+        },
       },
     },
     required: ["response", "success"],
@@ -84,6 +89,7 @@ exports.run = async function ({ inputs, appId, emitter }) {
       success: false,
       info: {},
       response: automationUtils.getError(err),
+      retryable: automationUtils.isTransientError(err),
     }
   }
 }
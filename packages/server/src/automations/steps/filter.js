@@ -59,8 +59,11 @@ exports.definition = {
   },
 }
 
-exports.run = async function filter({ inputs }) {
-  let { field, condition, value } = inputs
+/**
+ * Compares the reference value to the comparison value, numbers and dates are coerced so
+ * that they can be compared.
+ */
+exports.compare = (field, condition, value) => {
   // coerce types so that we can use them
   if (!isNaN(value) && !isNaN(field)) {
     value = parseFloat(value)
@@ -88,5 +91,10 @@ exports.run = async function filter({ inputs }) {
   } else {
     success = false
   }
-  return { success }
+  return success
+}
+
+exports.run = async function filter({ inputs }) {
+  const { field, condition, value } = inputs
+  return { success: exports.compare(field, condition, value) }
 }
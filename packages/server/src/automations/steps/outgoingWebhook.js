@@ -70,6 +70,11 @@ exports.definition = {
           type: "boolean",
           description: "Whether the action was successful",
         },
+        retryable: {
+          type: "boolean",
+          description:
+            "Whether the request failed temporarily (e.g. a connection reset) and may succeed if retried",
+        },
       },
       required: ["response", "success"],
     },
@@ -124,10 +129,10 @@ exports.run = async function ({ inputs }) {
       success: status >= 200 && status <= 206,
     }
   } catch (err) {
-    /* istanbul ignore next */
     return {
       success: false,
       response: automationUtils.getError(err),
+      retryable: automationUtils.isTransientError(err),
     }
   }
 }
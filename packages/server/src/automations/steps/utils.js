@@ -1,3 +1,5 @@
+const { SYSTEM_USER } = require("../../api/controllers/row/rowSecurity")
+
 exports.getFetchResponse = async fetched => {
   let status = fetched.status,
     message
@@ -17,10 +19,11 @@ exports.getFetchResponse = async fetched => {
 // need to make sure all ctx structures have the
 // throw added to them, so that controllers don't
 // throw a ctx.throw undefined when error occurs
+// automations aren't run by a user, they can access all of the rows of tables with row security
 exports.buildCtx = (appId, emitter, { body, params } = {}) => {
   const ctx = {
     appId,
-    user: { appId },
+    user: SYSTEM_USER,
     eventEmitter: emitter,
     throw: (code, error) => {
       throw error
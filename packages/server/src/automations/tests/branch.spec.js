@@ -0,0 +1,87 @@
+const setup = require("./utilities")
+const runAutomation = require("../../threads/automation")
+const { FilterConditions } = require("../steps/filter")
+const { BranchOptions } = require("../steps/branch")
+
+describe("test the branch logic", () => {
+  let config = setup.getConfig()
+
+  beforeEach(async () => {
+    await config.init()
+  })
+
+  afterAll(setup.afterAll)
+
+  async function checkBranch(inputs, branch, branchIndex) {
+    const res = await setup.runStep(setup.actions.BRANCH.stepId, inputs)
+    expect(res.success).toEqual(true)
+    expect(res.branch).toEqual(branch)
+    expect(res.branchIndex).toEqual(branchIndex)
+  }
+
+  it("should choose the branch of an if/else", async () => {
+    const inputs = {
+      option: BranchOptions.IF,
+      condition: FilterConditions.GREATER_THAN,
+      value: "5",
+    }
+    await checkBranch({ ...inputs, field: "10" }, "Then", 0)
+    await checkBranch({ ...inputs, field: "1" }, "Else", 1)
+  })
+
+  it("should choose the branch of a switch", async () => {
+    const inputs = { option: BranchOptions.SWITCH, cases: "red, green, blue" }
+    await checkBranch({ ...inputs, field: "green" }, "green", 1)
+    await checkBranch({ ...inputs, field: "pink" }, "Default", 3)
+  })
+
+  it("should only run the steps of the chosen branch", async () => {
+    const logStep = id => ({
+      id,
+      stepId: setup.actions.SERVER_LOG.stepId,
+      inputs: { text: "log" },
+      schema: setup.actions.SERVER_LOG.schema,
+    })
+    const automation = {
+      definition: {
+        trigger: { id: "trigger", stepId: "APP" },
+        steps: [
+          {
+            id: "if",
+            stepId: setup.actions.BRANCH.stepId,
+            inputs: {
+              option: BranchOptions.IF,
+              field: "{{ trigger.fields.colour }}",
+              condition: FilterConditions.EQUAL,
+              value: "red",
+            },
+            schema: setup.actions.BRANCH.schema,
+            branches: [{ steps: [logStep("then")] }, { steps: [logStep("else")] }],
+          },
+          {
+            // nested steps are numbered after the branch step, so this is step 4
+            id: "switch",
+            stepId: setup.actions.BRANCH.stepId,
+            inputs: {
+              option: BranchOptions.SWITCH,
+              field: "{{ steps.1.branch }}",
+              cases: "Then,Else",
+            },
+            schema: setup.actions.BRANCH.schema,
+          },
+        ],
+      },
+    }
+    const response = await new Promise((resolve, reject) => {
+      const event = { appId: config.getAppId(), fields: { colour: "red" } }
+      runAutomation({ data: { automation, event } }, (err, response) =>
+        err ? reject(err) : resolve(response)
+      )
+    })
+    const outputs = response.steps.slice(1).map(step => step.outputs)
+    expect(outputs[0].branch).toEqual("Then")
+    expect(outputs[1].success).toEqual(true)
+    expect(outputs[2].status).toEqual("SKIPPED")
+    expect(outputs[3].branch).toEqual("Then")
+  })
+})
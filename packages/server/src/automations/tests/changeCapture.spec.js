@@ -0,0 +1,169 @@
+jest.mock("pg")
+const pg = require("pg")
+const { Client, utils } = require("@budibase/backend-core/redis")
+const {
+  diffRows,
+  getRowId,
+  lockWatcher,
+  unlockWatcher,
+} = require("../cdc/utils")
+const { PostgresWatcher } = require("../cdc/postgres")
+const { MySQLWatcher } = require("../cdc/mysql")
+
+const table = {
+  _id: "datasource_plus_pg__users",
+  name: "users",
+  primary: ["id"],
+  changeCapture: true,
+  schema: {},
+}
+
+describe("change capture", () => {
+  describe("diffRows", () => {
+    const getKey = row => row._id
+
+    it("finds rows which have been created, updated and deleted", () => {
+      const { current } = diffRows(
+        new Map(),
+        [
+          { _id: "1", name: "Bert" },
+          { _id: "2", name: "Ernie" },
+        ],
+        getKey
+      )
+      const { changes } = diffRows(
+        current,
+        [
+          { _id: "1", name: "Bert" },
+          { _id: "2", name: "Big Bird" },
+          { _id: "3", name: "Elmo" },
+        ],
+        getKey
+      )
+      expect(changes).toEqual([
+        {
+          event: "row:update",
+          row: { _id: "2", name: "Big Bird" },
+          previous: { _id: "2", name: "Ernie" },
+        },
+        { event: "row:save", row: { _id: "3", name: "Elmo" } },
+      ])
+      expect(diffRows(current, [], getKey).changes).toEqual([
+        { event: "row:delete", row: { _id: "1", name: "Bert" } },
+        { event: "row:delete", row: { _id: "2", name: "Ernie" } },
+      ])
+    })
+  })
+
+  describe("lockWatcher", () => {
+    it("only lets one process watch a datasource", async () => {
+      expect(await lockWatcher("app/datasource1", 30)).toEqual(true)
+      // the process holding the lock can renew it
+      expect(await lockWatcher("app/datasource1", 30)).toEqual(true)
+      const redis = await new Client(utils.Databases.DEBOUNCE).init()
+      await redis.store("cdc_lock_app/datasource2", "cdc_other", 30)
+      expect(await lockWatcher("app/datasource2", 30)).toEqual(false)
+      // the lock can only be released by the process holding it
+      await unlockWatcher("app/datasource2")
+      expect(await redis.get("cdc_lock_app/datasource2")).toEqual("cdc_other")
+      await unlockWatcher("app/datasource1")
+      expect(await redis.get("cdc_lock_app/datasource1")).toBeNull()
+    })
+  })
+
+  describe("postgres", () => {
+    beforeEach(() => {
+      jest.clearAllMocks()
+    })
+
+    function notify(payload) {
+      const [, listener] = pg.on.mock.calls.find(
+        ([event]) => event === "notification"
+      )
+      listener({ channel: "budibase_changes", payload: JSON.stringify(payload) })
+    }
+
+    it("adds a trigger to the captured tables", async () => {
+      const watcher = new PostgresWatcher({ config: { schema: "public" } })
+      await watcher.poll([table], [table, { ...table, name: "products" }])
+      const queries = pg.queryMock.mock.calls.map(([sql]) => sql)
+      expect(queries).toContain("LISTEN budibase_changes")
+      expect(queries).toContain(
+        `drop trigger if exists budibase_changes on "public"."products"`
+      )
+      expect(
+        queries.find(sql => sql.startsWith("create trigger"))
+      ).toContain(`on "public"."users"`)
+    })
+
+    it("removes the triggers once changes aren't captured", async () => {
+      const watcher = new PostgresWatcher({ config: { schema: "public" } })
+      await watcher.removeTriggers([table, { ...table, readonly: true }])
+      const queries = pg.queryMock.mock.calls.map(([sql]) => sql)
+      expect(queries).toEqual([
+        `drop trigger if exists budibase_changes on "public"."users"`,
+        "drop function if exists budibase_notify_change()",
+      ])
+    })
+
+    it("emits deleted rows from notifications", async () => {
+      const watcher = new PostgresWatcher({ config: { schema: "public" } })
+      await watcher.poll([table], [table])
+      notify({
+        schema: "public",
+        table: "users",
+        operation: "DELETE",
+        keys: { id: 1 },
+        row: { id: 1, name: "Bert" },
+      })
+      const changes = await watcher.poll([table], [table])
+      expect(changes).toEqual([
+        {
+          event: "row:delete",
+          table,
+          row: {
+            id: 1,
+            name: "Bert",
+            _id: getRowId(table, { id: 1 }),
+            tableId: table._id,
+          },
+        },
+      ])
+      expect(await watcher.poll([table], [table])).toEqual([])
+    })
+  })
+
+  describe("mysql", () => {
+    function event(Pos, Event_type, Info = "") {
+      return { Pos, End_log_pos: Pos + 10, Event_type, Info }
+    }
+
+    const transaction = [
+      event(100, "Query", "BEGIN"),
+      event(110, "Table_map", "table_id: 108 (test.users)"),
+      event(120, "Write_rows_v1", "table_id: 108 flags: STMT_END_F"),
+      event(130, "Xid", "COMMIT /* xid=10 */"),
+    ]
+
+    function mockBinlog(watcher, events) {
+      watcher.query = jest.fn(async sql =>
+        sql === "SHOW BINARY LOGS" ? [{ Log_name: "binlog.000001" }] : events
+      )
+    }
+
+    it("only moves the position forward at the end of a transaction", async () => {
+      const watcher = new MySQLWatcher({ config: { database: "test" } })
+      watcher.position = { file: "binlog.000001", position: 100 }
+      // the events read were cut off part way through the transaction
+      mockBinlog(watcher, transaction.slice(0, 2))
+      expect(await watcher.getChangedTables()).toEqual(new Set())
+      expect(watcher.position.position).toEqual(100)
+      mockBinlog(watcher, transaction)
+      expect(await watcher.getChangedTables()).toEqual(new Set(["users"]))
+      expect(watcher.position.position).toEqual(140)
+      expect(watcher.query).toHaveBeenCalledWith(
+        "SHOW BINLOG EVENTS IN 'binlog.000001' FROM 100 LIMIT 10000"
+      )
+    })
+  })
+})
@@ -0,0 +1,124 @@
+jest.mock("node-fetch")
+jest.mock("../steps/executeQuery", () => ({
+  ...jest.requireActual("../steps/executeQuery"),
+  run: jest.fn(),
+}))
+const executeQuery = require("../steps/executeQuery")
+const setup = require("./utilities")
+const runAutomation = require("../../threads/automation")
+const { BranchOptions } = require("../steps/branch")
+
+describe("test the step error handling", () => {
+  let config = setup.getConfig()
+
+  beforeEach(async () => {
+    await config.init()
+    executeQuery.run.mockReset()
+  })
+
+  afterAll(setup.afterAll)
+
+  function queryStep(onError) {
+    return {
+      id: "query",
+      stepId: setup.actions.EXECUTE_QUERY.stepId,
+      inputs: { query: { queryId: "query_1" } },
+      schema: setup.actions.EXECUTE_QUERY.schema,
+      onError,
+    }
+  }
+
+  const logStep = {
+    id: "log",
+    stepId: setup.actions.SERVER_LOG.stepId,
+    inputs: { text: "log" },
+    schema: setup.actions.SERVER_LOG.schema,
+  }
+
+  // checks the error is in the context of the on error steps
+  const errorStep = {
+    id: "error",
+    stepId: setup.actions.BRANCH.stepId,
+    inputs: {
+      option: BranchOptions.SWITCH,
+      field: "{{ error.message }}",
+      cases: "Query failed",
+    },
+    schema: setup.actions.BRANCH.schema,
+  }
+
+  async function run(steps) {
+    const automation = {
+      definition: { trigger: { id: "trigger", stepId: "APP" }, steps },
+    }
+    const response = await new Promise((resolve, reject) => {
+      const event = { appId: config.getAppId(), fields: {} }
+      runAutomation({ data: { automation, event } }, (err, response) =>
+        err ? reject(err) : resolve(response)
+      )
+    })
+    return response.steps.slice(1).map(step => step.outputs)
+  }
+
+  it("should retry a step which fails", async () => {
+    executeQuery.run
+      .mockRejectedValueOnce("Query failed")
+      .mockResolvedValueOnce({ success: false, httpStatus: 503 })
+      .mockResolvedValueOnce({ success: true, response: [] })
+    const outputs = await run([
+      queryStep({ retries: 2, backoff: 0, steps: [errorStep] }),
+      logStep,
+    ])
+    expect(executeQuery.run).toHaveBeenCalledTimes(3)
+    expect(outputs[0].success).toEqual(true)
+    expect(outputs[1].status).toEqual("SKIPPED")
+    expect(outputs[2].success).toEqual(true)
+  })
+
+  it("should retry a step which had a connection reset", async () => {
+    const outputs = await run([
+      {
+        id: "webhook",
+        stepId: setup.actions.OUTGOING_WEBHOOK.stepId,
+        inputs: { requestMethod: "GET", url: "www.resetonce.com" },
+        schema: setup.actions.OUTGOING_WEBHOOK.schema,
+        onError: { retries: 1, backoff: 0 },
+      },
+      logStep,
+    ])
+    expect(outputs[0].success).toEqual(true)
+    expect(outputs[0].response.resets).toEqual(1)
+    expect(outputs[1].success).toEqual(true)
+  })
+
+  it("should not retry a step which reports a failure", async () => {
+    executeQuery.run.mockResolvedValue({ success: false, response: "failed" })
+    const outputs = await run([
+      queryStep({ retries: 2, backoff: 0, steps: [errorStep] }),
+      logStep,
+    ])
+    expect(executeQuery.run).toHaveBeenCalledTimes(1)
+    expect(outputs[0].success).toEqual(false)
+    expect(outputs[2].status).toEqual("STOPPED")
+  })
+
+  it("should run the on error steps and stop when retries run out", async () => {
+    executeQuery.run.mockRejectedValue("Query failed")
+    const outputs = await run([
+      queryStep({ retries: 1, backoff: 0, steps: [errorStep] }),
+      logStep,
+    ])
+    expect(executeQuery.run).toHaveBeenCalledTimes(2)
+    expect(outputs[0]).toEqual({ success: false, error: "Query failed" })
+    expect(outputs[1].branch).toEqual("Query failed")
+    expect(outputs[2].status).toEqual("STOPPED")
+  })
+
+  it("should carry on after a failed step if the policy is to continue", async () => {
+    executeQuery.run.mockResolvedValue({ success: false, response: "failed" })
+    const outputs = await run([queryStep({ policy: "continue" }), logStep])
+    expect(executeQuery.run).toHaveBeenCalledTimes(1)
+    expect(outputs[0].success).toEqual(false)
+    expect(outputs[1].success).toEqual(true)
+  })
+})
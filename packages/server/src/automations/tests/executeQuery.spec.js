@@ -0,0 +1,48 @@
+jest.mock("../../api/controllers/query", () => ({
+  executeV1: jest.fn(),
+}))
+const queryController = require("../../api/controllers/query")
+const setup = require("./utilities")
+
+describe("test the execute query action", () => {
+  let config = setup.getConfig()
+
+  beforeEach(async () => {
+    await config.init()
+    queryController.executeV1.mockReset()
+  })
+
+  afterAll(setup.afterAll)
+
+  function runQuery() {
+    return setup.runStep(setup.actions.EXECUTE_QUERY.stepId, {
+      query: { queryId: "query_1" },
+    })
+  }
+
+  it("should be able to run the action", async () => {
+    queryController.executeV1.mockImplementation(async ctx => {
+      ctx.body = [{ a: 1 }]
+    })
+    const res = await runQuery()
+    expect(res.success).toEqual(true)
+    expect(res.response).toEqual([{ a: 1 }])
+  })
+
+  it("should mark a query which timed out as retryable", async () => {
+    const err = new Error("Query response time exceeded 10000ms timeout.")
+    err.code = "ETIMEDOUT"
+    queryController.executeV1.mockRejectedValue(err)
+    const res = await runQuery()
+    expect(res.success).toEqual(false)
+    expect(res.retryable).toEqual(true)
+  })
+
+  it("should not mark a query error as retryable", async () => {
+    queryController.executeV1.mockRejectedValue("Invalid SQL")
+    const res = await runQuery()
+    expect(res.success).toEqual(false)
+    expect(res.response).toEqual("Invalid SQL")
+    expect(res.retryable).toEqual(false)
+  })
+})
@@ -36,4 +36,13 @@ describe("test the outgoing webhook action", () => {
     expect(res.success).toEqual(false)
   })
 
+  it("should mark a connection reset as retryable", async () => {
+    const res = await setup.runStep(setup.actions.OUTGOING_WEBHOOK.stepId, {
+      requestMethod: "GET",
+      url: "www.reset.com"
+    })
+    expect(res.success).toEqual(false)
+    expect(res.retryable).toEqual(true)
+  })
+
 })
@@ -0,0 +1,130 @@
+jest.mock("../../api/controllers/query", () => ({
+  executeWithoutCache: jest.fn(),
+}))
+const queryController = require("../../api/controllers/query")
+const {
+  doInAppContext,
+  getAppDB,
+} = require("@budibase/backend-core/context")
+const { doInTenant } = require("@budibase/backend-core/tenancy")
+const { TENANT_ID } = require("../../tests/utilities/structures")
+const { checkQueryChanges } = require("../queryChanges")
+const { generateMetadataID } = require("../../db/utils")
+const { MetadataTypes } = require("../../constants")
+const setup = require("./utilities")
+
+describe("test the query changed trigger", () => {
+  let config = setup.getConfig(),
+    queue,
+    job
+
+  beforeEach(async () => {
+    await config.init()
+    queue = { add: jest.fn() }
+    job = {
+      data: {
+        automation: {
+          _id: "au_query_changed",
+          definition: {
+            trigger: {
+              stepId: "QUERY_CHANGED",
+              inputs: {
+                query: { queryId: "query_1" },
+                key: "id",
+                cron: "* * * * *",
+              },
+            },
+          },
+        },
+        event: { appId: config.getAppId() },
+      },
+    }
+  })
+
+  afterAll(setup.afterAll)
+
+  function queryReturns(data) {
+    queryController.executeWithoutCache.mockImplementationOnce(async ctx => {
+      ctx.body = { data }
+    })
+  }
+
+  function check() {
+    return doInTenant(TENANT_ID, () =>
+      doInAppContext(config.getAppId(), () => checkQueryChanges(queue, job))
+    )
+  }
+
+  function getSnapshot() {
+    const id = generateMetadataID(
+      MetadataTypes.AUTOMATION_QUERY_SNAPSHOT,
+      job.data.automation._id
+    )
+    return doInTenant(TENANT_ID, () =>
+      doInAppContext(config.getAppId(), () => getAppDB().get(id))
+    )
+  }
+
+  it("should only record the result the first time the query runs", async () => {
+    queryReturns([{ id: 1, name: "Bert" }])
+    expect(await check()).toEqual([])
+    expect(queue.add).not.toHaveBeenCalled()
+  })
+
+  it("should queue the automation for each record which has changed", async () => {
+    queryReturns([
+      { id: 1, name: "Bert" },
+      { id: 2, name: "Ernie" },
+    ])
+    await check()
+    queryReturns([
+      { id: 2, name: "Big Bird" },
+      { id: 3, name: "Elmo" },
+    ])
+    const changes = await check()
+    expect(changes).toEqual([
+      {
+        change: "changed",
+        key: "2",
+        record: { id: 2, name: "Big Bird" },
+        previous: { id: 2, name: "Ernie" },
+      },
+      { change: "added", key: "3", record: { id: 3, name: "Elmo" } },
+      { change: "removed", key: "1", record: { id: 1, name: "Bert" } },
+    ])
+    expect(queue.add).toHaveBeenCalledTimes(3)
+    const event = queue.add.mock.calls[0][0].event
+    expect(event.appId).toEqual(config.getAppId())
+    expect(event.change).toEqual("changed")
+  })
+
+  it("should not save the snapshot again if nothing has changed", async () => {
+    queryReturns([{ id: 1, name: "Bert" }])
+    await check()
+    const rev = (await getSnapshot())._rev
+    queryReturns([{ id: 1, name: "Bert" }])
+    expect(await check()).toEqual([])
+    expect((await getSnapshot())._rev).toEqual(rev)
+  })
+
+  it("should reject records with the same key", async () => {
+    queryReturns([
+      { id: 1, name: "Bert" },
+      { id: 1, name: "Ernie" },
+    ])
+    await expect(check()).rejects.toContain("the key must be unique")
+    expect(queue.add).not.toHaveBeenCalled()
+  })
+
+  it("should find the changes again if they couldn't be queued", async () => {
+    queryReturns([{ id: 1, name: "Bert" }])
+    await check()
+    queryReturns([{ id: 1, name: "Ernie" }])
+    queue.add.mockRejectedValueOnce(new Error("Queue unavailable"))
+    await expect(check()).rejects.toThrow("Queue unavailable")
+    queryReturns([{ id: 1, name: "Ernie" }])
+    const changes = await check()
+    expect(changes.map(change => change.change)).toEqual(["changed"])
+    expect(queue.add).toHaveBeenCalledTimes(2)
+  })
+})
@@ -1,5 +1,6 @@
 const env = require("../../environment")
 const setup = require("./utilities")
+const { basicTable } = require("../../tests/utilities/structures")
 
 describe("test the update row action", () => {
   let table, row, inputs
@@ -30,6 +31,21 @@ describe("test the update row action", () => {
     expect(updatedRow.description).not.toEqual("")
   })
 
+  it("should update rows of a table with row security", async () => {
+    table = await config.createTable({
+      ...basicTable(),
+      rowSecurity: [{ column: "name", userAttribute: "email" }],
+    })
+    row = await config.createRow({ tableId: table._id, name: "test" })
+    const res = await setup.runStep(setup.actions.UPDATE_ROW.stepId, {
+      rowId: row._id,
+      row: { ...row, name: "Updated name" },
+    })
+    expect(res.success).toEqual(true)
+    const updatedRow = await config.getRow(table._id, res.id)
+    expect(updatedRow.name).toEqual("Updated name")
+  })
+
   it("should check invalid inputs return an error", async () => {
     const res = await setup.runStep(setup.actions.UPDATE_ROW.stepId, {})
     expect(res.success).toEqual(false)
@@ -4,6 +4,7 @@ const rowDeleted = require("./rowDeleted")
 const rowSaved = require("./rowSaved")
 const rowUpdated = require("./rowUpdated")
 const webhook = require("./webhook")
+const queryChanged = require("./queryChanged")
 
 exports.definitions = {
   ROW_SAVED: rowSaved.definition,
@@ -12,4 +13,5 @@ exports.definitions = {
   WEBHOOK: webhook.definition,
   APP: app.definition,
   CRON: cron.definition,
+  QUERY_CHANGED: queryChanged.definition,
 }
@@ -0,0 +1,60 @@
+exports.definition = {
+  name: "Query Changed",
+  event: "query:changed",
+  icon: "Data",
+  tagline: "Query result changes (<b>{{inputs.cron}}</b>)",
+  description:
+    "Runs a query on a cron schedule, triggering once for each record which is added, changed or removed",
+  stepId: "QUERY_CHANGED",
+  inputs: {},
+  schema: {
+    inputs: {
+      properties: {
+        query: {
+          type: "object",
+          properties: {
+            queryId: {
+              type: "string",
+              customType: "query",
+            },
+          },
+          customType: "queryParams",
+          title: "Query",
+          required: ["queryId"],
+        },
+        key: {
+          type: "string",
+          title: "Record key",
+        },
+        cron: {
+          type: "string",
+          customType: "cron",
+          title: "Expression",
+        },
+      },
+      required: ["query", "key", "cron"],
+    },
+    outputs: {
+      properties: {
+        change: {
+          type: "string",
+          description: "How the record changed - added, changed or removed",
+        },
+        key: {
+          type: "string",
+          description: "The key of the record",
+        },
+        record: {
+          type: "object",
+          description: "The record from the query, as it was before removal",
+        },
+        previous: {
+          type: "object",
+          description: "The record before it changed",
+        },
+      },
+      required: ["change", "key", "record"],
+    },
+  },
+  type: "TRIGGER",
+}
@@ -7,6 +7,7 @@ const { isDevAppID } = require("../db/utils")
 const { queue } = require("./bullboard")
 const { checkTestFlag } = require("../utilities/redis")
 const utils = require("./utils")
+const { recordWrite } = require("./cdc/utils")
 const env = require("../environment")
 const { doInAppContext, getAppDB } = require("@budibase/backend-core/context")
 
@@ -63,6 +64,7 @@ emitter.on("row:save", async function (event) {
   if (!event || !event.row || !event.row.tableId) {
     return
   }
+  await recordWrite("row:save", event)
   await queueRelevantRowAutomations(event, "row:save")
 })
 
@@ -71,6 +73,7 @@ emitter.on("row:update", async function (event) {
   if (!event || !event.row || !event.row.tableId) {
     return
   }
+  await recordWrite("row:update", event)
   await queueRelevantRowAutomations(event, "row:update")
 })
 
@@ -79,6 +82,7 @@ emitter.on("row:delete", async function (event) {
   if (!event || !event.row || !event.row.tableId) {
     return
   }
+  await recordWrite("row:delete", event)
   await queueRelevantRowAutomations(event, "row:delete")
 })
 
@@ -110,4 +114,17 @@ exports.externalTrigger = async function (
   }
 }
 
+/**
+ * Queues an automation to run again with the trigger data of a previous run.
+ * @param {object} automation The automation to run.
+ * @param {object} log The log of the run which is being replayed.
+ * @param {string} appId The ID of the app the automation belongs to.
+ */
+exports.replayTrigger = async function (automation, log, appId) {
+  const event = { ...log.event, appId }
+  // the replay is a new run, not a continuation of a chain
+  delete event.metadata
+  return queue.add({ automation, event, replayOf: log._id }, JOB_OPTS)
+}
+
 exports.TRIGGER_DEFINITIONS = TRIGGER_DEFINITIONS
@@ -2,19 +2,33 @@ import { Thread, ThreadType } from "../threads"
 import { definitions } from "./triggerInfo"
 import * as webhooks from "../api/controllers/webhook"
 import { queue } from "./bullboard"
+import { disableChangeCapture } from "./cdc"
+import { checkQueryChanges } from "./queryChanges"
 import newid from "../db/newid"
 import { updateEntityMetadata } from "../utilities"
 import { MetadataTypes, WebhookType } from "../constants"
 import { getProdAppID, doWithDB } from "@budibase/backend-core/db"
 import { cloneDeep } from "lodash/fp"
-import { getAppDB, getAppId } from "@budibase/backend-core/context"
+import {
+  doInAppContext,
+  getAppDB,
+  getAppId,
+} from "@budibase/backend-core/context"
 import { tenancy } from "@budibase/backend-core"
 import { quotas } from "@budibase/pro"
 
 const WH_STEP_ID = definitions.WEBHOOK.stepId
 const CRON_STEP_ID = definitions.CRON.stepId
+const QUERY_CHANGED_STEP_ID = definitions.QUERY_CHANGED.stepId
+// triggers which run on a cron schedule
+const SCHEDULED_STEP_IDS = [CRON_STEP_ID, QUERY_CHANGED_STEP_ID]
 const Runner = new Thread(ThreadType.AUTOMATION)
 
+function isQueryCheck(job: any) {
+  const trigger = job.data.automation.definition.trigger
+  return trigger?.stepId === QUERY_CHANGED_STEP_ID && !job.data.event.change
+}
+
 export async function processEvent(job: any) {
   try {
     console.log(
@@ -22,6 +36,15 @@ export async function processEvent(job: any) {
     )
     // need to actually await these so that an error can be captured properly
     const tenantId = tenancy.getTenantIDFromAppID(job.data.event.appId)
+    // the schedule of a query changed trigger checks the query, the automation is
+    // then queued for each change
+    if (isQueryCheck(job)) {
+      return await tenancy.doInTenant(tenantId, () =>
+        doInAppContext(job.data.event.appId, () =>
+          checkQueryChanges(queue, job)
+        )
+      )
+    }
     return await tenancy.doInTenant(tenantId, async () => {
       const runFn = () => Runner.run(job)
       return quotas.addAutomation(runFn)
@@ -93,7 +116,7 @@ export async function enableCronTrigger(appId: any, automation: any) {
     return (
       auto &&
       auto.definition.trigger &&
-      auto.definition.trigger.stepId === CRON_STEP_ID
+      SCHEDULED_STEP_IDS.includes(auto.definition.trigger.stepId)
     )
   }
   // need to create cron job
@@ -197,10 +220,12 @@ export async function checkForWebhooks({ oldAuto, newAuto }: any) {
 }
 
 /**
- * When removing an app/unpublishing it need to make sure automations are cleaned up (cron).
+ * When removing an app/unpublishing it need to make sure automations are cleaned up (cron and
+ * change capture).
  * @param appId {string} the app that is being removed.
  * @return {Promise<void>} clean is complete if this succeeds.
  */
 export async function cleanupAutomations(appId: any) {
   await disableAllCrons(appId)
+  await disableChangeCapture(appId)
 }
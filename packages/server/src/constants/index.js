@@ -4,6 +4,8 @@ const { ObjectStoreBuckets } = require("@budibase/backend-core/objectStore")
 
 exports.JobQueues = {
   AUTOMATIONS: "automationQueue",
+  EXPORTS: "exportQueue",
+  CHANGE_CAPTURE: "changeCaptureQueue",
 }
 
 const FilterTypes = {
@@ -82,6 +84,8 @@ exports.DataSourceOperation = {
   UPDATE: "UPDATE",
   DELETE: "DELETE",
   BULK_CREATE: "BULK_CREATE",
+  BULK_UPDATE: "BULK_UPDATE",
+  BULK_DELETE: "BULK_DELETE",
   CREATE_TABLE: "CREATE_TABLE",
   UPDATE_TABLE: "UPDATE_TABLE",
   DELETE_TABLE: "DELETE_TABLE",
@@ -96,6 +100,14 @@ exports.SortDirection = {
   DESCENDING: "DESCENDING",
 }
 
+exports.CalculationTypes = {
+  COUNT: "count",
+  SUM: "sum",
+  AVG: "avg",
+  MIN: "min",
+  MAX: "max",
+}
+
 exports.USERS_TABLE_SCHEMA = {
   _id: "ta_users",
   type: "table",
@@ -180,11 +192,13 @@ exports.BaseQueryVerbs = {
   READ: "read",
   UPDATE: "update",
   DELETE: "delete",
+  PROCEDURE: "procedure",
 }
 
 exports.MetadataTypes = {
   AUTOMATION_TEST_INPUT: "automationTestInput",
   AUTOMATION_TEST_HISTORY: "automationTestHistory",
+  AUTOMATION_QUERY_SNAPSHOT: "automationQuerySnapshot",
 }
 
 exports.InvalidColumns = {
@@ -208,6 +222,19 @@ exports.AutomationErrors = {
   FAILURE_CONDITION: "FAILURE_CONDITION_MET",
 }
 
+exports.AutomationLogStatus = {
+  SUCCESS: "success",
+  ERROR: "error",
+  STOPPED: "stopped",
+}
+
+exports.AutomationErrorPolicies = {
+  STOP: "stop",
+  CONTINUE: "continue",
+}
+
+exports.MAX_AUTOMATION_STEP_RETRIES = 10
+
 exports.LoopStepTypes = {
   ARRAY: "Array",
   STRING: "String",
@@ -31,6 +31,7 @@ const DocumentTypes = {
   ROW: "ro",
   USER: "us",
   AUTOMATION: "au",
+  AUTOMATION_LOG: "log_au",
   LINK: "li",
   WEBHOOK: "wh",
   INSTANCE: "inst",
@@ -215,6 +216,40 @@ exports.generateAutomationID = () => {
   return `${DocumentTypes.AUTOMATION}${SEPARATOR}${newid()}`
 }
 
+/**
+ * Generates a new automation log ID, the time of the run is part of the ID so that the logs of an
+ * automation are stored in the order they ran.
+ * @param {string} automationId The ID of the automation which ran.
+ * @param {string} isoDate The time the run started, as an ISO date string.
+ * @returns {string} The new automation log ID which the log doc can be stored under.
+ */
+exports.generateAutomationLogID = (automationId, isoDate) => {
+  return `${
+    DocumentTypes.AUTOMATION_LOG
+  }${SEPARATOR}${automationId}${SEPARATOR}${isoDate}${SEPARATOR}${newid()}`
+}
+
+/**
+ * Gets parameters for retrieving the logs of an automation, optionally between two dates.
+ * @param {string} automationId The ID of the automation to retrieve logs for.
+ * @param {string|null} startDate The earliest time of run to retrieve, as an ISO date string.
+ * @param {string|null} endDate The latest time of run to retrieve, as an ISO date string.
+ * @param {object} otherProps Add any other properties onto the request, e.g. include_docs.
+ */
+exports.getAutomationLogParams = (
+  automationId,
+  startDate = null,
+  endDate = null,
+  otherProps = {}
+) => {
+  const prefix = `${DocumentTypes.AUTOMATION_LOG}${SEPARATOR}${automationId}${SEPARATOR}`
+  return {
+    ...otherProps,
+    startkey: `${prefix}${startDate || ""}`,
+    endkey: `${prefix}${endDate || ""}${UNICODE_MAX}`,
+  }
+}
+
 /**
  * Generates a new link doc ID. This is currently not usable with the alldocs call,
  * instead a view is built to make walking to tree easier.
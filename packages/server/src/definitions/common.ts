@@ -1,3 +1,4 @@
+import { SearchFilters } from "./datasource"
 export { Query, Datasource } from "./datasource"
 
 export interface Base {
@@ -45,6 +46,16 @@ export interface TableSchema {
   [key: string]: FieldSchema
 }
 
+export interface RowSecurityRule {
+  // the roles the rule applies to, if not set the rule applies to all roles
+  roles?: string[]
+  // shorthand for a column which must equal an attribute of the user, e.g. their email
+  column?: string
+  userAttribute?: string
+  // the filters rows must match, values can be bound to the user, e.g. "{{ user.email }}"
+  filters?: SearchFilters
+}
+
 export interface Table extends Base {
   type?: string
   views?: {}
@@ -55,6 +66,12 @@ export interface Table extends Base {
   sourceId?: string
   relatedFormula?: string[]
   constrained?: string[]
+  // database views, these can't be written to
+  readonly?: boolean
+  // rows can only be read if they match one of the rules which apply to the user
+  rowSecurity?: RowSecurityRule[]
+  // changes made directly in the database emit row events, external tables only
+  changeCapture?: boolean
 }
 
 export interface Row extends Base {
@@ -6,6 +6,8 @@ export enum Operation {
   UPDATE = "UPDATE",
   DELETE = "DELETE",
   BULK_CREATE = "BULK_CREATE",
+  BULK_UPDATE = "BULK_UPDATE",
+  BULK_DELETE = "BULK_DELETE",
   CREATE_TABLE = "CREATE_TABLE",
   UPDATE_TABLE = "UPDATE_TABLE",
   DELETE_TABLE = "DELETE_TABLE",
@@ -16,12 +18,31 @@ export enum SortDirection {
   DESCENDING = "DESCENDING",
 }
 
+export enum CalculationType {
+  COUNT = "count",
+  SUM = "sum",
+  AVG = "avg",
+  MIN = "min",
+  MAX = "max",
+}
+
 export enum QueryTypes {
   SQL = "sql",
   JSON = "json",
   FIELDS = "fields",
 }
 
+export enum ProcedureParameterDirection {
+  IN = "in",
+  OUT = "out",
+  INOUT = "inout",
+}
+
+export enum StoredProcedureType {
+  PROCEDURE = "procedure",
+  FUNCTION = "function",
+}
+
 export enum DatasourceFieldTypes {
   STRING = "string",
   LONGFORM = "longForm",
@@ -51,6 +72,7 @@ export enum SourceNames {
   FIREBASE = "FIREBASE",
   REDIS = "REDIS",
   SNOWFLAKE = "SNOWFLAKE",
+  GRAPHQL = "GRAPHQL",
 }
 
 export enum IncludeRelationships {
@@ -130,15 +152,45 @@ export interface SearchFilters {
   oneOf?: {
     [key: string]: any[]
   }
+  // nested filters, each group is evaluated on its own (using its own allOr) and then
+  // combined with the other filters at this level
+  groups?: SearchFilters[]
 }
 
 export interface SortJson {
   [key: string]: SortDirection
 }
 
+export interface KeysetField {
+  column: string
+  direction: SortDirection
+  // the value of this column in the last row of the previous page
+  value?: any
+}
+
+export interface KeysetJson {
+  // the columns which together uniquely identify and order rows, e.g. sort column + primary key
+  fields: KeysetField[]
+}
+
 export interface PaginationJson {
   limit: number
   page?: string | number
+  // if specified keyset pagination is used rather than offsets (page)
+  keyset?: KeysetJson
+}
+
+export interface CalculationJson {
+  type: CalculationType
+  // not required for count, which will count all rows in the group
+  field?: string
+  // the name of the column the result is returned under
+  name: string
+}
+
+export interface AggregationJson {
+  calculations: CalculationJson[]
+  groupBy?: string[]
 }
 
 export interface RenameColumn {
@@ -169,6 +221,7 @@ export interface QueryJson {
   filters?: SearchFilters
   sort?: SortJson
   paginate?: PaginationJson
+  aggregation?: AggregationJson
   body?: Row | Row[]
   table?: Table
   meta?: {
@@ -178,6 +231,10 @@ export interface QueryJson {
   }
   extra?: {
     idFilter?: SearchFilters
+    // the filters identifying each row of a bulk update, in the same order as the body
+    rowFilters?: SearchFilters[]
+    // writes to related tables, carried out within the same transaction as a bulk delete
+    relatedWrites?: QueryJson[]
   }
   relationships?: RelationshipsJson[]
 }
@@ -203,18 +260,52 @@ export interface Datasource extends Base {
   entities?: {
     [key: string]: Table
   }
+  procedures?: StoredProcedure[]
+  // GraphQL only, the operations the API supports
+  introspection?: GraphQLIntrospection
+}
+
+export interface StoredProcedure {
+  name: string
+  type: StoredProcedureType
 }
 
 export enum AuthType {
   BASIC = "basic",
   BEARER = "bearer",
+  OAUTH2 = "oauth2",
+  API_KEY = "apiKey",
+  HMAC = "hmac",
+  CUSTOM = "custom",
+}
+
+export enum ApiKeyLocation {
+  HEADER = "header",
+  QUERY = "query",
 }
 
-interface AuthConfig {
+export enum HmacTimestampFormat {
+  SECONDS = "seconds",
+  MILLISECONDS = "milliseconds",
+  ISO = "iso",
+}
+
+export enum OAuth2GrantType {
+  CLIENT_CREDENTIALS = "client_credentials",
+  AUTHORIZATION_CODE = "authorization_code",
+}
+
+export interface AuthConfig {
   _id: string
   name: string
   type: AuthType
-  config: BasicAuthConfig | BearerAuthConfig
+  config:
+    | BasicAuthConfig
+    | BearerAuthConfig
+    | OAuth2AuthConfig
+    | ApiKeyAuthConfig
+    | HmacAuthConfig
+    | CustomAuthConfig
 }
 
 export interface BasicAuthConfig {
@@ -226,9 +317,67 @@ export interface BearerAuthConfig {
   token: string
 }
 
+export interface OAuth2AuthConfig {
+  grantType: OAuth2GrantType
+  tokenUrl: string
+  clientId: string
+  clientSecret?: string
+  // space separated, as they are sent to the token endpoint
+  scopes?: string
+  // authorization code grant only, the code is exchanged for a refresh token on first use
+  code?: string
+  redirectUri?: string
+  refreshToken?: string
+}
+
+export interface ApiKeyAuthConfig {
+  // the name of the header or query string parameter
+  name: string
+  value: string
+  location: ApiKeyLocation
+}
+
+// a single HMAC of a templated string using a shared secret (e.g. Stripe or Shopify signatures),
+// the templates can use {method}, {path}, {query}, {body} and {timestamp} - AWS SigV4 isn't
+// supported as it derives its signing key and signs a canonical form of the request
+export interface HmacAuthConfig {
+  secret: string
+  // any HMAC algorithm supported by node, e.g. sha256 (default) or sha1
+  algorithm?: string
+  encoding?: "hex" | "base64"
+  signatureHeader: string
+  // defaults to "{timestamp}\n{method}\n{path}\n{body}"
+  stringToSign?: string
+  // the value of the signature header, e.g. "t={timestamp},v1={signature}"
+  signatureFormat?: string
+  timestampHeader?: string
+  timestampFormat?: HmacTimestampFormat
+}
+
+export interface CustomAuthConfig {
+  headers: {
+    [key: string]: string
+  }
+}
+
 export interface QueryParameter {
   name: string
   default: string
+  // only used by procedure queries, the database type and direction of the parameter
+  type?: string
+  direction?: ProcedureParameterDirection
+}
+
+export interface ProcedureParameter {
+  name: string
+  type?: string
+  direction: ProcedureParameterDirection
+  value?: any
+}
+
+export interface ProcedureQuery {
+  procedure: string
+  parameters: ProcedureParameter[]
 }
 
 export interface RestQueryFields {
@@ -245,11 +394,38 @@ export interface RestQueryFields {
   paginationValues: PaginationValues | null
 }
 
+export interface GraphQLQueryFields {
+  query: string
+  // JSON, bindings can be used to pass the query parameters as variables
+  variables?: string | { [key: string]: any }
+  operationName?: string
+  headers?: { [key: string]: any }
+  authConfigId?: string
+}
+
+export interface GraphQLOperation {
+  name: string
+  description?: string
+  // the type in GraphQL notation, e.g. [User!]!
+  type: string
+  args: { name: string; type: string }[]
+}
+
+export interface GraphQLIntrospection {
+  queries: GraphQLOperation[]
+  mutations: GraphQLOperation[]
+}
+
 export interface RestConfig {
   url: string
   defaultHeaders: {
     [key: string]: any
   }
+  // in milliseconds, applies to each attempt of a request
+  requestTimeout?: number
+  retries?: number
+  // the delay before the first retry in milliseconds, doubled for each retry after
+  retryDelay?: number
   authConfigs: AuthConfig[]
   staticVariables: {
     [key: string]: string
@@ -263,12 +439,26 @@ export interface RestConfig {
   ]
 }
 
+export enum PaginationType {
+  PAGE = "page",
+  OFFSET = "offset",
+  CURSOR = "cursor",
+  LINK = "link",
+}
+
 export interface PaginationConfig {
   type: string
   location: string
   pageParam: string
   sizeParam: string | null
   responseParam: string | null
+  // fetches every page of the collection in a single query execution
+  fetchAll?: boolean
+  // where the rows are found in each page of the response, the response must be an array if not set
+  dataParam?: string | null
+  pageSize?: number | null
+  maxPages?: number | null
+  maxRows?: number | null
 }
 
 export interface PaginationValues {
@@ -286,4 +476,10 @@ export interface Query {
   schema: any
   readable: boolean
   queryVerb: string
+  cache?: QueryCacheConfig
+}
+
+export interface QueryCacheConfig {
+  // how long results are cached for, in seconds - caching is disabled when not set
+  ttl?: number
 }
@@ -305,6 +305,13 @@ export interface paths {
               notEmpty?: { [key: string]: unknown }
               /** @description Searches for rows which have a column value that is any of the specified values. The format of this must be columnName -> [value1, value2]. */
               oneOf?: { [key: string]: unknown }
+              /** @description By default all of the filters must match for a row to be returned, if this is set then only one of the filters needs to match. */
+              allOr?: boolean
+              /**
+               * @description Nested groups of filters, each group has the same format as the query (including allOr and further groups) and is evaluated on its own before being combined with the rest of the query. This allows expressing queries such as "status = open AND (owner = me OR priority = high)".
+               * @example [object Object]
+               */
+              groups?: { [key: string]: unknown }[]
             }
             /** @description Enables pagination, by default this is disabled. */
             paginate?: boolean
@@ -65,10 +65,17 @@ module.exports = {
   LOGGER: process.env.LOGGER,
   LOG_LEVEL: process.env.LOG_LEVEL,
   AUTOMATION_MAX_ITERATIONS: process.env.AUTOMATION_MAX_ITERATIONS,
+  AUTOMATION_LOG_MAX_RUNS: parseIntSafe(process.env.AUTOMATION_LOG_MAX_RUNS),
+  AUTOMATION_LOG_RETENTION_DAYS: parseIntSafe(
+    process.env.AUTOMATION_LOG_RETENTION_DAYS
+  ),
   SENDGRID_API_KEY: process.env.SENDGRID_API_KEY,
   DYNAMO_ENDPOINT: process.env.DYNAMO_ENDPOINT,
   POSTHOG_TOKEN: process.env.POSTHOG_TOKEN,
   QUERY_THREAD_TIMEOUT: parseIntSafe(process.env.QUERY_THREAD_TIMEOUT),
+  DATASOURCE_POOL_IDLE_TIMEOUT: parseIntSafe(
+    process.env.DATASOURCE_POOL_IDLE_TIMEOUT
+  ),
   SQL_MAX_ROWS: process.env.SQL_MAX_ROWS,
   // flags
   ALLOW_DEV_AUTOMATIONS: process.env.ALLOW_DEV_AUTOMATIONS,
@@ -11,9 +11,10 @@ const MAX_AUTOMATION_CHAIN = 5
  * from getting stuck endlessly chaining.
  */
 class AutomationEmitter {
-  constructor(chainCount) {
+  constructor(chainCount, metadata = {}) {
     this.chainCount = chainCount
     this.metadata = {
+      ...metadata,
       automationChainCount: chainCount,
     }
   }
@@ -0,0 +1,175 @@
+import crypto from "crypto"
+import * as env from "../../environment"
+
+const newid = require("../../db/newid")
+const redis = require("@budibase/backend-core/redis")
+const { SEPARATOR } = require("@budibase/backend-core/db")
+
+export const DEFAULT_MAX_CONNECTIONS = 10
+const DEFAULT_IDLE_TIMEOUT_MS = 60000
+const POOL_VERSION_PREFIX = "pool"
+// pools which haven't been checked out for this long have already been closed as idle
+const POOL_VERSION_TTL_SECONDS = 24 * 60 * 60
+// how often a pool checks whether it has been invalidated by another process
+const POOL_VERSION_CHECK_MS = 10000
+
+export interface PoolOptions {
+  maxConnections: number
+  idleTimeoutMs: number
+}
+
+interface PoolEntry {
+  pool: Promise<any>
+  close: (pool: any) => Promise<void>
+  timer?: NodeJS.Timeout
+  // the version of the config when the pool was created
+  version: string | null
+  // when the version was last compared to the one in redis
+  checkedAt: number
+}
+
+// pools live for the lifetime of the process, they are shared across all of the requests
+// handled by it - query threads run in their own process and therefore have their own pools
+const pools: Record<string, PoolEntry> = {}
+let client: any
+
+// invalidating a pool is recorded in redis by changing the version of its config, every
+// process checks the version of its pools periodically when they are checked out and closes
+// them once the version has changed
+async function getClient() {
+  if (!client) {
+    client = await new redis.Client(redis.utils.Databases.QUERY_VARS).init()
+  }
+  return client
+}
+
+async function getPoolVersion(key: string): Promise<string | null> {
+  const cache = await getClient()
+  return cache.get(`${POOL_VERSION_PREFIX}${SEPARATOR}${key}`)
+}
+
+function sortKeys(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys)
+  }
+  if (value && typeof value === "object") {
+    return Object.keys(value)
+      .sort()
+      .reduce((sorted: Record<string, any>, key) => {
+        sorted[key] = sortKeys(value[key])
+        return sorted
+      }, {})
+  }
+  return value
+}
+
+function getIdleTimeout() {
+  return env.DATASOURCE_POOL_IDLE_TIMEOUT || DEFAULT_IDLE_TIMEOUT_MS
+}
+
+function resetIdleTimer(key: string) {
+  const entry = pools[key]
+  if (entry.timer) {
+    clearTimeout(entry.timer)
+  }
+  // close the whole pool if the datasource hasn't been used for a while
+  entry.timer = setTimeout(() => closePool(key), getIdleTimeout())
+  entry.timer.unref()
+}
+
+async function closePool(key: string, entry = pools[key]) {
+  // the pool may have already been closed and replaced
+  if (!entry || pools[key] !== entry) {
+    return
+  }
+  delete pools[key]
+  if (entry.timer) {
+    clearTimeout(entry.timer)
+  }
+  try {
+    await entry.close(await entry.pool)
+  } catch (err) {
+    console.error(`Failed to close connection pool - ${err}`)
+  }
+}
+
+/**
+ * Generates the key a pool is stored under, this is a hash of the datasource config so that
+ * any change to the config results in a new pool. This should be generated before the
+ * integration makes any changes to the config it was provided.
+ * @param source The type of datasource, e.g. POSTGRES.
+ * @param config The datasource config.
+ * @returns {string} The pool key.
+ */
+export function getPoolKey(source: string, config: any): string {
+  return crypto
+    .createHash("sha256")
+    .update(`${source}:${JSON.stringify(sortKeys(config || {}))}`)
+    .digest("hex")
+}
+
+/**
+ * Retrieves the pool for a datasource config, creating it if it doesn't exist yet.
+ * @param key The pool key, see getPoolKey.
+ * @param config The datasource config, used to determine the size of the pool.
+ * @param create Function which creates the driver specific pool.
+ * @param close Function which ends the driver specific pool.
+ * @returns {Promise<*>} The driver specific pool.
+ */
+export async function getPool<T>(
+  key: string,
+  config: { maxConnections?: number | string },
+  create: (opts: PoolOptions) => T | Promise<T>,
+  close: (pool: T) => Promise<void>
+): Promise<T> {
+  const existing = pools[key]
+  const now = Date.now()
+  if (existing && now - existing.checkedAt < POOL_VERSION_CHECK_MS) {
+    resetIdleTimer(key)
+    return existing.pool
+  }
+  const version = await getPoolVersion(key)
+  if (existing && version && existing.version !== version) {
+    await closePool(key, existing)
+  } else if (existing) {
+    existing.checkedAt = now
+  }
+  if (!pools[key]) {
+    const maxConnections =
+      parseInt(config?.maxConnections as string) || DEFAULT_MAX_CONNECTIONS
+    const pool = Promise.resolve().then(() =>
+      create({ maxConnections, idleTimeoutMs: getIdleTimeout() })
+    )
+    pools[key] = { pool, close, version, checkedAt: now }
+    // a failed pool shouldn't be re-used, allow the next request to try again
+    pool.catch(() => {
+      if (pools[key]?.pool === pool) {
+        delete pools[key]
+      }
+    })
+  }
+  resetIdleTimer(key)
+  return pools[key].pool
+}
+
+/**
+ * Closes the pool for a datasource config, this should be called whenever the datasource
+ * is updated or deleted, as the pool will no longer be used. Other processes close their
+ * pool for the config when they next check its version, within a few seconds.
+ * @param source The type of datasource.
+ * @param config The datasource config before it was changed.
+ */
+export async function invalidatePool(source: string, config: any) {
+  const key = getPoolKey(source, config)
+  const cache = await getClient()
+  await cache.store(
+    `${POOL_VERSION_PREFIX}${SEPARATOR}${key}`,
+    `v${newid()}`,
+    POOL_VERSION_TTL_SECONDS
+  )
+  await closePool(key)
+}
+
+export async function closeAllPools() {
+  await Promise.all(Object.keys(pools).map(key => closePool(key)))
+}
@@ -1,9 +1,12 @@
 import { Table } from "../../definitions/common"
+import { StoredProcedure } from "../../definitions/datasource"
 import { IntegrationBase } from "./IntegrationBase"
 
 export interface DatasourcePlus extends IntegrationBase {
   tables: Record<string, Table>
   schemaErrors: Record<string, string>
+  // stored procedures which can be called with the procedure query verb
+  procedures?: StoredProcedure[]
 
   // if the datasource supports the use of bindings directly (to protect against SQL injection)
   // this returns the format of the identifier
@@ -0,0 +1,215 @@
+import crypto from "crypto"
+import { OAuth2AuthConfig, OAuth2GrantType } from "../../definitions/datasource"
+
+const fetch = require("node-fetch")
+const { URLSearchParams } = require("url")
+const redis = require("@budibase/backend-core/redis")
+const { SEPARATOR } = require("@budibase/backend-core/db")
+
+// tokens are refreshed this long before they expire, so they can't expire mid-request
+const EXPIRY_BUFFER_MS = 60000
+// used when the token endpoint doesn't state how long the token lasts
+const DEFAULT_EXPIRES_IN_SECONDS = 3600
+// refresh tokens outlive the access tokens, they are kept until they haven't been used for this long
+const TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60
+const TOKEN_KEY_PREFIX = "oauth2"
+
+interface OAuth2Token {
+  accessToken: string
+  tokenType: string
+  refreshToken?: string
+  expiresAt: number
+}
+
+// tokens are stored in redis so that they are shared by all of the processes running queries,
+// a refresh token or authorization code can only be used once by some providers
+let client: any
+// the requests for tokens which are in progress in this process
+const pending: Record<string, Promise<OAuth2Token>> = {}
+
+async function getClient() {
+  if (!client) {
+    client = await new redis.Client(redis.utils.Databases.QUERY_VARS).init()
+  }
+  return client
+}
+
+/**
+ * Generates the key a token is stored under, any change to the auth config will
+ * result in a new token being retrieved.
+ */
+function getTokenKey(authConfigId: string, config: OAuth2AuthConfig) {
+  const hash = crypto
+    .createHash("sha256")
+    .update(
+      JSON.stringify([
+        config.grantType,
+        config.tokenUrl,
+        config.clientId,
+        config.clientSecret,
+        config.scopes,
+        config.code,
+        config.redirectUri,
+        config.refreshToken,
+      ])
+    )
+    .digest("hex")
+  return [TOKEN_KEY_PREFIX, authConfigId, hash].join(SEPARATOR)
+}
+
+async function getStoredToken(key: string): Promise<OAuth2Token | undefined> {
+  const cache = await getClient()
+  return (await cache.get(key)) || undefined
+}
+
+async function storeToken(key: string, token: OAuth2Token) {
+  const cache = await getClient()
+  await cache.store(key, token, TOKEN_TTL_SECONDS)
+}
+
+function isExpired(token: OAuth2Token) {
+  return token.expiresAt - EXPIRY_BUFFER_MS <= Date.now()
+}
+
+async function requestToken(
+  config: OAuth2AuthConfig,
+  grant: { [key: string]: string | undefined }
+): Promise<OAuth2Token> {
+  const params = new URLSearchParams()
+  const fields: { [key: string]: string | undefined } = {
+    ...grant,
+    client_id: config.clientId,
+    client_secret: config.clientSecret,
+    scope: config.scopes,
+  }
+  for (let [key, value] of Object.entries(fields)) {
+    if (value) {
+      params.append(key, value)
+    }
+  }
+  let response, body
+  try {
+    response = await fetch(config.tokenUrl, {
+      method: "POST",
+      headers: {
+        Accept: "application/json",
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: params,
+    })
+    body = await response.json()
+  } catch (err) {
+    throw `Failed to retrieve OAuth2 access token - ${err}`
+  }
+  if (response.status >= 400 || !body || !body.access_token) {
+    const reason =
+      body?.error_description || body?.error || `status ${response.status}`
+    throw `Failed to retrieve OAuth2 access token - ${reason}`
+  }
+  const expiresIn = parseInt(body.expires_in) || DEFAULT_EXPIRES_IN_SECONDS
+  return {
+    accessToken: body.access_token,
+    // some providers return "bearer", which not all APIs accept
+    tokenType:
+      !body.token_type || body.token_type.toLowerCase() === "bearer"
+        ? "Bearer"
+        : body.token_type,
+    refreshToken: body.refresh_token,
+    expiresAt: Date.now() + expiresIn * 1000,
+  }
+}
+
+async function retrieveToken(
+  config: OAuth2AuthConfig,
+  previous?: OAuth2Token
+): Promise<OAuth2Token> {
+  // providers don't always return a new refresh token, keep using the previous one
+  const refreshToken = previous?.refreshToken || config.refreshToken
+  if (refreshToken) {
+    const token = await requestToken(config, {
+      grant_type: "refresh_token",
+      refresh_token: refreshToken,
+    })
+    return { ...token, refreshToken: token.refreshToken || refreshToken }
+  }
+  switch (config.grantType) {
+    case OAuth2GrantType.AUTHORIZATION_CODE:
+      if (!config.code) {
+        throw "OAuth2 authorization code or refresh token is required."
+      }
+      return requestToken(config, {
+        grant_type: OAuth2GrantType.AUTHORIZATION_CODE,
+        code: config.code,
+        redirect_uri: config.redirectUri,
+      })
+    case OAuth2GrantType.CLIENT_CREDENTIALS:
+    default:
+      return requestToken(config, {
+        grant_type: OAuth2GrantType.CLIENT_CREDENTIALS,
+      })
+  }
+}
+
+async function refreshToken(
+  key: string,
+  config: OAuth2AuthConfig,
+  previous?: OAuth2Token
+) {
+  try {
+    const token = await retrieveToken(config, previous)
+    await storeToken(key, token)
+    return token
+  } catch (err) {
+    // another process may have used the refresh token first, use the token it stored
+    const stored = await getStoredToken(key)
+    if (
+      stored &&
+      !isExpired(stored) &&
+      stored.accessToken !== previous?.accessToken
+    ) {
+      return stored
+    }
+    throw err
+  }
+}
+
+/**
+ * Retrieves an access token for an OAuth2 auth config, tokens are stored and are
+ * refreshed automatically before they expire. The refresh token is stored with the
+ * access token, so the authorization code is only used for the first token.
+ * @param authConfigId The ID of the auth config within the REST datasource.
+ * @param config The OAuth2 auth config of a REST datasource.
+ * @returns {Promise<string>} The value to use as the authorization header.
+ */
+export async function getOAuth2AuthHeader(
+  authConfigId: string,
+  config: OAuth2AuthConfig
+): Promise<string> {
+  if (!config.tokenUrl || !config.clientId) {
+    throw "OAuth2 token URL and client ID are required."
+  }
+  const key = getTokenKey(authConfigId, config)
+  // only one request for a token is made at a time by each process
+  if (!pending[key]) {
+    pending[key] = (async () => {
+      const stored = await getStoredToken(key)
+      if (stored && !isExpired(stored)) {
+        return stored
+      }
+      return refreshToken(key, config, stored)
+    })()
+    pending[key]
+      .catch(() => {})
+      .then(() => {
+        delete pending[key]
+      })
+  }
+  const token = await pending[key]
+  return `${token.tokenType} ${token.accessToken}`
+}
+
+export async function clearOAuth2Tokens() {
+  const cache = await getClient()
+  const entries = await cache.scan(`${TOKEN_KEY_PREFIX}${SEPARATOR}`)
+  await Promise.all(entries.map((entry: any) => cache.delete(entry.key)))
+}
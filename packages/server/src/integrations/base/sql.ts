@@ -1,5 +1,6 @@
 import { Knex, knex } from "knex"
 import {
+  CalculationType,
   Operation,
   QueryJson,
   QueryOptions,
@@ -46,6 +47,12 @@ function likeKey(client: string, key: string): string {
   return key
 }
 
+// tables outside of the primary schema are named with their schema, e.g. "sales.orders",
+// this can't be used as an alias as it would be split into two identifiers when quoted
+function getTableAlias(tableName: string) {
+  return tableName.replace(/\./g, "_")
+}
+
 function parse(input: any) {
   if (Array.isArray(input)) {
     return JSON.stringify(input)
@@ -89,6 +96,43 @@ function parseFilters(filters: SearchFilters | undefined): SearchFilters {
   return filters
 }
 
+// the fields which are filtered on, including those within groups
+function getFilterFields(filters: SearchFilters): string[] {
+  const fields: string[] = []
+  for (let [key, value] of Object.entries(filters)) {
+    if (key === "groups") {
+      for (let group of value || []) {
+        fields.push(...getFilterFields(group))
+      }
+    } else if (value && typeof value === "object") {
+      fields.push(...Object.keys(value))
+    }
+  }
+  return fields
+}
+
+/**
+ * Filters on the fields of the table are applied before relationships are joined and filters
+ * on relationship fields after, so filters which match any of their conditions (allOr) can't
+ * contain both - the two halves would both have to match rather than either of them.
+ */
+function validateFilters(filters: SearchFilters | undefined) {
+  if (!filters) {
+    return
+  }
+  if (filters.allOr) {
+    const fields = getFilterFields(filters)
+    const related = fields.filter(field => field.includes("."))
+    if (related.length && related.length !== fields.length) {
+      throw "Filters which match any condition cannot contain both relationship and table fields"
+    }
+    return
+  }
+  for (let group of filters.groups || []) {
+    validateFilters(group)
+  }
+}
+
 class InternalBuilder {
   private readonly client: string
 
@@ -197,20 +241,74 @@ class InternalBuilder {
         query = query[fnc](key)
       })
     }
+    // groups are applied in the same pass as other filters, reads validate that a group which
+    // is split between the inner and outer query doesn't match any of its conditions
+    if (filters.groups) {
+      const builder = this
+      for (let group of filters.groups) {
+        const fnc = allOr ? "orWhere" : "where"
+        // @ts-ignore
+        query = query[fnc](function () {
+          // @ts-ignore
+          builder.addFilters(this, group, opts)
+        })
+      }
+    }
     return query
   }
 
-  addSorting(query: KnexQuery, json: QueryJson): KnexQuery {
+  /**
+   * Keyset pagination filters out all rows up to (and including) the last row of the previous
+   * page, this is achieved by comparing against the keyset values in order, e.g. for the keyset
+   * (a, b) the condition is "a > x OR (a = x AND b > y)". Rows with a null value in one of the
+   * keyset columns cannot be compared and will not be returned after the first page.
+   */
+  addKeyset(query: KnexQuery, json: QueryJson): KnexQuery {
+    const fields = json.paginate?.keyset?.fields
+    if (!fields || fields.every(field => field.value == null)) {
+      return query
+    }
+    const tableName = json.endpoint.entityId
+    // @ts-ignore
+    return query.where(function () {
+      for (let i = 0; i < fields.length; i++) {
+        // @ts-ignore
+        this.orWhere(function () {
+          for (let previous of fields.slice(0, i)) {
+            // @ts-ignore
+            this.where(`${tableName}.${previous.column}`, parse(previous.value))
+          }
+          const { column, direction, value } = fields[i]
+          const operator = direction === SortDirection.DESCENDING ? "<" : ">"
+          // @ts-ignore
+          this.where(`${tableName}.${column}`, operator, parse(value))
+        })
+      }
+    })
+  }
+
+  addSorting(
+    query: KnexQuery,
+    json: QueryJson,
+    tableName: string | undefined = json.meta?.table?.name
+  ): KnexQuery {
     let { sort, paginate } = json
     const table = json.meta?.table
-    if (sort) {
+    if (paginate?.keyset) {
+      // ordering must match the keyset for pages to be consistent
+      for (let field of paginate.keyset.fields) {
+        const direction =
+          field.direction === SortDirection.DESCENDING ? "desc" : "asc"
+        query = query.orderBy(`${tableName}.${field.column}`, direction)
+      }
+    } else if (sort) {
       for (let [key, value] of Object.entries(sort)) {
         const direction = value === SortDirection.ASCENDING ? "asc" : "desc"
-        query = query.orderBy(`${table?.name}.${key}`, direction)
+        query = query.orderBy(`${tableName}.${key}`, direction)
       }
     } else if (this.client === SqlClients.MS_SQL && paginate?.limit) {
       // @ts-ignore
-      query = query.orderBy(`${table?.name}.${table?.primary[0]}`)
+      query = query.orderBy(`${tableName}.${table?.primary[0]}`)
     }
     return query
   }
@@ -220,11 +318,17 @@ class InternalBuilder {
     query: KnexQuery,
     fields: string | string[],
     fromTable: string,
-    relationships: RelationshipsJson[] | undefined
+    relationships: RelationshipsJson[] | undefined,
+    schema: string | undefined = undefined
   ): KnexQuery {
     if (!relationships) {
       return query
     }
+    // tables without a schema are in the primary schema
+    const qualify = (tableName: string) =>
+      schema && !tableName.includes(".")
+        ? { [tableName]: `${schema}.${tableName}` }
+        : tableName
     const tableSets: Record<string, [any]> = {}
     // aggregate into table sets (all the same to tables)
     for (let relationship of relationships) {
@@ -246,7 +350,7 @@ class InternalBuilder {
       const { toTable, throughTable } = JSON.parse(key)
       if (!throughTable) {
         // @ts-ignore
-        query = query.leftJoin(toTable, function () {
+        query = query.leftJoin(qualify(toTable), function () {
           for (let relationship of relationships) {
             const from = relationship.from,
               to = relationship.to
@@ -257,7 +361,7 @@ class InternalBuilder {
       } else {
         query = query
           // @ts-ignore
-          .leftJoin(throughTable, function () {
+          .leftJoin(qualify(throughTable), function () {
             for (let relationship of relationships) {
               const fromPrimary = relationship.fromPrimary
               const from = relationship.from
@@ -269,7 +373,8 @@ class InternalBuilder {
               )
             }
           })
-          .leftJoin(toTable, function () {
+          // @ts-ignore
+          .leftJoin(qualify(toTable), function () {
             for (let relationship of relationships) {
               const toPrimary = relationship.toPrimary
               const to = relationship.to
@@ -316,9 +421,49 @@ class InternalBuilder {
     return query.insert(parsedBody)
   }
 
+  bulkUpdate(knex: Knex, json: QueryJson): Knex.QueryBuilder[] {
+    const { endpoint, body } = json
+    const tableName = endpoint.entityId
+    const primary = json.meta?.table?.primary
+    const rowFilters = json.extra?.rowFilters
+    if (!Array.isArray(body)) {
+      throw "Bulk update requires an array of rows"
+    }
+    if (rowFilters && rowFilters.length !== body.length) {
+      throw "Bulk update requires filters for each row"
+    }
+    if (!rowFilters && (!primary || primary.length === 0)) {
+      throw "Bulk update requires the table to have a primary key"
+    }
+    // each row can have different values, so needs its own update statement
+    return body.map((row, idx) => {
+      let query: KnexQuery = knex(tableName)
+      if (endpoint.schema) {
+        query = query.withSchema(endpoint.schema)
+      }
+      // rows identified by filters can have their primary key changed
+      if (rowFilters) {
+        query = this.addFilters(query, rowFilters[idx], { tableName })
+        return (query as Knex.QueryBuilder).update(parseBody(row))
+      }
+      const equal: Record<string, any> = {}
+      const values = { ...row }
+      for (let key of primary as string[]) {
+        if (row[key] == null) {
+          throw `Unable to update row, primary key "${key}" not specified`
+        }
+        equal[key] = row[key]
+        delete values[key]
+      }
+      query = this.addFilters(query, { equal }, { tableName })
+      return (query as Knex.QueryBuilder).update(parseBody(values))
+    })
+  }
+
   read(knex: Knex, json: QueryJson, limit: number): KnexQuery {
     let { endpoint, resource, filters, paginate, relationships } = json
     const tableName = endpoint.entityId
+    const alias = getTableAlias(tableName)
     // select all if not specified
     if (!resource) {
       resource = { fields: [] }
@@ -328,8 +473,15 @@ class InternalBuilder {
     if (resource.fields && resource.fields.length > 0) {
       // select the resources as the format "table.columnName" - this is what is provided
       // by the resource builder further up
-      selectStatement = resource.fields.map(field => `${field} as ${field}`)
+      selectStatement = resource.fields.map(field => {
+        // fields from the table being read need to use its alias
+        const column = field.startsWith(`${tableName}.`)
+          ? `${alias}${field.substring(tableName.length)}`
+          : field
+        return `${column} as ${field}`
+      })
     }
+    validateFilters(filters)
     let foundLimit = limit || BASE_LIMIT
     // handle pagination
     let foundOffset: number | null = null
@@ -351,28 +503,82 @@ class InternalBuilder {
       query = query.offset(foundOffset)
     }
     query = this.addFilters(query, filters, { tableName })
+    query = this.addKeyset(query, json)
     // add sorting to pre-query
     query = this.addSorting(query, json)
     // @ts-ignore
     let preQuery: KnexQuery = knex({
       // @ts-ignore
-      [tableName]: query,
+      [alias]: query,
     }).select(selectStatement)
     // have to add after as well (this breaks MS-SQL)
     if (this.client !== SqlClients.MS_SQL) {
-      preQuery = this.addSorting(preQuery, json)
+      preQuery = this.addSorting(preQuery, json, alias)
     }
     // handle joins
     query = this.addRelationships(
       knex,
       preQuery,
       selectStatement,
-      tableName,
-      relationships
+      alias,
+      relationships,
+      endpoint.schema
     )
     return this.addFilters(query, filters, { relationship: true })
   }
 
+  aggregate(knex: Knex, json: QueryJson, limit: number): KnexQuery {
+    const { endpoint, filters, sort, paginate, aggregation } = json
+    const tableName = endpoint.entityId
+    const groupBy = aggregation?.groupBy || []
+    const calculations = aggregation?.calculations || []
+    if (calculations.length === 0) {
+      throw "Aggregation requires at least one calculation"
+    }
+    // relationships aren't joined to aggregations, filters on them can't be applied
+    validateFilters(filters)
+    if (
+      filters &&
+      getFilterFields(filters).some(field => field.includes("."))
+    ) {
+      throw "Aggregations cannot be filtered by relationship fields"
+    }
+    let query: KnexQuery = knex(tableName).limit(
+      paginate?.limit || limit || BASE_LIMIT
+    )
+    if (endpoint.schema) {
+      query = query.withSchema(endpoint.schema)
+    }
+    query = this.addFilters(query, filters, { tableName })
+    if (groupBy.length > 0) {
+      query = query
+        // @ts-ignore
+        .select(groupBy.map(field => `${tableName}.${field} as ${field}`))
+        .groupBy(groupBy.map(field => `${tableName}.${field}`))
+    }
+    for (let calculation of calculations) {
+      if (!Object.values(CalculationType).includes(calculation.type)) {
+        throw `Calculation type "${calculation.type}" is not supported`
+      }
+      if (!calculation.field && calculation.type !== CalculationType.COUNT) {
+        throw `Calculation "${calculation.name}" requires a field`
+      }
+      const column = calculation.field
+        ? `${tableName}.${calculation.field}`
+        : "*"
+      // @ts-ignore
+      query = query[calculation.type]({ [calculation.name]: column })
+    }
+    // sorting can only be applied to the grouped fields or calculation names
+    if (sort) {
+      for (let [key, value] of Object.entries(sort)) {
+        const direction = value === SortDirection.ASCENDING ? "asc" : "desc"
+        query = query.orderBy(key, direction)
+      }
+    }
+    return query
+  }
+
   update(knex: Knex, json: QueryJson, opts: QueryOptions): KnexQuery {
     const { endpoint, body, filters } = json
     let query: KnexQuery = knex(endpoint.entityId)
@@ -429,7 +635,9 @@ class SqlQueryBuilder extends SqlTableQueryBuilder {
         query = builder.create(client, json, opts)
         break
       case Operation.READ:
-        query = builder.read(client, json, this.limit)
+        query = json.aggregation
+          ? builder.aggregate(client, json, this.limit)
+          : builder.read(client, json, this.limit)
         break
       case Operation.UPDATE:
         query = builder.update(client, json, opts)
@@ -440,6 +648,22 @@ class SqlQueryBuilder extends SqlTableQueryBuilder {
       case Operation.BULK_CREATE:
         query = builder.bulkCreate(client, json)
         break
+      case Operation.BULK_UPDATE:
+        return builder
+          .bulkUpdate(client, json)
+          .map(query => query.toSQL().toNative())
+      case Operation.BULK_DELETE:
+        // rows are looked up before deletion, there is no need for returning
+        query = builder.delete(client, json, { disableReturning: true })
+        if (json.extra?.relatedWrites?.length) {
+          // references to the rows are removed first, so that foreign keys aren't violated
+          const related: any[] = json.extra.relatedWrites.map(write =>
+            this._query(write, { disableReturning: true })
+          )
+          // @ts-ignore
+          return [...related.flat(), query.toSQL().toNative()]
+        }
+        break
       case Operation.CREATE_TABLE:
       case Operation.UPDATE_TABLE:
       case Operation.DELETE_TABLE:
@@ -452,6 +676,40 @@ class SqlQueryBuilder extends SqlTableQueryBuilder {
     return query.toSQL().toNative()
   }
 
+  /**
+   * Bulk updates and deletes must be carried out within a single transaction by the
+   * integration, so that either all of the rows are written or none of them are.
+   */
+  requiresTransaction(json: QueryJson): boolean {
+    const operation = this._operation(json)
+    return (
+      operation === Operation.BULK_UPDATE || operation === Operation.BULK_DELETE
+    )
+  }
+
+  /**
+   * Tables from the primary schema of the datasource are qualified with the endpoint schema,
+   * any other tables are already qualified by their name (e.g. "sales.orders").
+   * @param json The query, this will be updated with the schema if required.
+   * @param schemas The schemas of the datasource, the first is the primary schema.
+   */
+  qualifyEndpoint(json: QueryJson, schemas: string[]) {
+    for (let write of json.extra?.relatedWrites || []) {
+      this.qualifyEndpoint(write, schemas)
+    }
+    const [primary, ...others] = schemas
+    const entityId = json?.endpoint?.entityId
+    if (
+      !entityId ||
+      !primary ||
+      others.find(schema => entityId.startsWith(`${schema}.`))
+    ) {
+      return json
+    }
+    json.endpoint.schema = primary
+    return json
+  }
+
   async getReturningRow(queryFn: Function, json: QueryJson) {
     if (!json.extra || !json.extra.idFilter) {
       return {}
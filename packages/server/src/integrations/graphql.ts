@@ -0,0 +1,237 @@
+import {
+  Integration,
+  DatasourceFieldTypes,
+  QueryTypes,
+  RestConfig,
+  RestQueryFields,
+  GraphQLQueryFields as GraphQLQuery,
+  GraphQLIntrospection,
+  GraphQLOperation,
+} from "../definitions/datasource"
+import { IntegrationBase } from "./base/IntegrationBase"
+
+module GraphQLModule {
+  const { integration: RestIntegration } = require("./rest")
+
+  // only the parts of the schema needed to describe the available operations
+  const INTROSPECTION_QUERY = `
+    query IntrospectionQuery {
+      __schema {
+        queryType { name }
+        mutationType { name }
+        types {
+          name
+          fields {
+            name
+            description
+            args { name type { ...TypeRef } }
+            type { ...TypeRef }
+          }
+        }
+      }
+    }
+    fragment TypeRef on __Type {
+      kind
+      name
+      ofType { kind name ofType { kind name ofType { kind name } } }
+    }
+  `
+
+  const fields = {
+    query: {
+      type: DatasourceFieldTypes.LONGFORM,
+      required: true,
+    },
+    variables: {
+      type: DatasourceFieldTypes.JSON,
+    },
+    operationName: {
+      type: DatasourceFieldTypes.STRING,
+      display: "Operation name",
+    },
+    headers: {
+      type: DatasourceFieldTypes.OBJECT,
+    },
+  }
+
+  const SCHEMA: Integration = {
+    docs: "https://graphql.org/learn/",
+    description:
+      "GraphQL is a query language for APIs, with the GraphQL datasource you can query and mutate the data of any GraphQL API.",
+    friendlyName: "GraphQL",
+    datasource: {
+      url: {
+        type: DatasourceFieldTypes.STRING,
+        display: "Endpoint",
+        required: true,
+        default: "",
+      },
+      defaultHeaders: {
+        type: DatasourceFieldTypes.OBJECT,
+        required: false,
+        default: {},
+      },
+      requestTimeout: {
+        type: DatasourceFieldTypes.NUMBER,
+        display: "Request timeout (ms)",
+        required: false,
+      },
+      retries: {
+        type: DatasourceFieldTypes.NUMBER,
+        required: false,
+        default: 0,
+      },
+    },
+    query: {
+      read: {
+        displayName: "Query",
+        readable: true,
+        type: QueryTypes.FIELDS,
+        fields,
+      },
+      create: {
+        displayName: "Mutation",
+        readable: true,
+        type: QueryTypes.FIELDS,
+        fields,
+      },
+    },
+  }
+
+  function typeToString(type: any): string {
+    if (!type) {
+      return ""
+    }
+    switch (type.kind) {
+      case "NON_NULL":
+        return `${typeToString(type.ofType)}!`
+      case "LIST":
+        return `[${typeToString(type.ofType)}]`
+      default:
+        return type.name
+    }
+  }
+
+  function parseVariables(variables: any) {
+    if (!variables) {
+      return {}
+    }
+    if (typeof variables === "object") {
+      return variables
+    }
+    try {
+      return JSON.parse(variables)
+    } catch (err) {
+      throw "Invalid JSON for GraphQL variables"
+    }
+  }
+
+  /**
+   * GraphQL APIs are sent as REST requests, so that the auth configs, retries and
+   * timeouts of REST datasources apply in the same way.
+   */
+  class GraphQLIntegration implements IntegrationBase {
+    private config: RestConfig
+    private rest: any
+
+    constructor(config: RestConfig) {
+      this.config = config
+      // the endpoint is the full URL of each request
+      this.rest = new RestIntegration({ ...config, url: "" })
+    }
+
+    async request(query: GraphQLQuery) {
+      if (!this.config.url) {
+        throw "GraphQL endpoint is required."
+      }
+      const restQuery = {
+        path: this.config.url,
+        queryString: "",
+        method: "POST",
+        headers: query.headers || {},
+        bodyType: "json",
+        requestBody: {
+          query: query.query,
+          variables: parseVariables(query.variables),
+          operationName: query.operationName || undefined,
+        },
+        authConfigId: query.authConfigId,
+        pagination: null,
+        paginationValues: null,
+      } as RestQueryFields
+      return this.rest._req(restQuery)
+    }
+
+    async execute(query: GraphQLQuery) {
+      const response = await this.request(query)
+      const body = response.data || {}
+      const errors: string[] = Array.isArray(body.errors)
+        ? body.errors.map((error: any) => error.message)
+        : []
+      if (body.data == null) {
+        if (errors.length > 0) {
+          throw errors.join(", ")
+        }
+        // not a GraphQL response, e.g. an error page, return as is
+        return response
+      }
+      let data = body.data
+      // a single root field is the common case, return its value so it appears as rows
+      const keys = Object.keys(data)
+      if (keys.length === 1) {
+        data = data[keys[0]]
+      }
+      return {
+        ...response,
+        data,
+        extra: {
+          ...response.extra,
+          errors,
+        },
+      }
+    }
+
+    /**
+     * Retrieves the queries and mutations the API supports, these are used as hints
+     * when writing queries.
+     */
+    async introspect(): Promise<GraphQLIntrospection> {
+      const response = await this.request({ query: INTROSPECTION_QUERY })
+      const schema = response.data?.data?.__schema
+      if (!schema) {
+        throw "GraphQL API does not support introspection."
+      }
+      const getOperations = (typeName: string | undefined) => {
+        const type = schema.types.find((type: any) => type.name === typeName)
+        return (type?.fields || []).map(
+          (field: any): GraphQLOperation => ({
+            name: field.name,
+            description: field.description || undefined,
+            type: typeToString(field.type),
+            args: (field.args || []).map((arg: any) => ({
+              name: arg.name,
+              type: typeToString(arg.type),
+            })),
+          })
+        )
+      }
+      return {
+        queries: getOperations(schema.queryType?.name),
+        mutations: getOperations(schema.mutationType?.name),
+      }
+    }
+
+    async read(query: GraphQLQuery) {
+      return this.execute(query)
+    }
+
+    async create(query: GraphQLQuery) {
+      return this.execute(query)
+    }
+  }
+
+  module.exports = {
+    schema: SCHEMA,
+    integration: GraphQLIntegration,
+  }
+}
@@ -13,6 +13,7 @@ const googlesheets = require("./googlesheets")
 const firebase = require("./firebase")
 const redis = require("./redis")
 const snowflake = require("./snowflake")
+const graphql = require("./graphql")
 const { SourceNames } = require("../definitions/datasource")
 const environment = require("../environment")
 
@@ -31,6 +32,7 @@ const DEFINITIONS = {
   [SourceNames.FIREBASE]: firebase.schema,
   [SourceNames.REDIS]: redis.schema,
   [SourceNames.SNOWFLAKE]: snowflake.schema,
+  [SourceNames.GRAPHQL]: graphql.schema,
 }
 
 const INTEGRATIONS = {
@@ -50,6 +52,7 @@ const INTEGRATIONS = {
   [SourceNames.REDIS]: redis.integration,
   [SourceNames.FIREBASE]: firebase.integration,
   [SourceNames.SNOWFLAKE]: snowflake.integration,
+  [SourceNames.GRAPHQL]: graphql.integration,
 }
 
 // optionally add oracle integration if the oracle binary can be installed
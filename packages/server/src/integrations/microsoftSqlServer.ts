@@ -5,6 +5,11 @@ import {
   QueryJson,
   QueryTypes,
   SqlQuery,
+  SourceNames,
+  ProcedureQuery,
+  ProcedureParameterDirection,
+  StoredProcedure,
+  StoredProcedureType,
 } from "../definitions/datasource"
 import {
   getSqlQuery,
@@ -12,8 +17,16 @@ import {
   convertSqlType,
   finaliseExternalTables,
   SqlClients,
+  ForeignKey,
+  getSchemaList,
+  buildProcedureResponse,
 } from "./utils"
 import { DatasourcePlus } from "./base/datasourcePlus"
+import {
+  getPool,
+  getPoolKey,
+  DEFAULT_MAX_CONNECTIONS,
+} from "./base/connectionPool"
 import { Table, TableSchema } from "../definitions/common"
 
 module MSSQLModule {
@@ -29,6 +42,7 @@ module MSSQLModule {
     database: string
     schema: string
     encrypt?: boolean
+    maxConnections?: number
   }
 
   interface TablesResponse {
@@ -67,6 +81,7 @@ module MSSQLModule {
         type: DatasourceFieldTypes.STRING,
         default: "root",
       },
+      // multiple schemas can be provided as a comma separated list
       schema: {
         type: DatasourceFieldTypes.STRING,
         default: DEFAULT_SCHEMA,
@@ -75,6 +90,11 @@ module MSSQLModule {
         type: DatasourceFieldTypes.BOOLEAN,
         default: true,
       },
+      maxConnections: {
+        type: DatasourceFieldTypes.NUMBER,
+        default: DEFAULT_MAX_CONNECTIONS,
+        required: false,
+      },
     },
     query: {
       create: {
@@ -89,15 +109,26 @@ module MSSQLModule {
       delete: {
         type: QueryTypes.SQL,
       },
+      procedure: {
+        type: QueryTypes.FIELDS,
+        displayName: "Procedure",
+        fields: {
+          procedure: {
+            type: DatasourceFieldTypes.STRING,
+            required: true,
+          },
+        },
+      },
     },
   }
 
   class SqlServerIntegration extends Sql implements DatasourcePlus {
     private readonly config: MSSQLConfig
+    private readonly poolKey: string
     private index: number = 0
-    static pool: any
     public tables: Record<string, Table> = {}
     public schemaErrors: Record<string, string> = {}
+    public procedures: StoredProcedure[] = []
 
     MASTER_TABLES = [
       "spt_fallback_db",
@@ -107,22 +138,41 @@ module MSSQLModule {
       "MSreplication_options",
     ]
     TABLES_SQL =
-      "SELECT * FROM INFORMATION_SCHEMA.TABLES WHERE TABLE_TYPE='BASE TABLE'"
+      "SELECT * FROM INFORMATION_SCHEMA.TABLES WHERE TABLE_TYPE IN ('BASE TABLE', 'VIEW')"
+    ROUTINES_SQL =
+      "SELECT ROUTINE_SCHEMA, ROUTINE_NAME FROM INFORMATION_SCHEMA.ROUTINES WHERE ROUTINE_TYPE = 'PROCEDURE'"
 
     constructor(config: MSSQLConfig) {
       super(SqlClients.MS_SQL)
+      this.poolKey = getPoolKey(SourceNames.SQL_SERVER, config)
       this.config = config
-      const clientCfg = {
-        ...this.config,
-        options: {
-          encrypt: this.config.encrypt,
-          enableArithAbort: true,
+    }
+
+    getPool() {
+      return getPool(
+        this.poolKey,
+        this.config,
+        async ({ maxConnections, idleTimeoutMs }) => {
+          const clientCfg = {
+            ...this.config,
+            options: {
+              encrypt: this.config.encrypt,
+              enableArithAbort: true,
+            },
+            pool: {
+              min: 0,
+              max: maxConnections,
+              idleTimeoutMillis: idleTimeoutMs,
+            },
+          }
+          delete clientCfg.encrypt
+          delete clientCfg.maxConnections
+          const pool = new sqlServer.ConnectionPool(clientCfg)
+          await pool.connect()
+          return pool
         },
-      }
-      delete clientCfg.encrypt
-      if (!this.pool) {
-        this.pool = new sqlServer.ConnectionPool(clientCfg)
-      }
+        pool => pool.close()
+      )
     }
 
     getBindingIdentifier(): string {
@@ -133,9 +183,23 @@ module MSSQLModule {
       return `concat(${parts.join(", ")})`
     }
 
+    getSchemas() {
+      return getSchemaList(this.config.schema, DEFAULT_SCHEMA)
+    }
+
+    /**
+     * Tables in the primary schema keep their name, tables from any other schema are
+     * named with their schema so that they can't clash.
+     */
+    getTableName(schema: string, tableName: string) {
+      return schema === this.getSchemas()[0]
+        ? tableName
+        : `${schema}.${tableName}`
+    }
+
     async connect() {
       try {
-        this.client = await this.pool.connect()
+        this.client = await this.getPool()
       } catch (err) {
         // @ts-ignore
         throw new Error(err)
@@ -144,10 +208,13 @@ module MSSQLModule {
 
     async internalQuery(
       query: SqlQuery,
-      operation: string | undefined = undefined
+      operation: string | undefined = undefined,
+      transaction: any = undefined
     ) {
       const client = this.client
-      const request = client.request()
+      const request = transaction
+        ? new sqlServer.Request(transaction)
+        : client.request()
       this.index = 0
       try {
         if (Array.isArray(query.bindings)) {
@@ -169,24 +236,43 @@ module MSSQLModule {
       }
     }
 
-    getDefinitionSQL(tableName: string) {
+    async internalTransaction(queries: SqlQuery[]) {
+      const responses = []
+      const transaction = new sqlServer.Transaction(this.client)
+      await transaction.begin()
+      try {
+        for (let query of queries) {
+          responses.push(
+            await this.internalQuery(query, undefined, transaction)
+          )
+        }
+        await transaction.commit()
+      } catch (err) {
+        await transaction.rollback()
+        throw err
+      }
+      return responses
+    }
+
+    getDefinitionSQL(schema: string, tableName: string) {
       return `select *
               from INFORMATION_SCHEMA.COLUMNS
-              where TABLE_NAME='${tableName}'`
+              where TABLE_SCHEMA='${schema}' AND TABLE_NAME='${tableName}'`
     }
 
-    getConstraintsSQL(tableName: string) {
+    getConstraintsSQL(schema: string, tableName: string) {
       return `SELECT * FROM INFORMATION_SCHEMA.TABLE_CONSTRAINTS AS TC 
               INNER JOIN INFORMATION_SCHEMA.KEY_COLUMN_USAGE AS KU
                 ON TC.CONSTRAINT_TYPE = 'PRIMARY KEY' 
                 AND TC.CONSTRAINT_NAME = KU.CONSTRAINT_NAME 
+                AND KU.TABLE_SCHEMA='${schema}'
                 AND KU.table_name='${tableName}'
               ORDER BY 
                 KU.TABLE_NAME,
                 KU.ORDINAL_POSITION;`
     }
 
-    getAutoColumnsSQL(tableName: string) {
+    getAutoColumnsSQL(schema: string, tableName: string) {
       return `SELECT 
               COLUMNPROPERTY(OBJECT_ID(TABLE_SCHEMA+'.'+TABLE_NAME),COLUMN_NAME,'IsComputed') 
                 AS IS_COMPUTED,
@@ -194,7 +280,30 @@ module MSSQLModule {
                 AS IS_IDENTITY,
               *
               FROM INFORMATION_SCHEMA.COLUMNS
-              WHERE TABLE_NAME='${tableName}'`
+              WHERE TABLE_SCHEMA='${schema}' AND TABLE_NAME='${tableName}'`
+    }
+
+    getForeignKeysSQL(schemas: string[]) {
+      const schemaList = schemas.map(schema => `'${schema}'`).join(", ")
+      return `SELECT fk.name AS CONSTRAINT_NAME,
+                SCHEMA_NAME(tp.schema_id) AS TABLE_SCHEMA,
+                tp.name AS TABLE_NAME,
+                cp.name AS COLUMN_NAME,
+                SCHEMA_NAME(tr.schema_id) AS REFERENCED_TABLE_SCHEMA,
+                tr.name AS REFERENCED_TABLE_NAME,
+                cr.name AS REFERENCED_COLUMN_NAME
+              FROM sys.foreign_keys fk
+              INNER JOIN sys.tables tp ON fk.parent_object_id = tp.object_id
+              INNER JOIN sys.tables tr ON fk.referenced_object_id = tr.object_id
+              INNER JOIN sys.foreign_key_columns fkc ON fkc.constraint_object_id = fk.object_id
+              INNER JOIN sys.columns cp
+                ON fkc.parent_column_id = cp.column_id
+                AND fkc.parent_object_id = cp.object_id
+              INNER JOIN sys.columns cr
+                ON fkc.referenced_column_id = cr.column_id
+                AND fkc.referenced_object_id = cr.object_id
+              WHERE SCHEMA_NAME(tp.schema_id) IN (${schemaList})
+                AND SCHEMA_NAME(tr.schema_id) IN (${schemaList})`
     }
 
     async runSQL(sql: string) {
@@ -213,20 +322,29 @@ module MSSQLModule {
         throw "Unable to get list of tables in database"
       }
 
-      const schema = this.config.schema || DEFAULT_SCHEMA
-      const tableNames = tableInfo
-        .filter((record: any) => record.TABLE_SCHEMA === schema)
-        .map((record: any) => record.TABLE_NAME)
-        .filter((name: string) => this.MASTER_TABLES.indexOf(name) === -1)
+      const schemas = this.getSchemas()
+      const schemaTables = tableInfo.filter(
+        (record: any) =>
+          schemas.includes(record.TABLE_SCHEMA) &&
+          this.MASTER_TABLES.indexOf(record.TABLE_NAME) === -1
+      )
 
       const tables: Record<string, Table> = {}
-      for (let tableName of tableNames) {
+      for (let record of schemaTables) {
+        const schemaName = record.TABLE_SCHEMA
+        const tableName = this.getTableName(schemaName, record.TABLE_NAME)
         // get the column definition (type)
-        const definition = await this.runSQL(this.getDefinitionSQL(tableName))
+        const definition = await this.runSQL(
+          this.getDefinitionSQL(schemaName, record.TABLE_NAME)
+        )
         // find primary key constraints
-        const constraints = await this.runSQL(this.getConstraintsSQL(tableName))
+        const constraints = await this.runSQL(
+          this.getConstraintsSQL(schemaName, record.TABLE_NAME)
+        )
         // find the computed and identity columns (auto columns)
-        const columns = await this.runSQL(this.getAutoColumnsSQL(tableName))
+        const columns = await this.runSQL(
+          this.getAutoColumnsSQL(schemaName, record.TABLE_NAME)
+        )
         const primaryKeys = constraints
           .filter(
             (constraint: any) => constraint.CONSTRAINT_TYPE === "PRIMARY KEY"
@@ -249,15 +367,41 @@ module MSSQLModule {
           }
         }
         tables[tableName] = {
-          _id: buildExternalTableId(datasourceId, tableName),
+          _id: buildExternalTableId(
+            datasourceId,
+            record.TABLE_NAME,
+            schemaName !== schemas[0] ? schemaName : undefined
+          ),
           primary: primaryKeys,
           name: tableName,
           schema,
         }
+        if (record.TABLE_TYPE === "VIEW") {
+          tables[tableName].readonly = true
+        }
       }
-      const final = finaliseExternalTables(tables, entities)
+      const keys = await this.runSQL(this.getForeignKeysSQL(schemas))
+      const foreignKeys: ForeignKey[] = keys.map((key: any) => ({
+        constraint: key.CONSTRAINT_NAME,
+        table: this.getTableName(key.TABLE_SCHEMA, key.TABLE_NAME),
+        column: key.COLUMN_NAME,
+        referencedTable: this.getTableName(
+          key.REFERENCED_TABLE_SCHEMA,
+          key.REFERENCED_TABLE_NAME
+        ),
+        referencedColumn: key.REFERENCED_COLUMN_NAME,
+      }))
+      const final = finaliseExternalTables(tables, entities, foreignKeys)
       this.tables = final.tables
       this.schemaErrors = final.errors
+
+      const routines = await this.runSQL(this.ROUTINES_SQL)
+      this.procedures = routines
+        .filter((routine: any) => schemas.includes(routine.ROUTINE_SCHEMA))
+        .map((routine: any) => ({
+          name: this.getTableName(routine.ROUTINE_SCHEMA, routine.ROUTINE_NAME),
+          type: StoredProcedureType.PROCEDURE,
+        }))
     }
 
     async read(query: SqlQuery | string) {
@@ -284,13 +428,60 @@ module MSSQLModule {
       return response.recordset || [{ deleted: true }]
     }
 
-    async query(json: QueryJson) {
-      const schema = this.config.schema
+    /**
+     * Finds the driver type for a parameter, types are matched by name, ignoring any
+     * length/precision, e.g. "varchar(50)" is a VarChar.
+     */
+    getParameterType(type: string | undefined) {
+      if (!type) {
+        return undefined
+      }
+      const typeName = type.split("(")[0].trim().toLowerCase()
+      const found = Object.keys(sqlServer.TYPES).find(
+        key => key.toLowerCase() === typeName
+      )
+      return found ? sqlServer.TYPES[found] : undefined
+    }
+
+    async procedure(query: ProcedureQuery) {
       await this.connect()
-      if (schema && schema !== DEFAULT_SCHEMA && json?.endpoint) {
-        json.endpoint.schema = schema
+      const request = this.client.request()
+      for (let param of query.parameters) {
+        const type = this.getParameterType(param.type)
+        if (param.direction === ProcedureParameterDirection.IN) {
+          type
+            ? request.input(param.name, type, param.value)
+            : request.input(param.name, param.value)
+        } else {
+          // output parameters must have a type, default to a string
+          request.output(
+            param.name,
+            type || sqlServer.NVarChar(sqlServer.MAX),
+            param.value
+          )
+        }
+      }
+      try {
+        const response = await request.execute(query.procedure)
+        return buildProcedureResponse(
+          response.recordsets || [],
+          response.output || {}
+        )
+      } catch (err) {
+        // @ts-ignore
+        throw new Error(err)
       }
+    }
+
+    async query(json: QueryJson) {
+      await this.connect()
+      this.qualifyEndpoint(json, this.getSchemas())
       const operation = this._operation(json)
+      if (this.requiresTransaction(json)) {
+        const input = this._query(json, { disableReturning: true })
+        await this.internalTransaction(Array.isArray(input) ? input : [input])
+        return [{ [operation.toLowerCase()]: true }]
+      }
       const queryFn = (query: any, op: string) => this.internalQuery(query, op)
       const processFn = (result: any) =>
         result.recordset ? result.recordset : [{ [operation]: true }]
@@ -4,6 +4,11 @@ import {
   QueryTypes,
   QueryJson,
   SqlQuery,
+  SourceNames,
+  ProcedureQuery,
+  ProcedureParameterDirection,
+  StoredProcedure,
+  StoredProcedureType,
 } from "../definitions/datasource"
 import { Table, TableSchema } from "../definitions/common"
 import {
@@ -12,8 +17,15 @@ import {
   buildExternalTableId,
   convertSqlType,
   finaliseExternalTables,
+  ForeignKey,
+  buildProcedureResponse,
 } from "./utils"
 import { DatasourcePlus } from "./base/datasourcePlus"
+import {
+  getPool,
+  getPoolKey,
+  DEFAULT_MAX_CONNECTIONS,
+} from "./base/connectionPool"
 import dayjs from "dayjs"
 import { FieldTypes } from "../constants"
 const { NUMBER_REGEX } = require("../utilities")
@@ -30,6 +42,7 @@ module MySQLModule {
     database: string
     ssl?: { [key: string]: any }
     rejectUnauthorized: boolean
+    maxConnections?: number
   }
 
   const SCHEMA: Integration = {
@@ -72,6 +85,11 @@ module MySQLModule {
         default: true,
         required: false,
       },
+      maxConnections: {
+        type: DatasourceFieldTypes.NUMBER,
+        default: DEFAULT_MAX_CONNECTIONS,
+        required: false,
+      },
     },
     query: {
       create: {
@@ -86,6 +104,16 @@ module MySQLModule {
       delete: {
         type: QueryTypes.SQL,
       },
+      procedure: {
+        type: QueryTypes.FIELDS,
+        displayName: "Procedure",
+        fields: {
+          procedure: {
+            type: DatasourceFieldTypes.STRING,
+            required: true,
+          },
+        },
+      },
     },
   }
 
@@ -111,12 +139,16 @@ module MySQLModule {
 
   class MySQLIntegration extends Sql implements DatasourcePlus {
     private config: MySQLConfig
+    private readonly poolKey: string
     private client: any
     public tables: Record<string, Table> = {}
     public schemaErrors: Record<string, string> = {}
+    public procedures: StoredProcedure[] = []
 
     constructor(config: MySQLConfig) {
       super(SqlClients.MY_SQL)
+      // the config is altered below, the key must be generated from the original
+      this.poolKey = getPoolKey(SourceNames.MYSQL, config)
       this.config = config
       if (config.ssl && Object.keys(config.ssl).length === 0) {
         delete config.ssl
@@ -142,12 +174,30 @@ module MySQLModule {
       return `concat(${parts.join(", ")})`
     }
 
+    getPool() {
+      return getPool(
+        this.poolKey,
+        this.config,
+        ({ maxConnections }) => {
+          const config = { ...this.config }
+          // not a mysql2 option, it will complain if this is provided
+          delete config.maxConnections
+          return mysql.createPool({
+            ...config,
+            connectionLimit: maxConnections,
+          })
+        },
+        pool => pool.end()
+      )
+    }
+
     async connect() {
-      this.client = await mysql.createConnection(this.config)
+      const pool = await this.getPool()
+      this.client = await pool.getConnection()
     }
 
     async disconnect() {
-      await this.client.end()
+      this.client.release()
     }
 
     async internalQuery(
@@ -175,22 +225,45 @@ module MySQLModule {
       }
     }
 
+    async internalTransaction(queries: SqlQuery[]) {
+      const responses = []
+      await this.client.beginTransaction()
+      try {
+        for (let query of queries) {
+          responses.push(
+            await this.internalQuery(query, {
+              connect: false,
+              disableCoercion: true,
+            })
+          )
+        }
+        await this.client.commit()
+      } catch (err) {
+        await this.client.rollback()
+        throw err
+      }
+      return responses
+    }
+
     async buildSchema(datasourceId: string, entities: Record<string, Table>) {
       const tables: { [key: string]: Table } = {}
+      let foreignKeys: ForeignKey[] = []
       const database = this.config.database
       await this.connect()
 
       try {
         // get the tables first
         const tablesResp = await this.internalQuery(
-          { sql: "SHOW TABLES;" },
+          { sql: "SHOW FULL TABLES;" },
           { connect: false }
         )
-        const tableNames = tablesResp.map(
-          (obj: any) =>
-            obj[`Tables_in_${database}`] ||
-            obj[`Tables_in_${database.toLowerCase()}`]
-        )
+        const getName = (obj: any) =>
+          obj[`Tables_in_${database}`] ||
+          obj[`Tables_in_${database.toLowerCase()}`]
+        const tableNames = tablesResp.map(getName)
+        const views = tablesResp
+          .filter((obj: any) => obj.Table_type === "VIEW")
+          .map(getName)
         for (let tableName of tableNames) {
           const primaryKeys = []
           const schema: TableSchema = {}
@@ -227,12 +300,43 @@ module MySQLModule {
               name: tableName,
               schema,
             }
+            if (views.includes(tableName)) {
+              tables[tableName].readonly = true
+            }
           }
         }
+        const keysResp = await this.internalQuery(
+          {
+            sql: `SELECT CONSTRAINT_NAME, TABLE_NAME, COLUMN_NAME, REFERENCED_TABLE_NAME, REFERENCED_COLUMN_NAME
+              FROM INFORMATION_SCHEMA.KEY_COLUMN_USAGE
+              WHERE TABLE_SCHEMA = ? AND REFERENCED_TABLE_NAME IS NOT NULL;`,
+            bindings: [database],
+          },
+          { connect: false, disableCoercion: true }
+        )
+        foreignKeys = keysResp.map((key: any) => ({
+          constraint: key.CONSTRAINT_NAME,
+          table: key.TABLE_NAME,
+          column: key.COLUMN_NAME,
+          referencedTable: key.REFERENCED_TABLE_NAME,
+          referencedColumn: key.REFERENCED_COLUMN_NAME,
+        }))
+        const routinesResp = await this.internalQuery(
+          {
+            sql: `SELECT ROUTINE_NAME FROM INFORMATION_SCHEMA.ROUTINES
+              WHERE ROUTINE_SCHEMA = ? AND ROUTINE_TYPE = 'PROCEDURE';`,
+            bindings: [database],
+          },
+          { connect: false, disableCoercion: true }
+        )
+        this.procedures = routinesResp.map((routine: any) => ({
+          name: routine.ROUTINE_NAME,
+          type: StoredProcedureType.PROCEDURE,
+        }))
       } finally {
         await this.disconnect()
       }
-      const final = finaliseExternalTables(tables, entities)
+      const final = finaliseExternalTables(tables, entities, foreignKeys)
       this.tables = final.tables
       this.schemaErrors = final.errors
     }
@@ -256,9 +360,73 @@ module MySQLModule {
       return results.length ? results : [{ deleted: true }]
     }
 
+    /**
+     * OUT/INOUT parameters are passed to the procedure as session variables, these are read
+     * back on the same connection once the procedure has been called.
+     */
+    async procedure(query: ProcedureQuery) {
+      await this.connect()
+      const opts = { connect: false, disableCoercion: true }
+      try {
+        const args: string[] = [],
+          bindings: any[] = [],
+          outputs: string[] = []
+        for (let param of query.parameters) {
+          if (param.direction === ProcedureParameterDirection.IN) {
+            args.push("?")
+            bindings.push(param.value)
+            continue
+          }
+          const variable = `@${param.name}`
+          await this.internalQuery(
+            {
+              sql: `SET ${variable} = ?;`,
+              bindings: [
+                param.direction === ProcedureParameterDirection.INOUT
+                  ? param.value
+                  : null,
+              ],
+            },
+            opts
+          )
+          args.push(variable)
+          outputs.push(param.name)
+        }
+        const name = query.procedure
+          .split(".")
+          .map(part => `\`${part}\``)
+          .join(".")
+        const response = await this.internalQuery(
+          { sql: `CALL ${name}(${args.join(", ")});`, bindings },
+          opts
+        )
+        // each result set is an array, the final entry describes the call itself
+        const resultSets = Array.isArray(response)
+          ? response.filter((result: any) => Array.isArray(result))
+          : []
+        let outputParameters = {}
+        if (outputs.length) {
+          const columns = outputs.map(output => `@${output} AS \`${output}\``)
+          const [row] = await this.internalQuery(
+            { sql: `SELECT ${columns.join(", ")};` },
+            opts
+          )
+          outputParameters = row || {}
+        }
+        return buildProcedureResponse(resultSets, outputParameters)
+      } finally {
+        await this.disconnect()
+      }
+    }
+
     async query(json: QueryJson) {
       await this.connect()
       try {
+        if (this.requiresTransaction(json)) {
+          const input = this._query(json, { disableReturning: true })
+          await this.internalTransaction(Array.isArray(input) ? input : [input])
+          return [{ [this._operation(json).toLowerCase()]: true }]
+        }
         const queryFn = (query: any) =>
           this.internalQuery(query, { connect: false, disableCoercion: true })
         return await this.queryWithReturning(json, queryFn)
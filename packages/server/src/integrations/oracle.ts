@@ -5,6 +5,12 @@ import {
   QueryJson,
   QueryTypes,
   SqlQuery,
+  SourceNames,
+  ProcedureQuery,
+  ProcedureParameter,
+  ProcedureParameterDirection,
+  StoredProcedure,
+  StoredProcedureType,
 } from "../definitions/datasource"
 import {
   buildExternalTableId,
@@ -12,17 +18,26 @@ import {
   finaliseExternalTables,
   getSqlQuery,
   SqlClients,
+  ForeignKey,
+  buildProcedureResponse,
 } from "./utils"
 import oracledb, {
+  BindParameter,
   BindParameters,
   Connection,
-  ConnectionAttributes,
   ExecuteOptions,
+  Pool,
+  PoolAttributes,
   Result,
 } from "oracledb"
 import Sql from "./base/sql"
 import { Table } from "../definitions/common"
 import { DatasourcePlus } from "./base/datasourcePlus"
+import {
+  getPool,
+  getPoolKey,
+  DEFAULT_MAX_CONNECTIONS,
+} from "./base/connectionPool"
 import { FieldTypes } from "../constants"
 
 module OracleModule {
@@ -34,6 +49,7 @@ module OracleModule {
     database: string
     user: string
     password: string
+    maxConnections?: number
   }
 
   const SCHEMA: Integration = {
@@ -65,6 +81,11 @@ module OracleModule {
         type: DatasourceFieldTypes.PASSWORD,
         required: true,
       },
+      maxConnections: {
+        type: DatasourceFieldTypes.NUMBER,
+        default: DEFAULT_MAX_CONNECTIONS,
+        required: false,
+      },
     },
     query: {
       create: {
@@ -79,6 +100,16 @@ module OracleModule {
       delete: {
         type: QueryTypes.SQL,
       },
+      procedure: {
+        type: QueryTypes.FIELDS,
+        displayName: "Procedure",
+        fields: {
+          procedure: {
+            type: DatasourceFieldTypes.STRING,
+            required: true,
+          },
+        },
+      },
     },
   }
 
@@ -99,6 +130,10 @@ module OracleModule {
     SEARCH_CONDITION: string | null
   }
 
+  interface ProceduresResponse {
+    OBJECT_NAME: string
+  }
+
   /**
    * An oracle constraint
    */
@@ -137,10 +172,12 @@ module OracleModule {
 
   class OracleIntegration extends Sql implements DatasourcePlus {
     private readonly config: OracleConfig
+    private readonly poolKey: string
     private index: number = 1
 
     public tables: Record<string, Table> = {}
     public schemaErrors: Record<string, string> = {}
+    public procedures: StoredProcedure[] = []
 
     private readonly COLUMNS_SQL = `
       SELECT
@@ -170,8 +207,14 @@ module OracleModule {
         (cons.status = 'ENABLED'
           OR cons.status IS NULL)
     `
+    private readonly PROCEDURES_SQL = `
+      SELECT object_name FROM user_objects
+      WHERE object_type = 'PROCEDURE'
+      ORDER BY object_name
+    `
     constructor(config: OracleConfig) {
       super(SqlClients.ORACLE)
+      this.poolKey = getPoolKey(SourceNames.ORACLE, config)
       this.config = config
     }
 
@@ -242,6 +285,56 @@ module OracleModule {
       return oracleTables
     }
 
+    /**
+     * Foreign key constraints refer to the primary key (or unique) constraint of the
+     * table they reference, find those constraints to work out the referenced column
+     */
+    private getForeignKeys(oracleTables: {
+      [key: string]: OracleTable
+    }): ForeignKey[] {
+      const referenced: { [key: string]: { table: string; column: string } } =
+        {}
+      const foreignKeys: ForeignKey[] = []
+      for (let table of Object.values(oracleTables)) {
+        for (let column of Object.values(table.columns)) {
+          for (let constraint of Object.values(column.constraints)) {
+            if (
+              constraint.type === OracleContraintTypes.PRIMARY ||
+              constraint.type === OracleContraintTypes.UNIQUE
+            ) {
+              referenced[constraint.name] = {
+                table: table.name,
+                column: column.name,
+              }
+            }
+          }
+        }
+      }
+      for (let table of Object.values(oracleTables)) {
+        for (let column of Object.values(table.columns)) {
+          for (let constraint of Object.values(column.constraints)) {
+            const related = constraint.relatedConstraintName
+              ? referenced[constraint.relatedConstraintName]
+              : null
+            if (
+              constraint.type !== OracleContraintTypes.FOREIGN_KEY ||
+              !related
+            ) {
+              continue
+            }
+            foreignKeys.push({
+              constraint: constraint.name,
+              table: table.name,
+              column: column.name,
+              referencedTable: related.table,
+              referencedColumn: related.column,
+            })
+          }
+        }
+      }
+      return foreignKeys
+    }
+
     private static isSupportedColumn(column: OracleColumn) {
       return !UNSUPPORTED_TYPES.includes(column.type)
     }
@@ -344,9 +437,22 @@ module OracleModule {
           })
       })
 
-      const final = finaliseExternalTables(tables, entities)
+      const final = finaliseExternalTables(
+        tables,
+        entities,
+        this.getForeignKeys(oracleTables)
+      )
       this.tables = final.tables
       this.schemaErrors = final.errors
+
+      const proceduresResponse = await this.internalQuery<ProceduresResponse>({
+        sql: this.PROCEDURES_SQL,
+      })
+      const procedureRows: ProceduresResponse[] = proceduresResponse.rows || []
+      this.procedures = procedureRows.map(procedure => ({
+        name: procedure.OBJECT_NAME,
+        type: StoredProcedureType.PROCEDURE,
+      }))
     }
 
     private async internalQuery<T>(query: SqlQuery): Promise<Result<T>> {
@@ -370,17 +476,122 @@ module OracleModule {
       }
     }
 
+    private async internalTransaction(queries: SqlQuery[]) {
+      let connection
+      try {
+        connection = await this.getConnection()
+        const responses = []
+        for (let query of queries) {
+          const bindings: BindParameters = query.bindings || []
+          responses.push(
+            await connection.execute(query.sql, bindings, { autoCommit: false })
+          )
+        }
+        await connection.commit()
+        return responses
+      } catch (err) {
+        if (connection) {
+          await connection.rollback()
+        }
+        throw err
+      } finally {
+        if (connection) {
+          try {
+            await connection.close()
+          } catch (err) {
+            console.error(err)
+          }
+        }
+      }
+    }
+
+    private getPool = (): Promise<Pool> => {
+      return getPool(
+        this.poolKey,
+        this.config,
+        ({ maxConnections, idleTimeoutMs }) => {
+          //connectString : "(DESCRIPTION =(ADDRESS = (PROTOCOL = TCP)(HOST = localhost)(PORT = 1521))(CONNECT_DATA =(SID= ORCL)))"
+          const connectString = `${this.config.host}:${
+            this.config.port || 1521
+          }/${this.config.database}`
+          const attributes: PoolAttributes = {
+            user: this.config.user,
+            password: this.config.password,
+            connectString,
+            poolMin: 0,
+            poolMax: maxConnections,
+            poolTimeout: Math.ceil(idleTimeoutMs / 1000),
+          }
+          return oracledb.createPool(attributes)
+        },
+        // give any in progress queries a chance to complete
+        pool => pool.close(10)
+      )
+    }
+
+    // closing a pooled connection returns it to the pool
     private getConnection = async (): Promise<Connection> => {
-      //connectString : "(DESCRIPTION =(ADDRESS = (PROTOCOL = TCP)(HOST = localhost)(PORT = 1521))(CONNECT_DATA =(SID= ORCL)))"
-      const connectString = `${this.config.host}:${this.config.port || 1521}/${
-        this.config.database
-      }`
-      const attributes: ConnectionAttributes = {
-        user: this.config.user,
-        password: this.config.password,
-        connectString,
+      const pool = await this.getPool()
+      return pool.getConnection()
+    }
+
+    private static getProcedureBind(param: ProcedureParameter): BindParameter {
+      const bind: BindParameter = {}
+      switch (param.direction) {
+        case ProcedureParameterDirection.OUT:
+          bind.dir = oracledb.BIND_OUT
+          break
+        case ProcedureParameterDirection.INOUT:
+          bind.dir = oracledb.BIND_INOUT
+          bind.val = param.value
+          break
+        default:
+          bind.dir = oracledb.BIND_IN
+          bind.val = param.value
+      }
+      const type = param.type ? convertSqlType(param.type).type : null
+      if (type === FieldTypes.NUMBER) {
+        bind.type = oracledb.NUMBER
+      } else if (type === FieldTypes.DATETIME) {
+        bind.type = oracledb.DATE
+      } else if (bind.dir !== oracledb.BIND_IN) {
+        // output parameters must have a type, default to a string
+        bind.type = oracledb.STRING
+        bind.maxSize = 4000
+      }
+      return bind
+    }
+
+    /**
+     * Any cursors returned by the procedure using DBMS_SQL.RETURN_RESULT are the result sets.
+     */
+    async procedure(query: ProcedureQuery) {
+      const binds: Record<string, BindParameter> = {}
+      for (let param of query.parameters) {
+        binds[param.name] = OracleIntegration.getProcedureBind(param)
+      }
+      const args = query.parameters.map(param => `:${param.name}`)
+      let connection
+      try {
+        connection = await this.getConnection()
+        const response = await connection.execute<any>(
+          `BEGIN ${query.procedure}(${args.join(", ")}); END;`,
+          binds,
+          { autoCommit: true }
+        )
+        return buildProcedureResponse(
+          (response.implicitResults as any[][]) || [],
+          (response.outBinds as Record<string, any>) || {}
+        )
+      } finally {
+        if (connection) {
+          try {
+            await connection.close()
+          } catch (err) {
+            console.error(err)
+          }
+        }
       }
-      return oracledb.getConnection(attributes)
     }
 
     async create(query: SqlQuery | string): Promise<any[]> {
@@ -412,6 +623,10 @@ module OracleModule {
     async query(json: QueryJson) {
       const operation = this._operation(json)
       const input = this._query(json, { disableReturning: true })
+      if (this.requiresTransaction(json)) {
+        await this.internalTransaction(Array.isArray(input) ? input : [input])
+        return [{ [operation.toLowerCase()]: true }]
+      }
       if (Array.isArray(input)) {
         const responses = []
         for (let query of input) {
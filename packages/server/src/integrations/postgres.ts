@@ -4,6 +4,11 @@ import {
   QueryTypes,
   QueryJson,
   SqlQuery,
+  SourceNames,
+  ProcedureQuery,
+  ProcedureParameterDirection,
+  StoredProcedure,
+  StoredProcedureType,
 } from "../definitions/datasource"
 import { Table } from "../definitions/common"
 import {
@@ -12,15 +17,26 @@ import {
   convertSqlType,
   finaliseExternalTables,
   SqlClients,
+  ForeignKey,
+  getSchemaList,
+  buildProcedureResponse,
+  quoteIdentifier,
+  quoteLiteral,
 } from "./utils"
 import { DatasourcePlus } from "./base/datasourcePlus"
+import {
+  getPool,
+  getPoolKey,
+  DEFAULT_MAX_CONNECTIONS,
+} from "./base/connectionPool"
 
 module PostgresModule {
-  const { Client } = require("pg")
+  const { Pool } = require("pg")
   const Sql = require("./base/sql")
   const { escapeDangerousCharacters } = require("../utilities")
 
   const JSON_REGEX = /'{.*}'::json/s
+  const DEFAULT_SCHEMA = "public"
 
   interface PostgresConfig {
     host: string
@@ -32,6 +48,7 @@ module PostgresModule {
     ssl?: boolean
     ca?: string
     rejectUnauthorized?: boolean
+    maxConnections?: number
   }
 
   const SCHEMA: Integration = {
@@ -66,9 +83,10 @@ module PostgresModule {
         default: "root",
         required: true,
       },
+      // multiple schemas can be provided as a comma separated list
       schema: {
         type: DatasourceFieldTypes.STRING,
-        default: "public",
+        default: DEFAULT_SCHEMA,
         required: true,
       },
       ssl: {
@@ -86,6 +104,11 @@ module PostgresModule {
         default: false,
         required: false,
       },
+      maxConnections: {
+        type: DatasourceFieldTypes.NUMBER,
+        default: DEFAULT_MAX_CONNECTIONS,
+        required: false,
+      },
     },
     query: {
       create: {
@@ -100,17 +123,33 @@ module PostgresModule {
       delete: {
         type: QueryTypes.SQL,
       },
+      procedure: {
+        type: QueryTypes.FIELDS,
+        displayName: "Procedure",
+        fields: {
+          procedure: {
+            type: DatasourceFieldTypes.STRING,
+            required: true,
+          },
+        },
+      },
     },
   }
 
   class PostgresIntegration extends Sql implements DatasourcePlus {
-    private readonly client: any
+    private client: any
     private readonly config: PostgresConfig
+    private readonly poolKey: string
     private index: number = 1
     public tables: Record<string, Table> = {}
     public schemaErrors: Record<string, string> = {}
+    public procedures: StoredProcedure[] = []
 
     COLUMNS_SQL!: string
+    FOREIGN_KEYS_SQL!: string
+    VIEWS_SQL!: string
+    MATERIALIZED_VIEW_COLUMNS_SQL!: string
+    ROUTINES_SQL!: string
 
     PRIMARY_KEYS_SQL = `
     select tc.table_schema, tc.table_name, kc.column_name as primary_key 
@@ -124,21 +163,31 @@ module PostgresModule {
 
     constructor(config: PostgresConfig) {
       super(SqlClients.POSTGRES)
+      this.poolKey = getPoolKey(SourceNames.POSTGRES, config)
       this.config = config
-
-      let newConfig = {
-        ...this.config,
-        ssl: this.config.ssl
-          ? {
-              rejectUnauthorized: this.config.rejectUnauthorized,
-              ca: this.config.ca,
-            }
-          : undefined,
-      }
-      this.client = new Client(newConfig)
       this.open = false
     }
 
+    getPool() {
+      return getPool(
+        this.poolKey,
+        this.config,
+        ({ maxConnections, idleTimeoutMs }) =>
+          new Pool({
+            ...this.config,
+            ssl: this.config.ssl
+              ? {
+                  rejectUnauthorized: this.config.rejectUnauthorized,
+                  ca: this.config.ca,
+                }
+              : undefined,
+            max: maxConnections,
+            idleTimeoutMillis: idleTimeoutMs,
+          }),
+        pool => pool.end()
+      )
+    }
+
     getBindingIdentifier(): string {
       return `$${this.index++}`
     }
@@ -147,28 +196,79 @@ module PostgresModule {
       return parts.join(" || ")
     }
 
+    getSchemas() {
+      return getSchemaList(this.config.schema, DEFAULT_SCHEMA)
+    }
+
+    /**
+     * Tables in the primary schema keep their name, tables from any other schema are
+     * named with their schema so that they can't clash.
+     */
+    getTableName(schema: string, tableName: string) {
+      return schema === this.getSchemas()[0]
+        ? tableName
+        : `${schema}.${tableName}`
+    }
+
     async openConnection() {
-      await this.client.connect()
-      if (!this.config.schema) {
-        this.config.schema = "public"
+      const pool = await this.getPool()
+      this.client = await pool.connect()
+      const schemas = this.getSchemas()
+      const schemaList = schemas.map(quoteLiteral).join(", ")
+      // connections are re-used, make sure the search path is for this datasource
+      try {
+        await this.client.query(
+          `SET search_path TO ${schemas.map(quoteIdentifier).join(", ")}`
+        )
+      } catch (err) {
+        // the connection isn't open yet, it has to be returned to the pool here
+        this.client.release(err)
+        throw err
       }
-      this.client.query(`SET search_path TO ${this.config.schema}`)
-      this.COLUMNS_SQL = `select * from information_schema.columns where table_schema = '${this.config.schema}'`
+      this.COLUMNS_SQL = `select * from information_schema.columns where table_schema in (${schemaList})`
+      this.FOREIGN_KEYS_SQL = `
+      select tc.constraint_name, tc.table_schema, tc.table_name, kc.column_name,
+        cc.table_schema as referenced_table_schema,
+        cc.table_name as referenced_table_name, cc.column_name as referenced_column_name
+      from information_schema.table_constraints tc
+      join
+        information_schema.key_column_usage kc on kc.constraint_name = tc.constraint_name
+        and kc.table_schema = tc.table_schema
+      join
+        information_schema.constraint_column_usage cc on cc.constraint_name = tc.constraint_name
+        and cc.table_schema = tc.table_schema
+      where tc.constraint_type = 'FOREIGN KEY' and tc.table_schema in (${schemaList});
+      `
+      this.VIEWS_SQL = `select table_schema, table_name from information_schema.views where table_schema in (${schemaList})`
+      // materialized views aren't part of the information schema
+      this.MATERIALIZED_VIEW_COLUMNS_SQL = `
+      select n.nspname as table_schema, c.relname as table_name, a.attname as column_name,
+        format_type(a.atttypid, a.atttypmod) as data_type
+      from pg_class c
+      join pg_namespace n on n.oid = c.relnamespace
+      join pg_attribute a on a.attrelid = c.oid
+      where c.relkind = 'm' and n.nspname in (${schemaList})
+        and a.attnum > 0 and not a.attisdropped
+      order by a.attnum;
+      `
+      this.ROUTINES_SQL = `
+      select routine_schema, routine_name, routine_type from information_schema.routines
+      where routine_schema in (${schemaList}) and data_type is distinct from 'trigger'
+      order by routine_name;
+      `
       this.open = true
     }
 
-    closeConnection() {
-      const pg = this
-      return new Promise<void>((resolve, reject) => {
-        this.client.end((err: any) => {
-          pg.open = false
-          if (err) {
-            reject(err)
-          } else {
-            resolve()
-          }
-        })
-      })
+    /**
+     * Returns the connection to the pool, if the connection is in an unknown state (after an
+     * error) it is destroyed instead, this will also roll back any open transaction.
+     */
+    async closeConnection(destroy: boolean = false) {
+      if (!this.open) {
+        return
+      }
+      this.open = false
+      this.client.release(destroy)
     }
 
     async internalQuery(query: SqlQuery, close: boolean = true) {
@@ -191,7 +291,7 @@ module PostgresModule {
       try {
         return await client.query(query.sql, query.bindings || [])
       } catch (err) {
-        await this.closeConnection()
+        await this.closeConnection(true)
         // @ts-ignore
         throw new Error(err)
       } finally {
@@ -201,6 +301,17 @@ module PostgresModule {
       }
     }
 
+    async internalTransaction(queries: SqlQuery[]) {
+      const responses = []
+      // any error will destroy the connection, which rolls back the transaction
+      await this.internalQuery({ sql: "BEGIN" }, false)
+      for (let query of queries) {
+        responses.push(await this.internalQuery(query, false))
+      }
+      await this.internalQuery({ sql: "COMMIT" })
+      return responses
+    }
+
     /**
      * Fetches the tables from the postgres table and assigns them to the datasource.
      * @param {*} datasourceId - datasourceId to fetch
@@ -214,7 +325,10 @@ module PostgresModule {
           this.PRIMARY_KEYS_SQL
         )
         for (let table of primaryKeysResponse.rows) {
-          const tableName = table.table_name
+          const tableName = this.getTableName(
+            table.table_schema,
+            table.table_name
+          )
           if (!tableKeys[tableName]) {
             tableKeys[tableName] = []
           }
@@ -228,23 +342,64 @@ module PostgresModule {
         tableKeys = {}
       }
 
+      let foreignKeys: ForeignKey[] = []
+      try {
+        const foreignKeysResponse = await this.client.query(
+          this.FOREIGN_KEYS_SQL
+        )
+        foreignKeys = foreignKeysResponse.rows.map((row: any) => ({
+          constraint: row.constraint_name,
+          table: this.getTableName(row.table_schema, row.table_name),
+          column: row.column_name,
+          referencedTable: this.getTableName(
+            row.referenced_table_schema,
+            row.referenced_table_name
+          ),
+          referencedColumn: row.referenced_column_name,
+        }))
+      } catch (err) {
+        // relationships can still be setup manually
+        foreignKeys = []
+      }
+
       try {
         const columnsResponse = await this.client.query(this.COLUMNS_SQL)
+        const viewsResponse = await this.client.query(this.VIEWS_SQL)
+        const materializedResponse = await this.client.query(
+          this.MATERIALIZED_VIEW_COLUMNS_SQL
+        )
+        const views: string[] = [
+          ...viewsResponse.rows,
+          ...materializedResponse.rows,
+        ].map((view: any) =>
+          this.getTableName(view.table_schema, view.table_name)
+        )
 
         const tables: { [key: string]: Table } = {}
 
-        for (let column of columnsResponse.rows) {
-          const tableName: string = column.table_name
+        for (let column of [
+          ...columnsResponse.rows,
+          ...materializedResponse.rows,
+        ]) {
+          const schema: string = column.table_schema
+          const tableName = this.getTableName(schema, column.table_name)
           const columnName: string = column.column_name
 
           // table key doesn't exist yet
           if (!tables[tableName] || !tables[tableName].schema) {
             tables[tableName] = {
-              _id: buildExternalTableId(datasourceId, tableName),
+              _id: buildExternalTableId(
+                datasourceId,
+                column.table_name,
+                tableName !== column.table_name ? schema : undefined
+              ),
               primary: tableKeys[tableName] || [],
               name: tableName,
               schema: {},
             }
+            if (views.includes(tableName)) {
+              tables[tableName].readonly = true
+            }
           }
 
           const identity = !!(
@@ -265,9 +420,26 @@ module PostgresModule {
           }
         }
 
-        const final = finaliseExternalTables(tables, entities)
+        const final = finaliseExternalTables(tables, entities, foreignKeys)
         this.tables = final.tables
         this.schemaErrors = final.errors
+
+        try {
+          const routinesResponse = await this.client.query(this.ROUTINES_SQL)
+          this.procedures = routinesResponse.rows.map((routine: any) => ({
+            name: this.getTableName(
+              routine.routine_schema,
+              routine.routine_name
+            ),
+            type:
+              routine.routine_type === "FUNCTION"
+                ? StoredProcedureType.FUNCTION
+                : StoredProcedureType.PROCEDURE,
+          }))
+        } catch (err) {
+          // procedures are optional, the tables can still be used
+          this.procedures = []
+        }
       } catch (err) {
         // @ts-ignore
         throw new Error(err)
@@ -296,9 +468,75 @@ module PostgresModule {
       return response.rows.length ? response.rows : [{ deleted: true }]
     }
 
+    /**
+     * Functions are selected from, so that any set they return is the result set, procedures
+     * are called and return a single row containing their OUT/INOUT parameters.
+     */
+    async procedure(query: ProcedureQuery) {
+      const parts = query.procedure.split(".")
+      const routineName = parts.pop()
+      const schemas = parts.length ? parts : this.getSchemas()
+      const schemaList = schemas.map(quoteLiteral).join(", ")
+      try {
+        const routineResponse = await this.internalQuery(
+          {
+            sql: `select routine_type from information_schema.routines where routine_name = $1 and routine_schema in (${schemaList}) limit 1`,
+            bindings: [routineName!],
+          },
+          false
+        )
+        if (!routineResponse.rows.length) {
+          throw `Procedure "${query.procedure}" does not exist.`
+        }
+        const isFunction = routineResponse.rows[0].routine_type === "FUNCTION"
+        const args: string[] = [],
+          bindings: any[] = [],
+          outputs: string[] = []
+        for (let param of query.parameters) {
+          if (param.direction !== ProcedureParameterDirection.IN) {
+            outputs.push(param.name)
+          }
+          // OUT parameters are only passed to procedures, as placeholders
+          if (param.direction === ProcedureParameterDirection.OUT) {
+            if (!isFunction) {
+              args.push("NULL")
+            }
+            continue
+          }
+          bindings.push(param.value)
+          args.push(`$${bindings.length}`)
+        }
+        const name = query.procedure.split(".").map(quoteIdentifier).join(".")
+        const response = await this.internalQuery(
+          {
+            sql: isFunction
+              ? `select * from ${name}(${args.join(", ")})`
+              : `call ${name}(${args.join(", ")})`,
+            bindings,
+          },
+          false
+        )
+        if (!isFunction) {
+          return buildProcedureResponse([], response.rows[0] || {})
+        }
+        const outputParameters: Record<string, any> = {}
+        for (let output of outputs) {
+          outputParameters[output] = response.rows[0]?.[output]
+        }
+        return buildProcedureResponse([response.rows], outputParameters)
+      } finally {
+        await this.closeConnection()
+      }
+    }
+
     async query(json: QueryJson) {
+      this.qualifyEndpoint(json, this.getSchemas())
       const operation = this._operation(json).toLowerCase()
       const input = this._query(json)
+      if (this.requiresTransaction(json)) {
+        await this.internalTransaction(Array.isArray(input) ? input : [input])
+        return [{ [operation]: true }]
+      }
       if (Array.isArray(input)) {
         const responses = []
         for (let query of input) {
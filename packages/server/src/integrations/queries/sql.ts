@@ -1,6 +1,13 @@
 import { findHBSBlocks, processStringSync } from "@budibase/string-templates"
-import { Integration } from "../../definitions/datasource"
+import {
+  Integration,
+  ProcedureParameterDirection,
+  ProcedureQuery,
+  QueryParameter,
+} from "../../definitions/datasource"
 import { DatasourcePlus } from "../base/datasourcePlus"
+import { FieldTypes } from "../../constants"
+import { convertSqlType, isSqlIdentifier } from "../utils"
 
 const CONST_CHAR_REGEX = new RegExp("'[^']*'", "g")
 
@@ -123,3 +130,51 @@ export function interpolateSQL(
   fields.bindings = updated
   return fields
 }
+
+function convertProcedureValue(value: any, type: string | undefined) {
+  if (!type || value == null || typeof value !== "string") {
+    return value
+  }
+  const fieldType = convertSqlType(type).type
+  if (fieldType !== FieldTypes.STRING && value.trim() === "") {
+    return null
+  }
+  switch (fieldType) {
+    case FieldTypes.NUMBER:
+      return isNaN(parseFloat(value)) ? value : parseFloat(value)
+    case FieldTypes.BOOLEAN:
+      return value.toLowerCase() === "true"
+    default:
+      return value
+  }
+}
+
+/**
+ * Procedure queries don't have SQL to bind into, instead each of the query parameters is
+ * converted to its type and passed to the procedure - OUT parameters don't have a value.
+ */
+export function enrichProcedureFields(
+  fields: { [key: string]: any },
+  parameters: { [key: string]: any },
+  definitions: QueryParameter[] = []
+): ProcedureQuery {
+  const procedure = fields.procedure
+  if (!isSqlIdentifier(procedure)) {
+    throw `Invalid procedure name "${procedure}"`
+  }
+  return {
+    procedure,
+    parameters: definitions.map(definition => {
+      // parameters can't be qualified like procedure names can
+      if (!isSqlIdentifier(definition.name) || definition.name.includes(".")) {
+        throw `Invalid procedure parameter name "${definition.name}"`
+      }
+      const direction = definition.direction || ProcedureParameterDirection.IN
+      const value =
+        direction === ProcedureParameterDirection.OUT
+          ? undefined
+          : convertProcedureValue(parameters[definition.name], definition.type)
+      return { name: definition.name, type: definition.type, direction, value }
+    }),
+  }
+}
@@ -8,9 +8,18 @@ import {
   AuthType,
   BasicAuthConfig,
   BearerAuthConfig,
+  OAuth2AuthConfig,
+  ApiKeyAuthConfig,
+  ApiKeyLocation,
+  HmacAuthConfig,
+  HmacTimestampFormat,
+  CustomAuthConfig,
+  AuthConfig,
   PaginationValues,
+  PaginationType,
 } from "../definitions/datasource"
 import { IntegrationBase } from "./base/IntegrationBase"
+import { getOAuth2AuthHeader } from "./base/oauth2"
 import { get } from "lodash"
 
 const BodyTypes = {
@@ -22,6 +31,17 @@ const BodyTypes = {
   TEXT: "text",
 }
 
+const DEFAULT_STRING_TO_SIGN = "{timestamp}\n{method}\n{path}\n{body}"
+
+// guards for fetching all pages, so a misconfigured query can't request pages forever
+const DEFAULT_MAX_PAGES = 100
+const DEFAULT_MAX_ROWS = 10000
+
+const DEFAULT_RETRY_DELAY_MS = 1000
+const MAX_RETRY_DELAY_MS = 30000
+// requests which failed with these methods can be sent again without side effects
+const IDEMPOTENT_METHODS = ["GET", "HEAD", "PUT", "DELETE", "OPTIONS"]
+
 const coreFields = {
   path: {
     type: DatasourceFieldTypes.STRING,
@@ -50,10 +70,11 @@ const coreFields = {
 
 module RestModule {
   const fetch = require("node-fetch")
-  const { formatBytes } = require("../utilities")
+  const { formatBytes, wait } = require("../utilities")
   const { performance } = require("perf_hooks")
   const FormData = require("form-data")
-  const { URLSearchParams } = require("url")
+  const crypto = require("crypto")
+  const { URL, URLSearchParams } = require("url")
   const {
     parseStringPromise: xmlParser,
     Builder: XmlBuilder,
@@ -76,6 +97,22 @@ module RestModule {
         required: false,
         default: {},
       },
+      requestTimeout: {
+        type: DatasourceFieldTypes.NUMBER,
+        display: "Request timeout (ms)",
+        required: false,
+      },
+      retries: {
+        type: DatasourceFieldTypes.NUMBER,
+        required: false,
+        default: 0,
+      },
+      retryDelay: {
+        type: DatasourceFieldTypes.NUMBER,
+        display: "Retry delay (ms)",
+        required: false,
+        default: DEFAULT_RETRY_DELAY_MS,
+      },
     },
     query: {
       create: {
@@ -307,36 +344,157 @@ module RestModule {
       return input
     }
 
-    getAuthHeaders(authConfigId: string): { [key: string]: any } {
+    getAuthConfig(authConfigId: string): AuthConfig | undefined {
+      if (!this.config.authConfigs || !authConfigId) {
+        return undefined
+      }
+      // check the config still exists before proceeding
+      // if not - do nothing
+      return this.config.authConfigs.filter(c => c._id === authConfigId)[0]
+    }
+
+    async getAuthHeaders(
+      authConfigId: string
+    ): Promise<{ [key: string]: any }> {
       let headers: any = {}
 
-      if (this.config.authConfigs && authConfigId) {
-        const authConfig = this.config.authConfigs.filter(
-          c => c._id === authConfigId
-        )[0]
-        // check the config still exists before proceeding
-        // if not - do nothing
-        if (authConfig) {
-          let config
-          switch (authConfig.type) {
-            case AuthType.BASIC:
-              config = authConfig.config as BasicAuthConfig
-              headers.Authorization = `Basic ${Buffer.from(
-                `${config.username}:${config.password}`
-              ).toString("base64")}`
-              break
-            case AuthType.BEARER:
-              config = authConfig.config as BearerAuthConfig
-              headers.Authorization = `Bearer ${config.token}`
-              break
-          }
+      const authConfig = this.getAuthConfig(authConfigId)
+      if (authConfig) {
+        let config
+        switch (authConfig.type) {
+          case AuthType.BASIC:
+            config = authConfig.config as BasicAuthConfig
+            headers.Authorization = `Basic ${Buffer.from(
+              `${config.username}:${config.password}`
+            ).toString("base64")}`
+            break
+          case AuthType.BEARER:
+            config = authConfig.config as BearerAuthConfig
+            headers.Authorization = `Bearer ${config.token}`
+            break
+          case AuthType.OAUTH2:
+            config = authConfig.config as OAuth2AuthConfig
+            headers.Authorization = await getOAuth2AuthHeader(
+              authConfig._id,
+              config
+            )
+            break
+          case AuthType.API_KEY:
+            config = authConfig.config as ApiKeyAuthConfig
+            if (config.location !== ApiKeyLocation.QUERY) {
+              headers[config.name] = config.value
+            }
+            break
+          case AuthType.CUSTOM:
+            config = authConfig.config as CustomAuthConfig
+            headers = { ...config.headers }
+            break
         }
       }
 
       return headers
     }
 
+    addAuthToUrl(url: string, authConfig: AuthConfig | undefined): string {
+      if (authConfig?.type !== AuthType.API_KEY) {
+        return url
+      }
+      const config = authConfig.config as ApiKeyAuthConfig
+      if (config.location !== ApiKeyLocation.QUERY) {
+        return url
+      }
+      const param = `${encodeURIComponent(config.name)}=${encodeURIComponent(
+        config.value
+      )}`
+      // links to the next page may already include the key
+      if (url.includes(`?${param}`) || url.includes(`&${param}`)) {
+        return url
+      }
+      if (!url.includes("?")) {
+        return `${url}?${param}`
+      }
+      return url.endsWith("?") || url.endsWith("&")
+        ? `${url}${param}`
+        : `${url}&${param}`
+    }
+
+    /**
+     * Signatures are computed over the final request, so this must be called once the
+     * URL and body of the request have been built. The signature is a single HMAC of the
+     * string to sign, AWS SigV4 signatures can't be computed this way.
+     */
+    getSignatureHeaders(
+      authConfig: AuthConfig | undefined,
+      method: string,
+      url: string,
+      body: any
+    ): { [key: string]: string } {
+      if (authConfig?.type !== AuthType.HMAC) {
+        return {}
+      }
+      const config = authConfig.config as HmacAuthConfig
+      if (body instanceof FormData) {
+        throw "HMAC signatures can't be computed for form data request bodies."
+      }
+      const now = new Date()
+      let timestamp
+      switch (config.timestampFormat) {
+        case HmacTimestampFormat.MILLISECONDS:
+          timestamp = `${now.getTime()}`
+          break
+        case HmacTimestampFormat.ISO:
+          timestamp = now.toISOString()
+          break
+        default:
+          timestamp = `${Math.floor(now.getTime() / 1000)}`
+      }
+      const { pathname, search } = new URL(url)
+      const values: { [key: string]: string } = {
+        method,
+        path: pathname,
+        query: search.replace(/^\?/, ""),
+        body: body == null ? "" : body.toString(),
+        timestamp,
+      }
+      const fill = (template: string) =>
+        template.replace(/{(\w+)}/g, (match, key) =>
+          values[key] != null ? values[key] : match
+        )
+      let signature
+      try {
+        signature = crypto
+          .createHmac(config.algorithm || "sha256", config.secret || "")
+          .update(fill(config.stringToSign || DEFAULT_STRING_TO_SIGN))
+          .digest(config.encoding || "hex")
+      } catch (err) {
+        throw `Failed to compute HMAC signature - ${err}`
+      }
+      values.signature = signature
+      const headers: { [key: string]: string } = {
+        [config.signatureHeader]: fill(config.signatureFormat || "{signature}"),
+      }
+      if (config.timestampHeader) {
+        headers[config.timestampHeader] = timestamp
+      }
+      return headers
+    }
+
     async _req(query: RestQuery) {
+      if (query.pagination?.fetchAll) {
+        return this.fetchAllPages(query)
+      }
+      return this.fetchPage(query, query.paginationValues)
+    }
+
+    /**
+     * Makes a single request, the URL can be provided when it is known ahead of time,
+     * e.g. the next page from a link header.
+     */
+    async fetchPage(
+      query: RestQuery,
+      paginationValues: PaginationValues | null,
+      nextUrl?: string
+    ) {
       const {
         path = "",
         queryString = "",
@@ -347,9 +505,9 @@ module RestModule {
         requestBody,
         authConfigId,
         pagination,
-        paginationValues,
       } = query
-      const authHeaders = this.getAuthHeaders(authConfigId)
+      const authConfig = this.getAuthConfig(authConfigId)
+      const authHeaders = await this.getAuthHeaders(authConfigId)
 
       this.headers = {
         ...this.config.defaultHeaders,
@@ -375,9 +533,211 @@ module RestModule {
       )
 
       this.startTimeMs = performance.now()
-      const url = this.getUrl(path, queryString, pagination, paginationValues)
-      const response = await fetch(url, input)
-      return await this.parseResponse(response, pagination)
+      const url = this.addAuthToUrl(
+        nextUrl || this.getUrl(path, queryString, pagination, paginationValues),
+        authConfig
+      )
+      Object.assign(
+        input.headers,
+        this.getSignatureHeaders(authConfig, method, url, input.body)
+      )
+      const { response, retries, rateLimited } = await this.fetchWithRetries(
+        url,
+        input
+      )
+      const output = await this.parseResponse(response, pagination)
+      return {
+        ...output,
+        info: { ...output.info, retries, rateLimited },
+        url,
+      }
+    }
+
+    getRetryDelay(attempt: number, response?: any) {
+      // the server knows best when it can handle the request again
+      const retryAfter = response?.headers?.get("retry-after")
+      if (retryAfter) {
+        const seconds = Number(retryAfter)
+        const delay = isNaN(seconds)
+          ? new Date(retryAfter).getTime() - Date.now()
+          : seconds * 1000
+        if (!isNaN(delay)) {
+          return Math.min(Math.max(delay, 0), MAX_RETRY_DELAY_MS)
+        }
+      }
+      const base =
+        parseInt(this.config.retryDelay as any) || DEFAULT_RETRY_DELAY_MS
+      return Math.min(base * 2 ** attempt, MAX_RETRY_DELAY_MS)
+    }
+
+    /**
+     * Sends the request, retrying with an exponential backoff when the server is rate
+     * limiting (429) or unavailable (5xx) or the request fails, up to the configured
+     * number of retries. Only rate limited requests are retried for non-idempotent
+     * methods, as the others may have already been processed.
+     */
+    async fetchWithRetries(url: string, input: any) {
+      const maxRetries = parseInt(this.config.retries as any) || 0
+      const timeout = parseInt(this.config.requestTimeout as any)
+      if (timeout) {
+        input.timeout = timeout
+      }
+      // form data is streamed, it can only be sent once
+      const canRetry = !(input.body instanceof FormData)
+      const idempotent = IDEMPOTENT_METHODS.includes(input.method)
+      let response,
+        error: any,
+        retries = 0,
+        rateLimited = false
+      for (let attempt = 0; attempt <= maxRetries; attempt++) {
+        response = undefined
+        error = undefined
+        try {
+          response = await fetch(url, input)
+        } catch (err) {
+          error = err
+        }
+        if (response?.status === 429) {
+          rateLimited = true
+        }
+        const retryable = response
+          ? response.status === 429 || (response.status >= 500 && idempotent)
+          : idempotent
+        if (!canRetry || !retryable || attempt === maxRetries) {
+          break
+        }
+        retries++
+        await wait(this.getRetryDelay(attempt, response))
+      }
+      if (error) {
+        if (error.type === "request-timeout") {
+          throw `Request timed out after ${timeout}ms.`
+        }
+        throw error
+      }
+      return { response, retries, rateLimited }
+    }
+
+    /**
+     * Links are only followed to the same origin as the current page, as the request
+     * is sent with the same authentication - a link to any other host ends the pages.
+     */
+    getNextLink(linkHeader: string | undefined, url: string) {
+      if (!linkHeader) {
+        return undefined
+      }
+      // RFC 5988 format, e.g. <https://api.com/items?page=2>; rel="next"
+      for (let link of linkHeader.split(",")) {
+        const match = link.match(/<([^>]*)>(.*)/)
+        if (match && /rel="?([^"]*\s)?next[\s"]?/i.test(match[2])) {
+          const next = new URL(match[1].trim(), url)
+          return next.origin === new URL(url).origin
+            ? next.toString()
+            : undefined
+        }
+      }
+      return undefined
+    }
+
+    /**
+     * Fetches every page of a paginated query, following the page numbers, offsets, cursors
+     * or link headers of the API until there are no more pages or a guard is reached.
+     * The rows of each page are combined into the data of a single response.
+     */
+    async fetchAllPages(query: RestQuery) {
+      const pagination = query.pagination as PaginationConfig
+      const maxPages = pagination.maxPages || DEFAULT_MAX_PAGES
+      const maxRows = pagination.maxRows || DEFAULT_MAX_ROWS
+      const limit = query.paginationValues?.limit ?? pagination.pageSize ?? null
+      let page = query.paginationValues?.page ?? null
+      if (page == null && pagination.type === PaginationType.PAGE) {
+        page = 1
+      } else if (page == null && pagination.type === PaginationType.OFFSET) {
+        page = 0
+      }
+      const startTimeMs = performance.now()
+      let values: PaginationValues = { page, limit }
+      let rows: any[] = [],
+        pages = 0,
+        bytes = 0,
+        truncated = false,
+        nextUrl: string | undefined,
+        hasNext = true,
+        response: any
+      while (hasNext) {
+        response = await this.fetchPage(query, values, nextUrl)
+        pages++
+        // errors are returned as they would be for a single page
+        if (response.info.code >= 400) {
+          return response
+        }
+        bytes += Buffer.byteLength(response.extra.raw || "", "utf8")
+        const pageRows = pagination.dataParam
+          ? get(response.data, pagination.dataParam)
+          : response.data
+        if (!Array.isArray(pageRows)) {
+          if (pages === 1) {
+            return response
+          }
+          break
+        }
+        rows = rows.concat(pageRows)
+
+        hasNext =
+          pageRows.length > 0 && (limit == null || pageRows.length >= limit)
+        switch (pagination.type) {
+          case PaginationType.PAGE:
+            values = { ...values, page: Number(values.page) + 1 }
+            break
+          case PaginationType.OFFSET:
+            values = { ...values, page: Number(values.page) + pageRows.length }
+            break
+          case PaginationType.CURSOR:
+            const cursor = response.pagination.cursor
+            hasNext =
+              pageRows.length > 0 &&
+              cursor != null &&
+              cursor !== "" &&
+              cursor !== values.page
+            values = { ...values, page: cursor }
+            break
+          case PaginationType.LINK:
+            nextUrl = this.getNextLink(
+              response.extra.headers.link,
+              response.url
+            )
+            hasNext = pageRows.length > 0 && !!nextUrl
+            break
+          default:
+            hasNext = false
+        }
+        if (hasNext && (pages >= maxPages || rows.length >= maxRows)) {
+          truncated = true
+          break
+        }
+      }
+      if (rows.length > maxRows) {
+        rows = rows.slice(0, maxRows)
+        truncated = true
+      }
+      const raw = JSON.stringify(rows)
+      return {
+        data: rows,
+        info: {
+          ...response.info,
+          size: formatBytes(bytes),
+          time: `${Math.round(performance.now() - startTimeMs)}ms`,
+          pages,
+          truncated,
+        },
+        extra: {
+          raw,
+          headers: response.extra.headers,
+        },
+        pagination: {
+          cursor: null,
+        },
+      }
     }
 
     async create(opts: RestQuery) {
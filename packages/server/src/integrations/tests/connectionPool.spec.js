@@ -0,0 +1,76 @@
+const {
+  getPool,
+  getPoolKey,
+  invalidatePool,
+  closeAllPools,
+} = require("../base/connectionPool")
+const redis = require("@budibase/backend-core/redis")
+const { SEPARATOR } = require("@budibase/backend-core/db")
+
+describe("Connection pools", () => {
+  const config = { host: "localhost", port: 5432, maxConnections: 5 }
+  let create, close
+
+  beforeEach(() => {
+    create = jest.fn(opts => ({ opts }))
+    close = jest.fn()
+  })
+
+  afterEach(async () => {
+    jest.restoreAllMocks()
+    await closeAllPools()
+  })
+
+  it("should generate the same key regardless of config key order", () => {
+    const key = getPoolKey("POSTGRES", { port: 5432, host: "localhost" })
+    expect(getPoolKey("POSTGRES", { host: "localhost", port: 5432 })).toBe(key)
+    expect(getPoolKey("MYSQL", { host: "localhost", port: 5432 })).not.toBe(key)
+  })
+
+  it("should re-use the pool for the same config", async () => {
+    const key = getPoolKey("POSTGRES", config)
+    const pool = await getPool(key, config, create, close)
+    expect(await getPool(key, config, create, close)).toBe(pool)
+    expect(create).toHaveBeenCalledTimes(1)
+    expect(pool.opts.maxConnections).toBe(5)
+  })
+
+  it("should close and re-create the pool after it has been invalidated", async () => {
+    const key = getPoolKey("POSTGRES", config)
+    const pool = await getPool(key, config, create, close)
+    await invalidatePool("POSTGRES", { ...config })
+    expect(close).toHaveBeenCalledWith(pool)
+    expect(await getPool(key, config, create, close)).not.toBe(pool)
+    expect(create).toHaveBeenCalledTimes(2)
+  })
+
+  it("should close the pool once it has been invalidated by another process", async () => {
+    const key = getPoolKey("POSTGRES", config)
+    const pool = await getPool(key, config, create, close)
+    const cache = await new redis.Client(
+      redis.utils.Databases.QUERY_VARS
+    ).init()
+    await cache.store(`pool${SEPARATOR}${key}`, "vother")
+    // the version is only checked periodically, not on every checkout
+    expect(await getPool(key, config, create, close)).toBe(pool)
+    const now = Date.now()
+    jest.spyOn(Date, "now").mockReturnValue(now + 60000)
+    expect(await getPool(key, config, create, close)).not.toBe(pool)
+    expect(close).toHaveBeenCalledWith(pool)
+    // the pool is only re-created once for each invalidation
+    await getPool(key, config, create, close)
+    expect(create).toHaveBeenCalledTimes(2)
+  })
+
+  it("should not keep a pool which failed to be created", async () => {
+    const key = getPoolKey("POSTGRES", config)
+    const failing = jest.fn(() => {
+      throw "Unable to connect"
+    })
+    await expect(getPool(key, config, failing, close)).rejects.toEqual(
+      "Unable to connect"
+    )
+    await getPool(key, config, create, close)
+    expect(create).toHaveBeenCalledTimes(1)
+  })
+})
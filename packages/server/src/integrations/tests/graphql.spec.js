@@ -0,0 +1,161 @@
+jest.mock("node-fetch", () => jest.fn())
+const fetch = require("node-fetch")
+const GraphQLIntegration = require("../graphql")
+const { AuthType } = require("../rest")
+
+const ENDPOINT = "https://myapi.com/graphql"
+
+class TestConfiguration {
+  constructor(config = {}) {
+    this.integration = new GraphQLIntegration.integration({
+      url: ENDPOINT,
+      ...config,
+    })
+  }
+}
+
+function mockResponse(body, status = 200) {
+  fetch.mockImplementationOnce(() => ({
+    status,
+    headers: {
+      raw: () => ({ "content-type": ["application/json"] }),
+      get: name => (name === "content-type" ? "application/json" : null),
+    },
+    json: jest.fn(() => body),
+  }))
+}
+
+function sentBody(call = 0) {
+  return JSON.parse(fetch.mock.calls[call][1].body)
+}
+
+describe("GraphQL Integration", () => {
+  let config
+
+  beforeEach(() => {
+    config = new TestConfiguration()
+    jest.clearAllMocks()
+  })
+
+  it("sends queries with their variables", async () => {
+    mockResponse({ data: { users: [{ id: 1 }, { id: 2 }] } })
+    const res = await config.integration.read({
+      query: "query Users($limit: Int) { users(limit: $limit) { id } }",
+      variables: '{ "limit": 2 }',
+    })
+    expect(fetch.mock.calls[0][0]).toEqual(`${ENDPOINT}?`)
+    expect(fetch.mock.calls[0][1].method).toEqual("POST")
+    expect(sentBody()).toEqual({
+      query: "query Users($limit: Int) { users(limit: $limit) { id } }",
+      variables: { limit: 2 },
+    })
+    expect(res.data).toEqual([{ id: 1 }, { id: 2 }])
+  })
+
+  it("sends mutations", async () => {
+    mockResponse({ data: { createUser: { id: 3 } } })
+    const res = await config.integration.create({
+      query: "mutation { createUser(name: \"test\") { id } }",
+      operationName: "CreateUser",
+    })
+    expect(sentBody().operationName).toEqual("CreateUser")
+    expect(res.data).toEqual({ id: 3 })
+  })
+
+  it("keeps the response data when there are multiple root fields", async () => {
+    mockResponse({ data: { users: [], count: 0 } })
+    const res = await config.integration.read({
+      query: "{ users { id } count }",
+    })
+    expect(res.data).toEqual({ users: [], count: 0 })
+  })
+
+  it("throws the errors of the response when there is no data", async () => {
+    mockResponse({ errors: [{ message: "Unknown field" }] })
+    await expect(
+      config.integration.read({ query: "{ unknown }" })
+    ).rejects.toEqual("Unknown field")
+  })
+
+  it("throws for invalid variables", async () => {
+    await expect(
+      config.integration.read({ query: "{ users { id } }", variables: "{" })
+    ).rejects.toEqual("Invalid JSON for GraphQL variables")
+  })
+
+  it("uses the auth configs of the datasource", async () => {
+    config = new TestConfiguration({
+      authConfigs: [
+        {
+          _id: "bearer",
+          type: AuthType.BEARER,
+          config: { token: "mytoken" },
+        },
+      ],
+    })
+    mockResponse({ data: { users: [] } })
+    await config.integration.read({
+      query: "{ users { id } }",
+      authConfigId: "bearer",
+    })
+    expect(fetch.mock.calls[0][1].headers.Authorization).toEqual(
+      "Bearer mytoken"
+    )
+  })
+
+  it("introspects the queries and mutations of the API", async () => {
+    const nonNull = ofType => ({ kind: "NON_NULL", name: null, ofType })
+    const named = name => ({ kind: "SCALAR", name })
+    mockResponse({
+      data: {
+        __schema: {
+          queryType: { name: "Query" },
+          mutationType: { name: "Mutation" },
+          types: [
+            {
+              name: "Query",
+              fields: [
+                {
+                  name: "users",
+                  args: [{ name: "limit", type: named("Int") }],
+                  type: nonNull({
+                    kind: "LIST",
+                    name: null,
+                    ofType: { kind: "OBJECT", name: "User" },
+                  }),
+                },
+              ],
+            },
+            {
+              name: "Mutation",
+              fields: [
+                {
+                  name: "deleteUser",
+                  args: [{ name: "id", type: nonNull(named("ID")) }],
+                  type: named("Boolean"),
+                },
+              ],
+            },
+          ],
+        },
+      },
+    })
+    const introspection = await config.integration.introspect()
+    expect(introspection).toEqual({
+      queries: [
+        {
+          name: "users",
+          type: "[User]!",
+          args: [{ name: "limit", type: "Int" }],
+        },
+      ],
+      mutations: [
+        {
+          name: "deleteUser",
+          type: "Boolean",
+          args: [{ name: "id", type: "ID!" }],
+        },
+      ],
+    })
+  })
+})
@@ -47,6 +47,27 @@ describe("Postgres Integration", () => {
     expect(pg.queryMock).toHaveBeenCalledWith(sql, [])
   })
 
+  it("releases the connection when the search path can't be set", async () => {
+    const err = new Error(`schema "missing" does not exist`)
+    pg.queryMock.mockImplementationOnce(() => {
+      throw err
+    })
+    pg.Client.prototype.release.mockClear()
+    await expect(config.integration.read({ sql: "select 1;" })).rejects.toThrow()
+    expect(pg.Client.prototype.release).toHaveBeenCalledWith(err)
+  })
+
+  it("quotes the schemas in the search path and schema queries", async () => {
+    config = new TestConfiguration({ schema: `public, my"schema'` })
+    await config.integration.read({ sql: "select 1;" })
+    expect(pg.queryMock).toHaveBeenCalledWith(
+      `SET search_path TO "public", "my""schema'"`
+    )
+    expect(config.integration.COLUMNS_SQL).toContain(
+      `in ('public', 'my"schema''')`
+    )
+  })
+
   describe("no rows returned", () => {
     beforeEach(() => {
       pg.queryMock.mockImplementation(() => ({ rows: [] }))
@@ -76,4 +97,53 @@ describe("Postgres Integration", () => {
       expect(response).toEqual([{ deleted: true }])
     })
   })
-})
\ No newline at end of file
+
+  describe("procedures", () => {
+    function mockRoutine(type, rows) {
+      pg.queryMock.mockImplementation(sql =>
+        sql.includes("information_schema.routines")
+          ? { rows: [{ routine_type: type }] }
+          : { rows }
+      )
+    }
+
+    it("calls a procedure with placeholders for the OUT parameters", async () => {
+      mockRoutine("PROCEDURE", [{ total: 3 }])
+      const response = await config.integration.procedure({
+        procedure: "count_orders",
+        parameters: [
+          { name: "customer", direction: "in", value: 1 },
+          { name: "total", direction: "out" },
+        ],
+      })
+      expect(pg.queryMock).toHaveBeenCalledWith(
+        `call "count_orders"($1, NULL)`,
+        [1]
+      )
+      expect(response.data).toEqual([{ total: 3 }])
+      expect(response.extra.outputParameters).toEqual({ total: 3 })
+    })
+
+    it("selects from a function and returns its result set", async () => {
+      const rows = [{ id: 1 }, { id: 2 }]
+      mockRoutine("FUNCTION", rows)
+      const response = await config.integration.procedure({
+        procedure: "sales.get_orders",
+        parameters: [{ name: "customer", direction: "in", value: 1 }],
+      })
+      expect(pg.queryMock).toHaveBeenCalledWith(
+        `select * from "sales"."get_orders"($1)`,
+        [1]
+      )
+      expect(response.data).toEqual(rows)
+      expect(response.info).toEqual({ resultSets: 1 })
+    })
+
+    it("throws when the procedure doesn't exist", async () => {
+      pg.queryMock.mockImplementation(() => ({ rows: [] }))
+      await expect(
+        config.integration.procedure({ procedure: "missing", parameters: [] })
+      ).rejects.toEqual(`Procedure "missing" does not exist.`)
+    })
+  })
+})
@@ -15,8 +15,12 @@ jest.mock("node-fetch", () =>
 const fetch = require("node-fetch")
 const RestIntegration = require("../rest")
 const { AuthType } = require("../rest")
+const { clearOAuth2Tokens } = require("../base/oauth2")
+const redis = require("@budibase/backend-core/redis")
+const { SEPARATOR } = require("@budibase/backend-core/db")
 const FormData = require("form-data")
 const { URLSearchParams } = require("url")
+const crypto = require("crypto")
 
 const HEADERS = {
   Accept: "application/json",
@@ -225,11 +229,61 @@ describe("REST Integration", () => {
       },
     }
 
-    beforeEach(() => {
+    const oauth2Auth = {
+      _id: "5f5a8f4d0f0a4f6c9d7e1b2a3c4d5e6f",
+      name: "oauth2-1",
+      type: AuthType.OAUTH2,
+      config: {
+        grantType: "client_credentials",
+        tokenUrl: "https://auth.myapi.com/token",
+        clientId: "client",
+        clientSecret: "secret",
+        scopes: "read write",
+      },
+    }
+
+    const otherAuth = [
+      {
+        _id: "api-key-header",
+        type: AuthType.API_KEY,
+        config: { name: "X-API-Key", value: "key", location: "header" },
+      },
+      {
+        _id: "api-key-query",
+        type: AuthType.API_KEY,
+        config: { name: "api_key", value: "a key", location: "query" },
+      },
+      {
+        _id: "custom",
+        type: AuthType.CUSTOM,
+        config: { headers: { "X-Client": "budibase", "X-Secret": "secret" } },
+      },
+      {
+        _id: "hmac",
+        type: AuthType.HMAC,
+        config: {
+          secret: "shhh",
+          signatureHeader: "X-Signature",
+          signatureFormat: "t={timestamp},v1={signature}",
+          stringToSign: "{timestamp}.{method}.{path}.{query}.{body}",
+          timestampHeader: "X-Timestamp",
+        },
+      },
+    ]
+
+    function mockToken(body) {
+      fetch.mockImplementationOnce(() => ({
+        status: 200,
+        json: jest.fn(() => body),
+      }))
+    }
+
+    beforeEach(async () => {
       config = new TestConfiguration({
         url: BASE_URL,
-        authConfigs: [basicAuth, bearerAuth],
+        authConfigs: [basicAuth, bearerAuth, oauth2Auth, ...otherAuth],
       })
+      await clearOAuth2Tokens()
     })
 
     it("adds basic auth", async () => {
@@ -257,6 +311,142 @@ describe("REST Integration", () => {
         },
       })
     })
+
+    it("adds oauth2 auth using client credentials", async () => {
+      mockToken({ access_token: "oauthtoken", token_type: "bearer" })
+      await config.integration.read({ authConfigId: oauth2Auth._id })
+      expect(fetch).toHaveBeenCalledTimes(2)
+      const [tokenUrl, tokenRequest] = fetch.mock.calls[0]
+      expect(tokenUrl).toEqual("https://auth.myapi.com/token")
+      expect(tokenRequest.method).toEqual("POST")
+      expect(tokenRequest.body.toString()).toEqual(
+        "grant_type=client_credentials&client_id=client&client_secret=secret&scope=read+write"
+      )
+      expect(fetch).toHaveBeenLastCalledWith(`${BASE_URL}/?`, {
+        method: "GET",
+        headers: {
+          Authorization: "Bearer oauthtoken",
+        },
+      })
+    })
+
+    it("re-uses oauth2 tokens until they are about to expire", async () => {
+      mockToken({ access_token: "first", expires_in: 3600 })
+      await config.integration.read({ authConfigId: oauth2Auth._id })
+      await config.integration.read({ authConfigId: oauth2Auth._id })
+      // one token request and two queries
+      expect(fetch).toHaveBeenCalledTimes(3)
+    })
+
+    it("refreshes expired oauth2 tokens with the refresh token", async () => {
+      mockToken({ access_token: "first", expires_in: 30, refresh_token: "r1" })
+      await config.integration.read({ authConfigId: oauth2Auth._id })
+      mockToken({ access_token: "second", expires_in: 3600 })
+      await config.integration.read({ authConfigId: oauth2Auth._id })
+      expect(fetch.mock.calls[2][1].body.toString()).toContain(
+        "grant_type=refresh_token&refresh_token=r1"
+      )
+      expect(fetch.mock.calls[3][1].headers.Authorization).toEqual(
+        "Bearer second"
+      )
+    })
+
+    it("stores oauth2 tokens so they are shared with other processes", async () => {
+      mockToken({ access_token: "first", expires_in: 3600, refresh_token: "r1" })
+      await config.integration.read({ authConfigId: oauth2Auth._id })
+      const cache = await new redis.Client(
+        redis.utils.Databases.QUERY_VARS
+      ).init()
+      const [entry] = await cache.scan(`oauth2${SEPARATOR}${oauth2Auth._id}`)
+      expect(entry.value.accessToken).toEqual("first")
+      expect(entry.value.refreshToken).toEqual("r1")
+    })
+
+    it("only uses the authorization code for the first oauth2 token", async () => {
+      const codeAuth = {
+        ...oauth2Auth,
+        _id: "oauth2-code",
+        config: {
+          ...oauth2Auth.config,
+          grantType: "authorization_code",
+          code: "c1",
+          redirectUri: "https://budibase.app/callback",
+        },
+      }
+      config = new TestConfiguration({ url: BASE_URL, authConfigs: [codeAuth] })
+      mockToken({ access_token: "first", expires_in: 30, refresh_token: "r1" })
+      await config.integration.read({ authConfigId: codeAuth._id })
+      mockToken({ access_token: "second", expires_in: 3600 })
+      await config.integration.read({ authConfigId: codeAuth._id })
+      expect(fetch.mock.calls[0][1].body.toString()).toContain(
+        "grant_type=authorization_code&code=c1"
+      )
+      expect(fetch.mock.calls[2][1].body.toString()).toContain(
+        "grant_type=refresh_token&refresh_token=r1"
+      )
+    })
+
+    it("adds api keys to the headers", async () => {
+      await config.integration.read({ authConfigId: "api-key-header" })
+      expect(fetch).toHaveBeenCalledWith(`${BASE_URL}/?`, {
+        method: "GET",
+        headers: {
+          "X-API-Key": "key",
+        },
+      })
+    })
+
+    it("adds api keys to the query string", async () => {
+      await config.integration.read({
+        authConfigId: "api-key-query",
+        path: "api",
+        queryString: "a=1",
+      })
+      expect(fetch).toHaveBeenCalledWith(`${BASE_URL}/api?a=1&api_key=a%20key`, {
+        method: "GET",
+        headers: {},
+      })
+    })
+
+    it("adds custom auth headers", async () => {
+      await config.integration.read({ authConfigId: "custom" })
+      expect(fetch).toHaveBeenCalledWith(`${BASE_URL}/?`, {
+        method: "GET",
+        headers: {
+          "X-Client": "budibase",
+          "X-Secret": "secret",
+        },
+      })
+    })
+
+    it("signs requests with a HMAC signature", async () => {
+      await config.integration.create({
+        authConfigId: "hmac",
+        path: "api/orders",
+        queryString: "a=1",
+        bodyType: "json",
+        requestBody: { name: "test" },
+      })
+      const { headers } = fetch.mock.calls[0][1]
+      const timestamp = headers["X-Timestamp"]
+      const signature = crypto
+        .createHmac("sha256", "shhh")
+        .update(`${timestamp}.POST./api/orders.a=1.{"name":"test"}`)
+        .digest("hex")
+      expect(headers["X-Signature"]).toEqual(`t=${timestamp},v1=${signature}`)
+    })
+
+    it("throws when the oauth2 token can't be retrieved", async () => {
+      fetch.mockImplementationOnce(() => ({
+        status: 401,
+        json: jest.fn(() => ({ error: "invalid_client" })),
+      }))
+      await expect(
+        config.integration.read({ authConfigId: oauth2Auth._id })
+      ).rejects.toEqual(
+        "Failed to retrieve OAuth2 access token - invalid_client"
+      )
+    })
   })
 
   describe("page based pagination", () => {
@@ -514,4 +704,229 @@ describe("REST Integration", () => {
       expect(res.pagination.cursor).toEqual(123)
     })
   })
+
+  describe("fetching all pages", () => {
+    function mockPages(pages) {
+      for (let { body, link } of pages) {
+        fetch.mockImplementationOnce(() => ({
+          status: 200,
+          headers: {
+            raw: () => ({
+              "content-type": ["application/json"],
+              ...(link ? { link: [link] } : {}),
+            }),
+            get: name => (name === "content-type" ? "application/json" : null),
+          },
+          json: jest.fn(() => body),
+        }))
+      }
+    }
+
+    it("fetches pages until a page isn't full", async () => {
+      mockPages([
+        { body: { items: [{ a: 1 }, { a: 2 }] } },
+        { body: { items: [{ a: 3 }] } },
+      ])
+      const res = await config.integration.read({
+        path: "api",
+        pagination: {
+          type: "page",
+          location: "query",
+          pageParam: "page",
+          sizeParam: "size",
+          fetchAll: true,
+          dataParam: "items",
+          pageSize: 2,
+        },
+      })
+      expect(fetch).toHaveBeenCalledTimes(2)
+      expect(fetch.mock.calls[0][0]).toEqual(`${BASE_URL}/api?page=1&size=2&`)
+      expect(fetch.mock.calls[1][0]).toEqual(`${BASE_URL}/api?page=2&size=2&`)
+      expect(res.data).toEqual([{ a: 1 }, { a: 2 }, { a: 3 }])
+      expect(res.info.pages).toEqual(2)
+      expect(res.info.truncated).toEqual(false)
+    })
+
+    it("fetches pages using offsets", async () => {
+      mockPages([{ body: [{ a: 1 }, { a: 2 }] }, { body: [] }])
+      const res = await config.integration.read({
+        path: "api",
+        pagination: {
+          type: "offset",
+          location: "query",
+          pageParam: "offset",
+          fetchAll: true,
+        },
+      })
+      expect(fetch.mock.calls[1][0]).toEqual(`${BASE_URL}/api?offset=2&`)
+      expect(res.data).toEqual([{ a: 1 }, { a: 2 }])
+    })
+
+    it("fetches pages using cursors", async () => {
+      mockPages([
+        { body: { data: [{ a: 1 }], next: "abc" } },
+        { body: { data: [{ a: 2 }], next: null } },
+      ])
+      const res = await config.integration.read({
+        path: "api",
+        pagination: {
+          type: "cursor",
+          location: "query",
+          pageParam: "cursor",
+          responseParam: "next",
+          dataParam: "data",
+          fetchAll: true,
+        },
+      })
+      expect(fetch.mock.calls[0][0]).toEqual(`${BASE_URL}/api?`)
+      expect(fetch.mock.calls[1][0]).toEqual(`${BASE_URL}/api?cursor=abc&`)
+      expect(res.data).toEqual([{ a: 1 }, { a: 2 }])
+    })
+
+    it("follows the next link header", async () => {
+      mockPages([
+        {
+          body: [{ a: 1 }],
+          link: '</api?page=2>; rel="next", </api?page=5>; rel="last"',
+        },
+        { body: [{ a: 2 }] },
+      ])
+      const res = await config.integration.read({
+        path: "api",
+        pagination: { type: "link", fetchAll: true },
+      })
+      expect(fetch.mock.calls[1][0]).toEqual(`${BASE_URL}/api?page=2`)
+      expect(res.data).toEqual([{ a: 1 }, { a: 2 }])
+    })
+
+    it("doesn't follow a next link to another origin", async () => {
+      mockPages([
+        {
+          body: [{ a: 1 }],
+          link: '<http://169.254.169.254/latest>; rel="next"',
+        },
+      ])
+      const res = await config.integration.read({
+        path: "api",
+        pagination: { type: "link", fetchAll: true },
+      })
+      expect(fetch).toHaveBeenCalledTimes(1)
+      expect(res.data).toEqual([{ a: 1 }])
+    })
+
+    it("adds an API key in the query string to every page", async () => {
+      config = new TestConfiguration({
+        url: BASE_URL,
+        authConfigs: [
+          {
+            _id: "api-key-query",
+            type: "apiKey",
+            config: { name: "api_key", value: "key", location: "query" },
+          },
+        ],
+      })
+      mockPages([
+        { body: [{ a: 1 }], link: '</api?page=2>; rel="next"' },
+        { body: [{ a: 2 }], link: '</api?page=3&api_key=key>; rel="next"' },
+        { body: [] },
+      ])
+      await config.integration.read({
+        path: "api",
+        authConfigId: "api-key-query",
+        pagination: { type: "link", fetchAll: true },
+      })
+      expect(fetch.mock.calls[1][0]).toEqual(`${BASE_URL}/api?page=2&api_key=key`)
+      expect(fetch.mock.calls[2][0]).toEqual(`${BASE_URL}/api?page=3&api_key=key`)
+    })
+
+    it("stops when the max pages are reached", async () => {
+      mockPages([{ body: [{ a: 1 }] }, { body: [{ a: 2 }] }])
+      const res = await config.integration.read({
+        path: "api",
+        pagination: {
+          type: "page",
+          location: "query",
+          pageParam: "page",
+          fetchAll: true,
+          maxPages: 2,
+        },
+      })
+      expect(fetch).toHaveBeenCalledTimes(2)
+      expect(res.data).toEqual([{ a: 1 }, { a: 2 }])
+      expect(res.info.truncated).toEqual(true)
+    })
+  })
+
+  describe("retries", () => {
+    function mockStatus(status, headers = {}) {
+      fetch.mockImplementationOnce(() => ({
+        status,
+        headers: {
+          raw: () => ({ "content-type": ["application/json"] }),
+          get: name =>
+            name === "content-type" ? "application/json" : headers[name],
+        },
+        json: jest.fn(() => ({ status })),
+      }))
+    }
+
+    beforeEach(() => {
+      config = new TestConfiguration({
+        url: BASE_URL,
+        retries: 2,
+        retryDelay: 1,
+      })
+    })
+
+    it("retries server errors", async () => {
+      mockStatus(500)
+      mockStatus(200)
+      const res = await config.integration.read({})
+      expect(fetch).toHaveBeenCalledTimes(2)
+      expect(res.info.code).toEqual(200)
+      expect(res.info.retries).toEqual(1)
+    })
+
+    it("returns the last response once the retries are used up", async () => {
+      mockStatus(503)
+      mockStatus(503)
+      mockStatus(503)
+      const res = await config.integration.read({})
+      expect(fetch).toHaveBeenCalledTimes(3)
+      expect(res.info.code).toEqual(503)
+      expect(res.info.retries).toEqual(2)
+    })
+
+    it("doesn't retry server errors for non-idempotent requests", async () => {
+      mockStatus(500)
+      const res = await config.integration.create({})
+      expect(fetch).toHaveBeenCalledTimes(1)
+      expect(res.info.code).toEqual(500)
+    })
+
+    it("retries rate limited requests after the retry-after delay", async () => {
+      // the test would time out if the retry delay was used instead
+      config = new TestConfiguration({
+        url: BASE_URL,
+        retries: 1,
+        retryDelay: 20000,
+      })
+      mockStatus(429, { "retry-after": "0" })
+      mockStatus(201)
+      const res = await config.integration.create({})
+      expect(res.info.code).toEqual(201)
+      expect(res.info.rateLimited).toEqual(true)
+    })
+
+    it("applies the request timeout", async () => {
+      config = new TestConfiguration({ url: BASE_URL, requestTimeout: 100 })
+      fetch.mockImplementationOnce(() => {
+        throw { type: "request-timeout" }
+      })
+      await expect(config.integration.read({})).rejects.toEqual(
+        "Request timed out after 100ms."
+      )
+      expect(fetch.mock.calls[0][1].timeout).toEqual(100)
+    })
+  })
 })
@@ -10,8 +10,13 @@ function endpoint(table, operation) {
   }
 }
 
-function generateReadJson({ table, fields, filters, sort, paginate} = {}) {
+function generateReadJson({ table, fields, filters, sort, paginate, aggregation } = {}) {
   return {
+    meta: {
+      table: {
+        name: table || TABLE_NAME,
+      },
+    },
     endpoint: endpoint(table || TABLE_NAME, "READ"),
     resource: {
       fields: fields || [],
@@ -19,6 +24,7 @@ function generateReadJson({ table, fields, filters, sort, paginate} = {}) {
     filters: filters || {},
     sort: sort || {},
     paginate: paginate || {},
+    aggregation,
   }
 }
 
@@ -238,4 +244,296 @@ describe("SQL query builder", () => {
       sql: `select * from (select * from "${TABLE_NAME}" where "${TABLE_NAME}"."property" > $1 limit $2) as "${TABLE_NAME}"`
     })
   })
+
+  it("should group by and aggregate when an aggregation is provided", () => {
+    const query = sql._query(generateReadJson({
+      aggregation: {
+        groupBy: ["status"],
+        calculations: [
+          { type: "count", name: "total" },
+          { type: "avg", field: "age", name: "averageAge" },
+        ],
+      },
+      sort: {
+        total: "DESCENDING",
+      },
+    }))
+    expect(query).toEqual({
+      bindings: [limit],
+      sql: `select "${TABLE_NAME}"."status" as "status", count(*) as "total", avg("${TABLE_NAME}"."age") as "averageAge" from "${TABLE_NAME}" group by "${TABLE_NAME}"."status" order by "total" desc limit $1`
+    })
+  })
+
+  it("should apply filters to an aggregation without grouping", () => {
+    const query = sql._query(generateReadJson({
+      filters: {
+        equal: {
+          status: "open",
+        },
+      },
+      aggregation: {
+        calculations: [
+          { type: "sum", field: "price", name: "totalPrice" },
+        ],
+      },
+    }))
+    expect(query).toEqual({
+      bindings: ["open", limit],
+      sql: `select sum("${TABLE_NAME}"."price") as "totalPrice" from "${TABLE_NAME}" where "${TABLE_NAME}"."status" = $1 limit $2`
+    })
+  })
+
+  it("should aggregate with MS-SQL", () => {
+    const query = new Sql("mssql", 10)._query(generateReadJson({
+      aggregation: {
+        groupBy: ["status"],
+        calculations: [{ type: "max", field: "age", name: "oldest" }],
+      },
+    }))
+    expect(query).toEqual({
+      bindings: [10],
+      sql: `select top (@p0) [${TABLE_NAME}].[status] as [status], max([${TABLE_NAME}].[age]) as [oldest] from [${TABLE_NAME}] group by [${TABLE_NAME}].[status]`
+    })
+  })
+
+  it("should throw when a calculation other than count has no field", () => {
+    expect(() => sql._query(generateReadJson({
+      aggregation: {
+        calculations: [{ type: "sum", name: "total" }],
+      },
+    }))).toThrow()
+  })
+
+  it("should throw when an aggregation is filtered by a relationship field", () => {
+    expect(() => sql._query(generateReadJson({
+      filters: {
+        equal: {
+          "related.name": "test",
+        },
+      },
+      aggregation: {
+        calculations: [{ type: "count", name: "total" }],
+      },
+    }))).toThrow("Aggregations cannot be filtered by relationship fields")
+  })
+
+  it("should order by the keyset when using keyset pagination", () => {
+    const query = sql._query(generateReadJson({
+      paginate: {
+        limit: 10,
+        keyset: {
+          fields: [{ column: "id", direction: "ASCENDING" }],
+        },
+      },
+    }))
+    expect(query).toEqual({
+      bindings: [10],
+      sql: `select * from (select * from "${TABLE_NAME}" order by "${TABLE_NAME}"."id" asc limit $1) as "${TABLE_NAME}" order by "${TABLE_NAME}"."id" asc`
+    })
+  })
+
+  it("should continue from the last row of the previous page using the keyset", () => {
+    const query = sql._query(generateReadJson({
+      sort: {
+        name: "DESCENDING",
+      },
+      paginate: {
+        limit: 10,
+        keyset: {
+          fields: [
+            { column: "name", direction: "DESCENDING", value: "John" },
+            { column: "id", direction: "DESCENDING", value: 5 },
+          ],
+        },
+      },
+    }))
+    expect(query).toEqual({
+      bindings: ["John", "John", 5, 10],
+      sql: `select * from (select * from "${TABLE_NAME}" where (("${TABLE_NAME}"."name" < $1) or ("${TABLE_NAME}"."name" = $2 and "${TABLE_NAME}"."id" < $3)) order by "${TABLE_NAME}"."name" desc, "${TABLE_NAME}"."id" desc limit $4) as "${TABLE_NAME}" order by "${TABLE_NAME}"."name" desc, "${TABLE_NAME}"."id" desc`
+    })
+  })
+
+  it("should wrap nested filter groups in brackets", () => {
+    const query = sql._query(generateReadJson({
+      filters: {
+        equal: {
+          status: "open",
+        },
+        groups: [{
+          allOr: true,
+          equal: {
+            owner: "me",
+            priority: "high",
+          },
+        }],
+      },
+    }))
+    expect(query).toEqual({
+      bindings: ["open", "me", "high", limit],
+      sql: `select * from (select * from "${TABLE_NAME}" where "${TABLE_NAME}"."status" = $1 and (("${TABLE_NAME}"."owner" = $2) or ("${TABLE_NAME}"."priority" = $3)) limit $4) as "${TABLE_NAME}"`
+    })
+  })
+
+  it("should support filter groups within filter groups", () => {
+    const query = sql._query(generateReadJson({
+      filters: {
+        allOr: true,
+        equal: {
+          status: "closed",
+        },
+        groups: [{
+          notEmpty: {
+            owner: true,
+          },
+          groups: [{
+            allOr: true,
+            range: {
+              age: {
+                low: 18,
+              },
+            },
+            empty: {
+              age: true,
+            },
+          }],
+        }],
+      },
+    }))
+    expect(query).toEqual({
+      bindings: ["closed", 18, limit],
+      sql: `select * from (select * from "${TABLE_NAME}" where ("${TABLE_NAME}"."status" = $1) or ("${TABLE_NAME}"."owner" is not null and ("${TABLE_NAME}"."age" > $2 or "${TABLE_NAME}"."age" is null)) limit $3) as "${TABLE_NAME}"`
+    })
+  })
+
+  it("should only apply relationship filters within groups outside of the main query", () => {
+    const query = sql._query(generateReadJson({
+      filters: {
+        groups: [{
+          allOr: true,
+          equal: {
+            "task.name": "task 1",
+          },
+        }],
+      },
+    }))
+    expect(query).toEqual({
+      bindings: [limit, "task 1"],
+      sql: `select * from (select * from "${TABLE_NAME}" limit $1) as "${TABLE_NAME}" where (("task"."name" = $2))`
+    })
+  })
+
+  it("should not allow a filter group to match relationship or table fields", () => {
+    const json = generateReadJson({
+      filters: {
+        groups: [{
+          allOr: true,
+          equal: {
+            name: "John",
+          },
+          groups: [{
+            equal: {
+              "task.name": "task 1",
+            },
+          }],
+        }],
+      },
+    })
+    expect(() => sql._query(json)).toThrow(
+      "Filters which match any condition cannot contain both relationship and table fields"
+    )
+  })
+
+  it("should generate an update per row for a bulk update", () => {
+    const query = sql._query({
+      endpoint: endpoint(TABLE_NAME, "BULK_UPDATE"),
+      body: [{ id: 1, name: "John" }, { id: 2, name: "Jane" }],
+      meta: {
+        table: {
+          name: TABLE_NAME,
+          primary: ["id"],
+        },
+      },
+    }, { disableReturning: true })
+    expect(query).toEqual([{
+      bindings: ["John", 1],
+      sql: `update "${TABLE_NAME}" set "name" = $1 where "${TABLE_NAME}"."id" = $2`
+    }, {
+      bindings: ["Jane", 2],
+      sql: `update "${TABLE_NAME}" set "name" = $1 where "${TABLE_NAME}"."id" = $2`
+    }])
+  })
+
+  it("should identify the rows of a bulk update by their filters", () => {
+    const query = sql._query({
+      endpoint: endpoint(TABLE_NAME, "BULK_UPDATE"),
+      body: [{ id: 3, name: "John" }],
+      extra: {
+        rowFilters: [{ equal: { id: 1 } }],
+      },
+    })
+    expect(query).toEqual([{
+      bindings: [3, "John", 1],
+      sql: `update "${TABLE_NAME}" set "id" = $1, "name" = $2 where "${TABLE_NAME}"."id" = $3`
+    }])
+  })
+
+  it("should write to related tables before a bulk delete", () => {
+    const query = sql._query({
+      endpoint: endpoint(TABLE_NAME, "BULK_DELETE"),
+      filters: {
+        oneOf: {
+          id: [1],
+        },
+      },
+      extra: {
+        relatedWrites: [{
+          endpoint: endpoint("orders", "UPDATE"),
+          body: { personId: null },
+          filters: { equal: { id: 5 } },
+        }],
+      },
+    })
+    expect(query).toEqual([{
+      bindings: [null, 5],
+      sql: `update "orders" set "personId" = $1 where "orders"."id" = $2`
+    }, {
+      bindings: [1],
+      sql: `delete from "${TABLE_NAME}" where "${TABLE_NAME}"."id" in ($1)`
+    }])
+  })
+
+  it("should delete all matching rows for a bulk delete without returning", () => {
+    const query = sql._query({
+      endpoint: endpoint(TABLE_NAME, "BULK_DELETE"),
+      filters: {
+        oneOf: {
+          id: [1, 2],
+        },
+      },
+    })
+    expect(query).toEqual({
+      bindings: [1, 2],
+      sql: `delete from "${TABLE_NAME}" where "${TABLE_NAME}"."id" in ($1, $2)`
+    })
+  })
+
+  it("should alias a table from another schema when reading", () => {
+    const table = "sales.orders"
+    const query = sql._query(generateReadJson({
+      table,
+      fields: [`${table}.id`],
+      sort: { id: "ASCENDING" },
+    }))
+    expect(query).toEqual({
+      bindings: [limit],
+      sql: `select "sales_orders"."id" as "${table}.id" from (select * from "sales"."orders" order by "sales"."orders"."id" asc limit $1) as "sales_orders" order by "sales_orders"."id" asc`
+    })
+  })
+
+  it("should qualify tables in the primary schema with the endpoint schema", () => {
+    const json = sql.qualifyEndpoint(generateReadJson(), ["public", "sales"])
+    expect(json.endpoint.schema).toEqual("public")
+    const other = sql.qualifyEndpoint(generateReadJson({ table: "sales.orders" }), ["public", "sales"])
+    expect(other.endpoint.schema).toBeUndefined()
+  })
 })
@@ -0,0 +1,157 @@
+const { finaliseExternalTables, buildExternalTableId } = require("../utils")
+const { FieldTypes, RelationshipTypes } = require("../../constants")
+
+const DATASOURCE_ID = "datasource_plus_1234"
+
+function table(name, columns, primary = ["id"]) {
+  const schema = {}
+  for (let column of columns) {
+    schema[column] = { name: column, type: FieldTypes.NUMBER }
+  }
+  return {
+    _id: buildExternalTableId(DATASOURCE_ID, name),
+    name,
+    primary,
+    schema,
+  }
+}
+
+function foreignKey(table, column, referencedTable, constraint = null) {
+  return {
+    constraint: constraint || `${table}_${column}_fkey`,
+    table,
+    column,
+    referencedTable,
+    referencedColumn: "id",
+  }
+}
+
+describe("finaliseExternalTables", () => {
+  it("should generate relationships for foreign keys", () => {
+    const tables = {
+      persons: table("persons", ["id"]),
+      tasks: table("tasks", ["id", "personId"]),
+    }
+    const { tables: final } = finaliseExternalTables(tables, {}, [
+      foreignKey("tasks", "personId", "persons"),
+    ])
+    expect(final.tasks.schema.persons).toEqual(
+      expect.objectContaining({
+        type: FieldTypes.LINK,
+        tableId: tables.persons._id,
+        relationshipType: RelationshipTypes.ONE_TO_MANY,
+        foreignKey: "personId",
+        fieldName: "id",
+      })
+    )
+    expect(final.persons.schema.tasks).toEqual(
+      expect.objectContaining({
+        type: FieldTypes.LINK,
+        tableId: tables.tasks._id,
+        relationshipType: RelationshipTypes.MANY_TO_ONE,
+        foreignKey: "id",
+        fieldName: "personId",
+      })
+    )
+  })
+
+  it("should generate many to many relationships for junction tables", () => {
+    const tables = {
+      products: table("products", ["id"]),
+      tags: table("tags", ["id"]),
+      product_tags: table(
+        "product_tags",
+        ["productId", "tagId"],
+        ["productId", "tagId"]
+      ),
+    }
+    const { tables: final } = finaliseExternalTables(tables, {}, [
+      foreignKey("product_tags", "productId", "products"),
+      foreignKey("product_tags", "tagId", "tags"),
+    ])
+    expect(final.products.schema.tags).toEqual(
+      expect.objectContaining({
+        tableId: tables.tags._id,
+        relationshipType: RelationshipTypes.MANY_TO_MANY,
+        through: tables.product_tags._id,
+        throughTo: "productId",
+        throughFrom: "tagId",
+        fieldName: "tagId",
+      })
+    )
+    expect(final.tags.schema.products).toEqual(
+      expect.objectContaining({
+        tableId: tables.products._id,
+        through: tables.product_tags._id,
+        throughTo: "tagId",
+        throughFrom: "productId",
+        fieldName: "productId",
+      })
+    )
+    expect(
+      Object.values(final.product_tags.schema).find(
+        column => column.type === FieldTypes.LINK
+      )
+    ).toBeUndefined()
+  })
+
+  it("should not generate relationships for composite foreign keys", () => {
+    const tables = {
+      persons: table("persons", ["id"]),
+      tasks: table("tasks", ["id", "personId", "otherId"]),
+    }
+    const { tables: final } = finaliseExternalTables(tables, {}, [
+      foreignKey("tasks", "personId", "persons", "composite"),
+      foreignKey("tasks", "otherId", "persons", "composite"),
+    ])
+    expect(final.tasks.schema.persons).toBeUndefined()
+    expect(final.persons.schema.tasks).toBeUndefined()
+  })
+
+  it("should not duplicate relationships which already exist", () => {
+    const tables = {
+      persons: table("persons", ["id"]),
+      tasks: table("tasks", ["id", "personId"]),
+    }
+    const entities = {
+      tasks: {
+        ...tables.tasks,
+        schema: {
+          ...tables.tasks.schema,
+          assignee: {
+            name: "assignee",
+            type: FieldTypes.LINK,
+            tableId: tables.persons._id,
+            relationshipType: RelationshipTypes.ONE_TO_MANY,
+            foreignKey: "personId",
+            fieldName: "id",
+          },
+        },
+      },
+    }
+    const { tables: final } = finaliseExternalTables(tables, entities, [
+      foreignKey("tasks", "personId", "persons"),
+    ])
+    expect(final.tasks.schema.assignee).toBeDefined()
+    expect(final.tasks.schema.persons).toBeUndefined()
+  })
+
+  it("should use the first column as the primary key of a view", () => {
+    const view = { ...table("active_persons", ["name", "age"], []), readonly: true }
+    const { tables: final, errors } = finaliseExternalTables(
+      { active_persons: view },
+      {}
+    )
+    expect(errors).toEqual({})
+    expect(final.active_persons.primary).toEqual(["name"])
+  })
+
+  it("should keep the primary key selected for a view", () => {
+    const view = { ...table("active_persons", ["name", "age"], []), readonly: true }
+    const { tables: final } = finaliseExternalTables(
+      { active_persons: view },
+      { active_persons: { ...view, primary: ["age"] } }
+    )
+    expect(final.active_persons.primary).toEqual(["age"])
+  })
+})
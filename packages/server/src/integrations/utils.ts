@@ -1,10 +1,17 @@
 import { SourceNames, SqlQuery } from "../definitions/datasource"
 import { Datasource, Table } from "../definitions/common"
 import { DocumentTypes, SEPARATOR } from "../db/utils"
-import { FieldTypes, BuildSchemaErrors, InvalidColumns } from "../constants"
+import {
+  FieldTypes,
+  BuildSchemaErrors,
+  InvalidColumns,
+  RelationshipTypes,
+} from "../constants"
 
 const DOUBLE_SEPARATOR = `${SEPARATOR}${SEPARATOR}`
 const ROW_ID_REGEX = /^\[.*]$/g
+// procedure and parameter names are written directly into the SQL, they can't be bound
+const SQL_IDENTIFIER_REGEX = /^[A-Za-z_][\w$#]*(\.[A-Za-z_][\w$#]*)*$/
 
 const SQL_NUMBER_TYPE_MAP = {
   integer: FieldTypes.NUMBER,
@@ -68,6 +75,14 @@ const SQL_TYPE_MAP = {
   ...SQL_MISC_TYPE_MAP,
 }
 
+export interface ForeignKey {
+  constraint: string
+  table: string
+  column: string
+  referencedTable: string
+  referencedColumn: string
+}
+
 export enum SqlClients {
   MS_SQL = "mssql",
   POSTGRES = "pg",
@@ -79,10 +94,35 @@ export function isExternalTable(tableId: string) {
   return tableId.includes(DocumentTypes.DATASOURCE)
 }
 
-export function buildExternalTableId(datasourceId: string, tableName: string) {
+export function buildExternalTableId(
+  datasourceId: string,
+  tableName: string,
+  schema?: string
+) {
+  // tables outside of the primary schema are named with their schema, e.g. "sales.orders"
+  if (schema) {
+    tableName = `${schema}.${tableName}`
+  }
   return `${datasourceId}${DOUBLE_SEPARATOR}${tableName}`
 }
 
+/**
+ * Datasources which support multiple schemas accept a comma separated list, the first
+ * schema in the list is the primary schema.
+ * @param schema The schema setting from the datasource config.
+ * @param defaultSchema The schema to use if none have been specified.
+ */
+export function getSchemaList(
+  schema: string | undefined,
+  defaultSchema: string
+): string[] {
+  const schemas = (schema || "")
+    .split(",")
+    .map(name => name.trim())
+    .filter(name => name)
+  return schemas.length > 0 ? schemas : [defaultSchema]
+}
+
 export function breakExternalTableId(tableId: string | undefined) {
   if (!tableId) {
     return {}
@@ -164,6 +204,46 @@ export function getSqlQuery(query: SqlQuery | string): SqlQuery {
   }
 }
 
+export function isSqlIdentifier(name: string | undefined): boolean {
+  return !!name && SQL_IDENTIFIER_REGEX.test(name)
+}
+
+/**
+ * Quotes a name (e.g. of a schema) so that it can be used as an identifier in a Postgres
+ * query, for names which can't be passed as a binding.
+ */
+export function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`
+}
+
+/**
+ * Quotes a value so that it can be used as a string literal in a Postgres query.
+ */
+export function quoteLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`
+}
+
+/**
+ * Builds the response of a procedure query, the first result set is returned as the rows of the
+ * query, if there are no result sets then the output parameters are returned as a single row.
+ * @param resultSets All of the result sets returned by the procedure.
+ * @param outputParameters The values of the OUT/INOUT parameters after the procedure was called.
+ */
+export function buildProcedureResponse(
+  resultSets: any[][],
+  outputParameters: Record<string, any> = {}
+) {
+  let data = resultSets[0]
+  if (!data) {
+    data = Object.keys(outputParameters).length ? [outputParameters] : []
+  }
+  return {
+    data,
+    info: { resultSets: resultSets.length },
+    extra: { resultSets, outputParameters },
+  }
+}
+
 export function isSQL(datasource: Datasource): boolean {
   if (!datasource || !datasource.source) {
     return false
@@ -253,6 +333,13 @@ function copyExistingPropsOver(
     if (entities[tableName].primaryDisplay) {
       table.primaryDisplay = entities[tableName].primaryDisplay
     }
+    // the rules aren't part of the database, they must not be lost when re-fetching
+    if (entities[tableName].rowSecurity) {
+      table.rowSecurity = entities[tableName].rowSecurity
+    }
+    if (entities[tableName].changeCapture) {
+      table.changeCapture = entities[tableName].changeCapture
+    }
     const existingTableSchema = entities[tableName].schema
     for (let key in existingTableSchema) {
       if (!existingTableSchema.hasOwnProperty(key)) {
@@ -270,16 +357,210 @@ function copyExistingPropsOver(
   return table
 }
 
+function hasRelationship(table: Table, match: (column: any) => boolean) {
+  return !!Object.values(table.schema).find(
+    column => column.type === FieldTypes.LINK && match(column)
+  )
+}
+
+function addLinkColumn(table: Table, names: string[], column: any) {
+  // don't overwrite any existing column, if none of the names are free skip it
+  const name = names.find(name => !table.schema[name])
+  if (name) {
+    table.schema[name] = {
+      name,
+      type: FieldTypes.LINK,
+      constraints: {
+        type: "array",
+        presence: false,
+      },
+      ...column,
+    }
+  }
+}
+
+/**
+ * A junction table only contains the keys of the two tables it joins, plus optionally
+ * its own primary key.
+ */
+function isJunctionTable(table: Table, foreignKeys: ForeignKey[]) {
+  if (foreignKeys.length !== 2) {
+    return false
+  }
+  const keys = foreignKeys.map(fk => fk.column)
+  if (keys[0] === keys[1]) {
+    return false
+  }
+  return Object.entries(table.schema)
+    .filter(([, column]) => column.type !== FieldTypes.LINK)
+    .every(([name]) => keys.includes(name) || table.primary?.includes(name))
+}
+
+function addOneToManyRelationship(
+  table: Table,
+  relatedTable: Table,
+  fk: ForeignKey
+) {
+  // the table with the foreign key links to one row in the related table
+  if (
+    !hasRelationship(
+      table,
+      column =>
+        column.tableId === relatedTable._id && column.foreignKey === fk.column
+    )
+  ) {
+    addLinkColumn(
+      table,
+      [relatedTable.name, `${relatedTable.name}_${fk.column}`],
+      {
+        tableId: relatedTable._id,
+        relationshipType: RelationshipTypes.ONE_TO_MANY,
+        foreignKey: fk.column,
+        fieldName: fk.referencedColumn,
+        main: true,
+      }
+    )
+  }
+  if (
+    !hasRelationship(
+      relatedTable,
+      column => column.tableId === table._id && column.fieldName === fk.column
+    )
+  ) {
+    addLinkColumn(relatedTable, [table.name, `${table.name}_${fk.column}`], {
+      tableId: table._id,
+      relationshipType: RelationshipTypes.MANY_TO_ONE,
+      foreignKey: fk.referencedColumn,
+      fieldName: fk.column,
+    })
+  }
+}
+
+function addManyToManyRelationship(
+  junctionTable: Table,
+  tables: { [key: string]: Table },
+  fromKey: ForeignKey,
+  toKey: ForeignKey
+) {
+  const from = tables[fromKey.referencedTable],
+    to = tables[toKey.referencedTable]
+  const sides = [
+    { table: from, related: to, thisKey: fromKey, otherKey: toKey, main: true },
+    {
+      table: to,
+      related: from,
+      thisKey: toKey,
+      otherKey: fromKey,
+      main: false,
+    },
+  ]
+  for (let { table, related, thisKey, otherKey, main } of sides) {
+    if (
+      hasRelationship(
+        table,
+        column =>
+          column.through === junctionTable._id &&
+          column.throughTo === thisKey.column
+      )
+    ) {
+      continue
+    }
+    addLinkColumn(table, [related.name, `${related.name}_${otherKey.column}`], {
+      tableId: related._id,
+      relationshipType: RelationshipTypes.MANY_TO_MANY,
+      through: junctionTable._id,
+      throughTo: thisKey.column,
+      throughFrom: otherKey.column,
+      fieldName: otherKey.column,
+      ...(main ? { main } : {}),
+    })
+  }
+}
+
+/**
+ * Generates relationship columns for the foreign keys that were found in the external database,
+ * junction tables (which only join two tables) are turned into many to many relationships. Only
+ * foreign keys which reference a single column primary key are supported, relationships which
+ * have already been setup (by a previous fetch or in the builder) are left untouched.
+ * @param tables The final list of tables, these will be updated with the relationship columns.
+ * @param foreignKeys The foreign key constraints found in the external database.
+ */
+function addForeignKeyRelationships(
+  tables: { [key: string]: Table },
+  foreignKeys: ForeignKey[]
+) {
+  const constraintSize: { [key: string]: number } = {}
+  for (let fk of foreignKeys) {
+    const key = `${fk.table}:${fk.constraint}`
+    constraintSize[key] = (constraintSize[key] || 0) + 1
+  }
+  const tableKeys: { [key: string]: ForeignKey[] } = {}
+  for (let fk of foreignKeys) {
+    if (!tableKeys[fk.table]) {
+      tableKeys[fk.table] = []
+    }
+    tableKeys[fk.table].push(fk)
+  }
+  for (let [tableName, keys] of Object.entries(tableKeys)) {
+    const table = tables[tableName]
+    if (!table) {
+      continue
+    }
+    const supported = keys.filter(fk => {
+      const related = tables[fk.referencedTable]
+      return (
+        constraintSize[`${fk.table}:${fk.constraint}`] === 1 &&
+        related?.primary?.length === 1 &&
+        related.primary[0] === fk.referencedColumn
+      )
+    })
+    if (supported.length === keys.length && isJunctionTable(table, keys)) {
+      addManyToManyRelationship(table, tables, keys[0], keys[1])
+      continue
+    }
+    for (let fk of supported) {
+      addOneToManyRelationship(table, tables[fk.referencedTable], fk)
+    }
+  }
+}
+
+/**
+ * Views don't have a primary key, a pseudo primary key is used to identify the rows
+ * instead. This can be selected by the user, otherwise the first column is used.
+ * @param tableName The name of the view.
+ * @param table The view which has just been fetched.
+ * @param entities The old list of tables, the user may have selected a key for the view already.
+ */
+function getPseudoPrimary(
+  tableName: string,
+  table: Table,
+  entities: { [key: string]: any }
+) {
+  const columns = Object.keys(table.schema)
+  const existing = entities?.[tableName]?.primary
+  if (
+    Array.isArray(existing) &&
+    existing.length > 0 &&
+    existing.every((key: string) => columns.includes(key))
+  ) {
+    return existing
+  }
+  return columns.length > 0 ? [columns[0]] : []
+}
+
 /**
  * Look through the final table definitions to see if anything needs to be
  * copied over from the old and if any errors have occurred mark them so
  * that the user can be made aware.
  * @param tables The list of tables that have been retrieved from the external database.
  * @param entities The old list of tables, if there was any to look for definitions in.
+ * @param foreignKeys The foreign keys found in the external database, these are used to
+ * generate relationship columns.
  */
 export function finaliseExternalTables(
   tables: { [key: string]: any },
-  entities: { [key: string]: any }
+  entities: { [key: string]: any },
+  foreignKeys: ForeignKey[] = []
 ) {
   const invalidColumns = Object.values(InvalidColumns)
   let finalTables: { [key: string]: any } = {}
@@ -288,6 +569,9 @@ export function finaliseExternalTables(
   const tableIds: [string] = Object.values(tables).map(table => table._id)
   for (let [name, table] of Object.entries(tables)) {
     const schemaFields = Object.keys(table.schema)
+    if (table.readonly && (!table.primary || table.primary.length === 0)) {
+      table.primary = getPseudoPrimary(name, table, entities)
+    }
     // make sure every table has a key
     if (table.primary == null || table.primary.length === 0) {
       errors[name] = BuildSchemaErrors.NO_KEY
@@ -299,6 +583,7 @@ export function finaliseExternalTables(
     // make sure all previous props have been added back
     finalTables[name] = copyExistingPropsOver(name, table, entities, tableIds)
   }
+  addForeignKeyRelationships(finalTables, foreignKeys)
   // sort the tables by name
   finalTables = Object.entries(finalTables)
     .sort(([a], [b]) => a.localeCompare(b))
@@ -2,20 +2,34 @@ require("./utils").threadSetup()
 const actions = require("../automations/actions")
 const automationUtils = require("../automations/automationUtils")
 const AutomationEmitter = require("../events/AutomationEmitter")
+const { storeLog } = require("../automations/logs")
 const { processObject } = require("@budibase/string-templates")
 const { DEFAULT_TENANT_ID } = require("@budibase/backend-core/constants")
-const { DocumentTypes } = require("../db/utils")
+const { DocumentTypes, isProdAppID } = require("../db/utils")
 const { doInTenant } = require("@budibase/backend-core/tenancy")
 const { definitions: triggerDefs } = require("../automations/triggerInfo")
 const { doInAppContext, getAppDB } = require("@budibase/backend-core/context")
-const { AutomationErrors, LoopStepTypes } = require("../constants")
+const {
+  AutomationErrors,
+  AutomationErrorPolicies,
+  LoopStepTypes,
+  MAX_AUTOMATION_STEP_RETRIES,
+} = require("../constants")
 const FILTER_STEP_ID = actions.ACTION_DEFINITIONS.FILTER.stepId
 const LOOP_STEP_ID = actions.ACTION_DEFINITIONS.LOOP.stepId
+const BRANCH_STEP_ID = actions.ACTION_DEFINITIONS.BRANCH.stepId
 
 const CRON_STEP_ID = triggerDefs.CRON.stepId
 const STOPPED_STATUS = { success: false, status: "STOPPED" }
+const SKIPPED_STATUS = { success: false, status: "SKIPPED" }
+// on error steps are run like a branch of the failed step
+const ON_ERROR_BRANCH = "error"
+const DEFAULT_BACKOFF_MS = 1000
+// with the maximum number of retries a step can wait for around five minutes in total
+const MAX_BACKOFF_MS = 60000
 const { cloneDeep } = require("lodash/fp")
 const env = require("../environment")
+const { wait } = require("../utilities")
 
 function typecastForLooping(loopStep, input) {
   if (!input || !input.binding) {
@@ -52,6 +66,32 @@ function getLoopIterations(loopStep, input) {
     : automationUtils.stringSplit(binding).length
 }
 
+/**
+ * The steps of each branch are listed straight after the branch step, so that every step
+ * has a position which doesn't depend on which branches run, this is the number used to
+ * refer to the step in bindings (steps.N). Each step is listed with the branches it is
+ * nested in, the step only runs if all of those branches were chosen. The on error steps of a
+ * step are listed the same way, as a branch which is chosen when the step fails.
+ */
+function flattenSteps(steps, branches = []) {
+  const flattened = []
+  for (let step of steps || []) {
+    flattened.push({ step, branches })
+    if (step.stepId === BRANCH_STEP_ID) {
+      const stepBranches = step.branches || []
+      stepBranches.forEach((branch, index) => {
+        const nested = branches.concat({ id: step.id, index })
+        flattened.push(...flattenSteps(branch.steps, nested))
+      })
+    }
+    if (step.onError && step.onError.steps) {
+      const nested = branches.concat({ id: step.id, index: ON_ERROR_BRANCH })
+      flattened.push(...flattenSteps(step.onError.steps, nested))
+    }
+  }
+  return flattened
+}
+
 /**
  * The automation orchestrator is a class responsible for executing automations.
  * It handles the context of the automation and makes sure each step gets the correct
@@ -71,6 +111,8 @@ class Orchestrator {
     // step zero is never used as the template string is zero indexed for customer facing
     this._context = { steps: [{}], trigger: triggerOutput }
     this._automation = automation
+    // the branch chosen by each branch step which has run
+    this._branches = {}
     // create an emitter which has the chain count for this automation run in it, so it can block
     // excessive chaining if required
     this._emitter = new AutomationEmitter(this._chainCount + 1)
@@ -131,6 +173,86 @@ class Orchestrator {
     })
   }
 
+  isBranchChosen(branches) {
+    return branches.every(({ id, index }) => this._branches[id] === index)
+  }
+
+  isStepFailure(step, outputs) {
+    // a filter which doesn't pass stops the automation, it hasn't failed
+    if (step.stepId === FILTER_STEP_ID) {
+      return false
+    }
+    return outputs?.success === false
+  }
+
+  /**
+   * A failed step is only retried if the failure may be temporary - the step threw, marked
+   * its outputs as retryable (e.g. a connection reset) or responded with a 429 or 5xx status. A step which reported a failure (e.g. a row which
+   * didn't pass validation) would fail again, and may not be safe to repeat.
+   */
+  isRetryable(outputs, threw) {
+    if (threw || (outputs && outputs.retryable)) {
+      return true
+    }
+    const status = outputs && outputs.httpStatus
+    return status === 429 || status >= 500
+  }
+
+  /**
+   * Runs a step, retrying it with an exponential backoff if it fails and the step has
+   * retries set in its error handling (step.onError). The backoff doubles after each
+   * attempt up to a minute, the automation waits for the retries before moving on. Steps
+   * with error handling which throw are given a failed output rather than ending the
+   * automation.
+   */
+  async runStep(step, stepFn, inputs, tenantId) {
+    const { retries = 0, backoff = DEFAULT_BACKOFF_MS } = step.onError || {}
+    const attempts = Math.min(retries, MAX_AUTOMATION_STEP_RETRIES) + 1
+    let outputs
+    for (let attempt = 0; attempt < attempts; attempt++) {
+      if (attempt > 0) {
+        await wait(Math.min(backoff * 2 ** (attempt - 1), MAX_BACKOFF_MS))
+      }
+      let threw = false
+      try {
+        outputs = await doInTenant(tenantId, () => {
+          return stepFn({
+            inputs: inputs,
+            appId: this._appId,
+            emitter: this._emitter,
+            context: this._context,
+          })
+        })
+      } catch (err) {
+        if (!step.onError) {
+          throw err
+        }
+        outputs = { success: false, error: automationUtils.getError(err) }
+        threw = true
+      }
+      if (
+        !this.isStepFailure(step, outputs) ||
+        !this.isRetryable(outputs, threw)
+      ) {
+        break
+      }
+    }
+    return outputs
+  }
+
+  /**
+   * Records that a step with error handling has failed, this chooses its on error steps and
+   * adds the error to the context so that they can refer to it (error.message).
+   */
+  handleStepFailure(step, outputs) {
+    this._branches[step.id] = ON_ERROR_BRANCH
+    this._context.error = {
+      id: step.id,
+      stepId: step.stepId,
+      message: outputs.error || automationUtils.getError(outputs.response),
+    }
+  }
+
   async execute() {
     let automation = this._automation
     const app = await this.getApp()
@@ -140,8 +262,21 @@ class Orchestrator {
     let stepCount = 0
     let loopStepNumber = null
     let loopSteps = []
-    for (let step of automation.definition.steps) {
+    // the failed step which stops the automation once its on error steps have run
+    let stoppingStepId = null
+    for (let { step, branches } of flattenSteps(automation.definition.steps)) {
       stepCount++
+      // steps in a branch which wasn't chosen don't run, they have no output
+      if (!this.isBranchChosen(branches)) {
+        if (step.stepId !== LOOP_STEP_ID) {
+          this.updateExecutionOutput(step.id, step.stepId, {}, SKIPPED_STATUS)
+        }
+        continue
+      }
+      if (stoppingStepId && !branches.some(({ id }) => id === stoppingStepId)) {
+        stopped = true
+        stoppingStepId = null
+      }
       let input,
         iterations = 1,
         iterationCount = 0
@@ -264,15 +399,17 @@ class Orchestrator {
         try {
           // appId is always passed
           let tenantId = app.tenantId || DEFAULT_TENANT_ID
-          const outputs = await doInTenant(tenantId, () => {
-            return stepFn({
-              inputs: inputs,
-              appId: this._appId,
-              emitter: this._emitter,
-              context: this._context,
-            })
-          })
+          const outputs = await this.runStep(step, stepFn, inputs, tenantId)
           this._context.steps[stepCount] = outputs
+          if (step.stepId === BRANCH_STEP_ID) {
+            this._branches[step.id] = outputs.branchIndex
+          }
+          if (step.onError && this.isStepFailure(step, outputs)) {
+            this.handleStepFailure(step, outputs)
+            if (step.onError.policy !== AutomationErrorPolicies.CONTINUE) {
+              stoppingStepId = step.id
+            }
+          }
           // if filter causes us to stop execution don't break the loop, set a var
           // so that we can finish iterating through the steps and record that it stopped
           if (step.stepId === FILTER_STEP_ID && !outputs.success) {
@@ -295,6 +432,7 @@ class Orchestrator {
           }
         } catch (err) {
           console.error(`Automation error - ${step.stepId} - ${err}`)
+          this.executionError = err
           return err
         }
         if (loopStep) {
@@ -329,17 +467,38 @@ class Orchestrator {
   }
 }
 
+// production runs are logged, so that they can be looked back on and replayed
+async function storeRunLog(data, orchestrator, startedAt, error) {
+  if (!isProdAppID(data.event.appId)) {
+    return
+  }
+  try {
+    await storeLog(data, orchestrator && orchestrator.executionOutput, {
+      startedAt,
+      error: error || (orchestrator && orchestrator.executionError),
+    })
+  } catch (err) {
+    console.error(`Unable to store automation log - ${err}`)
+  }
+}
+
 module.exports = (input, callback) => {
   const appId = input.data.event.appId
+  // the orchestrator cleans up the event, keep the original for the log
+  const data = { ...input.data, event: cloneDeep(input.data.event) }
+  const startedAt = Date.now()
   doInAppContext(appId, async () => {
-    const automationOrchestrator = new Orchestrator(
-      input.data.automation,
-      input.data.event
-    )
+    let automationOrchestrator
     try {
+      automationOrchestrator = new Orchestrator(
+        input.data.automation,
+        input.data.event
+      )
       const response = await automationOrchestrator.execute()
+      await storeRunLog(data, automationOrchestrator, startedAt)
       callback(null, response)
     } catch (err) {
+      await storeRunLog(data, automationOrchestrator, startedAt, err)
       callback(err)
     }
   })
@@ -63,11 +63,11 @@ export class Thread {
       }
       fncToCall(data, (err: any, response: any) => {
         if (err && err.type === "TimeoutError") {
-          reject(
-            new Error(
-              `Query response time exceeded ${this.timeoutMs}ms timeout.`
-            )
+          const timeout: any = new Error(
+            `Query response time exceeded ${this.timeoutMs}ms timeout.`
           )
+          timeout.code = "ETIMEDOUT"
+          reject(timeout)
         } else if (err) {
           reject(err)
         } else {
@@ -7,18 +7,24 @@ const { doInAppContext, getAppDB } = require("@budibase/backend-core/context")
 const { isSQL } = require("../integrations/utils")
 const {
   enrichQueryFields,
+  enrichProcedureFields,
   interpolateSQL,
 } = require("../integrations/queries/sql")
+const { BaseQueryVerbs } = require("../constants")
 
 class QueryRunner {
   constructor(input, flags = { noRecursiveQuery: false }) {
+    this.appId = input.appId
     this.datasource = input.datasource
     this.queryVerb = input.queryVerb
     this.fields = input.fields
     this.parameters = input.parameters
+    this.parameterDefinitions = input.parameterDefinitions
     this.pagination = input.pagination
     this.transformer = input.transformer
     this.queryId = input.queryId
+    this.cache = input.cache
+    this.userId = input.userId
     this.noRecursiveQuery = flags.noRecursiveQuery
     this.cachedVariables = []
     // allows the response from a query to be stored throughout this
@@ -28,19 +34,60 @@ class QueryRunner {
     this.hasRerun = false
   }
 
+  getCacheKey() {
+    const {
+      appId,
+      datasource,
+      queryId,
+      cache,
+      parameters,
+      pagination,
+      userId,
+    } = this
+    if (
+      !queryId ||
+      !cache ||
+      !cache.ttl ||
+      this.queryVerb !== BaseQueryVerbs.READ
+    ) {
+      return null
+    }
+    return threadUtils.makeQueryCacheKey(datasource._id, queryId, {
+      appId,
+      parameters,
+      pagination,
+      userId,
+    })
+  }
+
   async execute() {
     let { datasource, fields, queryVerb, transformer } = this
     const Integration = integrations[datasource.source]
     if (!Integration) {
       throw "Integration type does not exist."
     }
+    const cacheKey = this.getCacheKey()
+    if (cacheKey && !this.hasRerun) {
+      const cached = await threadUtils.checkCacheForQuery(cacheKey)
+      if (cached) {
+        return cached
+      }
+    }
     const integration = new Integration(datasource.config)
 
     // pre-query, make sure datasource variables are added to parameters
     const parameters = await this.addDatasourceVariables()
     let query
+    // procedures are called with their parameters, rather than bindings in SQL
+    if (queryVerb === BaseQueryVerbs.PROCEDURE) {
+      query = enrichProcedureFields(
+        fields,
+        parameters,
+        this.parameterDefinitions
+      )
+    }
     // handle SQL injections by interpolating the variables
-    if (isSQL(datasource)) {
+    else if (isSQL(datasource)) {
       query = interpolateSQL(fields, parameters, integration)
     } else {
       query = enrichQueryFields(fields, parameters)
@@ -107,7 +154,16 @@ class QueryRunner {
       integration.end()
     }
 
-    return { rows, keys, info, extra, pagination }
+    const response = { rows, keys, info, extra, pagination }
+    // failed requests aren't cached, they should be retried
+    if (cacheKey && !(info && info.code >= 400)) {
+      await threadUtils.storeQueryCache(cacheKey, response, this.cache.ttl)
+    }
+    // anything other than a read may have changed the data of cached queries
+    if (queryVerb !== BaseQueryVerbs.READ && datasource._id) {
+      await threadUtils.invalidateQueryCache(datasource._id)
+    }
+    return response
   }
 
   async runAnotherQuery(queryId, parameters) {
@@ -120,6 +176,7 @@ class QueryRunner {
         queryVerb: query.queryVerb,
         fields: query.fields,
         parameters,
+        parameterDefinitions: query.parameters,
         transformer: query.transformer,
       },
       { noRecursiveQuery: true }
@@ -1,9 +1,11 @@
 const env = require("../environment")
 const db = require("../db")
 const redis = require("@budibase/backend-core/redis")
+const crypto = require("crypto")
 const { SEPARATOR } = require("@budibase/backend-core/db")
 
 const VARIABLE_TTL_SECONDS = 3600
+const QUERY_CACHE_PREFIX = "cache"
 let client
 
 async function getClient() {
@@ -56,6 +58,58 @@ exports.storeDynamicVariable = async (queryId, variable, value) => {
   )
 }
 
+function makeQueryCachePrefix(datasourceId, queryId) {
+  const parts = [QUERY_CACHE_PREFIX, datasourceId]
+  if (queryId) {
+    parts.push(queryId)
+  }
+  return `${parts.join(SEPARATOR)}${SEPARATOR}`
+}
+
+/**
+ * Query results are cached per datasource and query, the app, parameters, pagination and
+ * user are hashed so that the results of a query are never shared between users, pages or
+ * the development and published versions of an app.
+ */
+exports.makeQueryCacheKey = (
+  datasourceId,
+  queryId,
+  { appId, parameters, pagination, userId } = {}
+) => {
+  const hash = crypto
+    .createHash("sha256")
+    .update(
+      JSON.stringify({
+        appId,
+        parameters: parameters || {},
+        pagination: pagination || {},
+        userId,
+      })
+    )
+    .digest("hex")
+  return `${makeQueryCachePrefix(datasourceId, queryId)}${hash}`
+}
+
+exports.checkCacheForQuery = async key => {
+  const cache = await getClient()
+  return cache.get(key)
+}
+
+exports.storeQueryCache = async (key, value, ttlSeconds) => {
+  const cache = await getClient()
+  await cache.store(key, value, ttlSeconds)
+}
+
+/**
+ * Removes the cached results of a query, or of every query in the datasource if
+ * no query is specified.
+ */
+exports.invalidateQueryCache = async (datasourceId, queryId = null) => {
+  const cache = await getClient()
+  const entries = await cache.scan(makeQueryCachePrefix(datasourceId, queryId))
+  await Promise.all(entries.map(entry => cache.delete(entry.key)))
+}
+
 exports.formatResponse = resp => {
   if (typeof resp === "string") {
     try {
@@ -94,6 +94,29 @@ function updateSchema({ schema, existingTable }) {
   return finalSchema
 }
 
+function mapColumns(data, schema) {
+  const schemaKeyMap = {}
+  Object.keys(schema).forEach(key => (schemaKeyMap[key.toLowerCase()] = key))
+  for (let element of data) {
+    if (!element) {
+      continue
+    }
+    for (let key of Object.keys(element)) {
+      const mappedKey = schemaKeyMap[key.toLowerCase()]
+      // isn't a column in the table, remove it
+      if (mappedKey == null) {
+        delete element[key]
+      }
+      // casing is different, fix it in row
+      else if (key !== mappedKey) {
+        element[mappedKey] = element[key]
+        delete element[key]
+      }
+    }
+  }
+  return data
+}
+
 async function transform({ schema, csvString, existingTable }) {
   const colParser = {}
 
@@ -111,34 +134,117 @@ async function transform({ schema, csvString, existingTable }) {
 
   try {
     const data = await csv({ colParser }).fromString(csvString)
-    const schemaKeyMap = {}
-    Object.keys(schema).forEach(key => (schemaKeyMap[key.toLowerCase()] = key))
-    for (let element of data) {
-      if (!data) {
+    return mapColumns(data, schema)
+  } catch (err) {
+    console.error(`Error transforming CSV to JSON for data import`, err)
+    throw err
+  }
+}
+
+/**
+ * Reads the rows of a CSV or JSON import into an existing table, the values aren't
+ * parsed so that any which are invalid can be reported by validating the rows.
+ * @param {object} dataImport Contains either the csvString or the jsonString to import,
+ * JSON imports are an array of rows.
+ * @param {object} existingTable The table the rows are imported into.
+ * @returns {Promise<object[]>} The rows, with only the columns of the table.
+ */
+async function parseRows({ csvString, jsonString, existingTable }) {
+  let data
+  if (jsonString) {
+    try {
+      data = JSON.parse(jsonString)
+    } catch (err) {
+      throw "Unable to parse JSON import"
+    }
+    if (!Array.isArray(data)) {
+      throw "JSON import must be an array of rows"
+    }
+    data = data.filter(row => row && typeof row === "object")
+  } else {
+    data = await csv().fromString(csvString || "")
+  }
+  return mapColumns(data, existingTable.schema)
+}
+
+function isEmpty(value) {
+  return value == null || value === ""
+}
+
+// relationships can't be imported, formulas are calculated
+const NOT_IMPORTED_TYPES = [FieldTypes.LINK, FieldTypes.FORMULA]
+
+const ROW_PARSERS = {
+  ...PARSERS,
+  [FieldTypes.BOOLEAN]: attribute => {
+    if (typeof attribute === "boolean") {
+      return attribute
+    }
+    const value = `${attribute}`.toLowerCase()
+    return value === "true" || value === "1"
+  },
+}
+
+const ROW_VALIDATORS = {
+  ...VALIDATORS,
+  [FieldTypes.BOOLEAN]: attribute =>
+    typeof attribute === "boolean" ||
+    ["true", "false", "1", "0"].includes(`${attribute}`.toLowerCase()),
+  [FieldTypes.OPTIONS]: (attribute, field) => {
+    const options = field.constraints && field.constraints.inclusion
+    return !options || !options.length || options.includes(attribute)
+  },
+}
+
+/**
+ * Validates the rows of an import against the schema of the table, each row is checked
+ * on its own so that any invalid rows can be reported without failing the import.
+ * @param {object[]} rows The rows to import, as returned by parseRows.
+ * @param {object} existingTable The table the rows are imported into.
+ * @returns {{rows: object[], errors: object[]}} The valid rows, with their values parsed,
+ * and the errors of the invalid rows. Both contain the index of the row in the import.
+ */
+function validate({ rows, existingTable }) {
+  const valid = [],
+    errors = []
+  rows.forEach((row, index) => {
+    const parsed = {},
+      messages = []
+    for (let [key, field] of Object.entries(existingTable.schema)) {
+      const value = row[key]
+      // don't import data to auto columns, or columns which are calculated
+      if (field.autocolumn || NOT_IMPORTED_TYPES.includes(field.type)) {
         continue
       }
-      for (let key of Object.keys(element)) {
-        const mappedKey = schemaKeyMap[key.toLowerCase()]
-        // isn't a column in the table, remove it
-        if (mappedKey == null) {
-          delete element[key]
-        }
-        // casing is different, fix it in row
-        else if (key !== mappedKey) {
-          element[mappedKey] = element[key]
-          delete element[key]
+      if (isEmpty(value)) {
+        if (field.constraints && field.constraints.presence) {
+          messages.push(`${key} is required`)
+        } else if (key in row) {
+          parsed[key] = null
         }
+        continue
       }
+      const validator = ROW_VALIDATORS[field.type]
+      if (validator && !validator(value, field)) {
+        messages.push(`${key} is not a valid ${field.type}`)
+        continue
+      }
+      const parser = ROW_PARSERS[field.type]
+      parsed[key] = parser ? parser(value) : value
     }
-    return data
-  } catch (err) {
-    console.error(`Error transforming CSV to JSON for data import`, err)
-    throw err
-  }
+    if (messages.length) {
+      errors.push({ index, message: messages.join(", ") })
+    } else {
+      valid.push({ index, row: parsed })
+    }
+  })
+  return { rows: valid, errors }
 }
 
 module.exports = {
   parse,
   transform,
   updateSchema,
+  parseRows,
+  validate,
 }
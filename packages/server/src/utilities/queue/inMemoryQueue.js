@@ -1,19 +1,24 @@
 let events = require("events")
 
+let nextJobId = 1
+
 /**
  * Bull works with a Job wrapper around all messages that contains a lot more information about
  * the state of the message, this object constructor implements the same schema of Bull jobs
  * for the sake of maintaining API consistency.
  * @param {string} queue The name of the queue which the message will be carried on.
  * @param {object} message The JSON message which will be passed back to the consumer.
+ * @param {object} opts The options the job was added with.
  * @returns {Object} A new job which can now be put onto the queue, this is mostly an
  * internal structure so that an in memory queue can be easily swapped for a Bull queue.
  */
-function newJob(queue, message) {
+function newJob(queue, message, opts) {
   return {
+    id: `${nextJobId++}`,
     timestamp: Date.now(),
     queue: queue,
     data: message,
+    opts,
   }
 }
 
@@ -33,6 +38,7 @@ class InMemoryQueue {
     this._name = name
     this._opts = opts
     this._messages = []
+    this._jobs = {}
     this._emitter = new events.EventEmitter()
   }
 
@@ -51,9 +57,25 @@ class InMemoryQueue {
         return
       }
       let msg = this._messages.shift()
-      let resp = func(msg)
-      if (resp.then != null) {
-        await resp
+      try {
+        let resp = func(msg)
+        if (resp.then != null) {
+          resp = await resp
+        }
+        msg.returnvalue = resp
+      } catch (err) {
+        // the state of the job is recorded, the error is still thrown to the consumer
+        msg.failedReason = err.message || err
+        throw err
+      } finally {
+        msg.finishedOn = Date.now()
+        // same as Bull, jobs are only kept once finished if they haven't been set to be removed
+        const remove = msg.failedReason
+          ? msg.opts.removeOnFail
+          : msg.opts.removeOnComplete
+        if (remove === true) {
+          delete this._jobs[msg.id]
+        }
       }
     })
   }
@@ -65,20 +87,46 @@ class InMemoryQueue {
    * return the message to a consumer (if one is attached).
    * @param {object} msg A message to be transported over the queue, this should be
    * a JSON message as this is required by Bull.
+   * @param {object} opts The same options as Bull, only removing jobs once they finish is supported.
    */
-  // eslint-disable-next-line no-unused-vars
-  add(msg, repeat) {
+  add(msg, opts = {}) {
     if (typeof msg !== "object") {
       throw "Queue only supports carrying JSON."
     }
-    this._messages.push(newJob(this._name, msg))
+    const job = newJob(this._name, msg, opts)
+    this._jobs[job.id] = job
+    this._messages.push(job)
     this._emitter.emit("message")
+    return job
+  }
+
+  /**
+   * Replicates retrieving a job from Bull, only the state of the job and its result
+   * are supported.
+   * @param {string} jobId The ID of the job, as returned when it was added.
+   */
+  async getJob(jobId) {
+    const job = this._jobs[jobId]
+    if (!job) {
+      return null
+    }
+    return {
+      ...job,
+      getState: async () => {
+        if (job.failedReason) {
+          return "failed"
+        }
+        return job.finishedOn ? "completed" : "waiting"
+      },
+    }
   }
 
   /**
    * replicating the close function from bull, which waits for jobs to finish.
    */
   async close() {
+    this._messages = []
+    this._jobs = {}
     return []
   }
 
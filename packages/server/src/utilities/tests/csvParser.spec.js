@@ -109,4 +109,60 @@ describe("CSV Parser", () => {
       ).rejects.toThrow()
     })
   })
+
+  describe("importing rows", () => {
+    const existingTable = {
+      schema: {
+        id: { type: "number", autocolumn: true },
+        Name: { type: "string", constraints: { presence: true } },
+        Age: { type: "number" },
+        Active: { type: "boolean" },
+        Colour: {
+          type: "options",
+          constraints: { inclusion: ["Red", "Blue"] },
+        },
+      },
+    }
+
+    it("reads CSV rows with only the columns of the table", async () => {
+      const rows = await csvParser.parseRows({ csvString, existingTable })
+      expect(rows.length).toBe(3)
+      expect(rows[0]).toEqual({ Name: "Bertå", Age: "4324" })
+    })
+
+    it("reads JSON rows, correcting the casing of columns", async () => {
+      const rows = await csvParser.parseRows({
+        jsonString: JSON.stringify([{ name: "Bert", age: 4, unknown: true }]),
+        existingTable,
+      })
+      expect(rows).toEqual([{ Name: "Bert", Age: 4 }])
+    })
+
+    it("throws an error when JSON isn't an array", async () => {
+      await expect(
+        csvParser.parseRows({ jsonString: `{"Name":"Bert"}`, existingTable })
+      ).rejects.toEqual("JSON import must be an array of rows")
+    })
+
+    it("reports the rows which are invalid", () => {
+      const { rows, errors } = csvParser.validate({
+        rows: [
+          { id: 5, Name: "Bert", Age: "4", Active: "true", Colour: "Red" },
+          { Name: "", Age: "old" },
+          { Name: "Ernie", Colour: "Green" },
+        ],
+        existingTable,
+      })
+      expect(rows).toEqual([
+        {
+          index: 0,
+          row: { Name: "Bert", Age: 4, Active: true, Colour: "Red" },
+        },
+      ])
+      expect(errors).toEqual([
+        { index: 1, message: "Name is required, Age is not a valid number" },
+        { index: 2, message: "Colour is not a valid options" },
+      ])
+    })
+  })
 })
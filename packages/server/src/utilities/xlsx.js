@@ -0,0 +1,227 @@
+const zlib = require("zlib")
+const { Readable } = require("stream")
+
+/**
+ * Writes XLSX workbooks as a stream, so that exports don't have to be held in memory.
+ * A workbook is a zip of XML documents, only the sheet is large so it is compressed
+ * as it is generated, the rest of the documents are static.
+ */
+
+const XML_HEADER = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n`
+const MAIN_NS = "http://schemas.openxmlformats.org/spreadsheetml/2006/main"
+const REL_NS =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships"
+const PACKAGE_REL_NS =
+  "http://schemas.openxmlformats.org/package/2006/relationships"
+
+const STATIC_FILES = {
+  "[Content_Types].xml": `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/></Types>`,
+  "_rels/.rels": `${XML_HEADER}<Relationships xmlns="${PACKAGE_REL_NS}"><Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+  "xl/workbook.xml": `${XML_HEADER}<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}"><sheets><sheet name="Export" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+  "xl/_rels/workbook.xml.rels": `${XML_HEADER}<Relationships xmlns="${PACKAGE_REL_NS}"><Relationship Id="rId1" Type="${REL_NS}/worksheet" Target="worksheets/sheet1.xml"/></Relationships>`,
+}
+const SHEET_FILE = "xl/worksheets/sheet1.xml"
+
+// zip entries have a data descriptor after the data (bit 3), names are UTF-8 (bit 11)
+const ZIP_FLAGS = 0x0808
+const ZIP_DEFLATE = 8
+const ZIP_VERSION = 20
+
+const CRC_TABLE = new Int32Array(256).map((value, index) => {
+  let crc = index
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1
+  }
+  return crc
+})
+
+function crc32(buffer, crc = 0) {
+  crc = ~crc
+  for (let byte of buffer) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  }
+  return ~crc >>> 0
+}
+
+// zip files use MS-DOS dates
+function dosDateTime(date) {
+  const time =
+    (date.getHours() << 11) |
+    (date.getMinutes() << 5) |
+    Math.floor(date.getSeconds() / 2)
+  const day =
+    ((date.getFullYear() - 1980) << 9) |
+    ((date.getMonth() + 1) << 5) |
+    date.getDate()
+  return { time, day }
+}
+
+function localFileHeader(name, modified) {
+  const header = Buffer.alloc(30)
+  header.writeUInt32LE(0x04034b50, 0)
+  header.writeUInt16LE(ZIP_VERSION, 4)
+  header.writeUInt16LE(ZIP_FLAGS, 6)
+  header.writeUInt16LE(ZIP_DEFLATE, 8)
+  header.writeUInt16LE(modified.time, 10)
+  header.writeUInt16LE(modified.day, 12)
+  // the CRC and sizes are in the data descriptor
+  header.writeUInt16LE(name.length, 26)
+  return Buffer.concat([header, name])
+}
+
+function dataDescriptor(entry) {
+  const descriptor = Buffer.alloc(16)
+  descriptor.writeUInt32LE(0x08074b50, 0)
+  descriptor.writeUInt32LE(entry.crc, 4)
+  descriptor.writeUInt32LE(entry.compressedSize, 8)
+  descriptor.writeUInt32LE(entry.size, 12)
+  return descriptor
+}
+
+function centralDirectory(entries, offset, modified) {
+  const headers = entries.map(entry => {
+    const header = Buffer.alloc(46)
+    header.writeUInt32LE(0x02014b50, 0)
+    header.writeUInt16LE(ZIP_VERSION, 4)
+    header.writeUInt16LE(ZIP_VERSION, 6)
+    header.writeUInt16LE(ZIP_FLAGS, 8)
+    header.writeUInt16LE(ZIP_DEFLATE, 10)
+    header.writeUInt16LE(modified.time, 12)
+    header.writeUInt16LE(modified.day, 14)
+    header.writeUInt32LE(entry.crc, 16)
+    header.writeUInt32LE(entry.compressedSize, 20)
+    header.writeUInt32LE(entry.size, 24)
+    header.writeUInt16LE(entry.name.length, 28)
+    header.writeUInt32LE(entry.offset, 42)
+    return Buffer.concat([header, entry.name])
+  })
+  const size = headers.reduce((total, header) => total + header.length, 0)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(entries.length, 8)
+  end.writeUInt16LE(entries.length, 10)
+  end.writeUInt32LE(size, 12)
+  end.writeUInt32LE(offset, 16)
+  return Buffer.concat([...headers, end])
+}
+
+/**
+ * Generates the zip of the provided files, the contents of each file is an async
+ * iterable of buffers so that they can be compressed as they are read.
+ */
+async function* zip(files) {
+  const modified = dosDateTime(new Date())
+  const entries = []
+  let offset = 0
+  for (let [filename, contents] of Object.entries(files)) {
+    const entry = {
+      name: Buffer.from(filename, "utf8"),
+      offset,
+      crc: 0,
+      size: 0,
+      compressedSize: 0,
+    }
+    const header = localFileHeader(entry.name, modified)
+    offset += header.length
+    yield header
+
+    const source = Readable.from(
+      (async function* () {
+        for await (let chunk of contents) {
+          entry.crc = crc32(chunk, entry.crc)
+          entry.size += chunk.length
+          yield chunk
+        }
+      })()
+    )
+    for await (let chunk of source.pipe(zlib.createDeflateRaw())) {
+      entry.compressedSize += chunk.length
+      offset += chunk.length
+      yield chunk
+    }
+
+    const descriptor = dataDescriptor(entry)
+    offset += descriptor.length
+    yield descriptor
+    entries.push(entry)
+  }
+  yield centralDirectory(entries, offset, modified)
+}
+
+function escapeXml(value) {
+  return (
+    value
+      // characters which aren't allowed in XML at all
+      // eslint-disable-next-line no-control-regex
+      .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "")
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;")
+  )
+}
+
+function columnName(index) {
+  let name = ""
+  for (let column = index + 1; column > 0; column = Math.floor(column / 26)) {
+    column -= 1
+    name = String.fromCharCode(65 + (column % 26)) + name
+  }
+  return name
+}
+
+function cell(value, ref) {
+  if (value == null || value === "") {
+    return ""
+  }
+  if (typeof value === "number" && isFinite(value)) {
+    return `<c r="${ref}"><v>${value}</v></c>`
+  }
+  if (typeof value === "boolean") {
+    return `<c r="${ref}" t="b"><v>${value ? 1 : 0}</v></c>`
+  }
+  if (value instanceof Date) {
+    value = value.toISOString()
+  } else if (typeof value === "object") {
+    value = JSON.stringify(value)
+  }
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(
+    `${value}`
+  )}</t></is></c>`
+}
+
+async function* sheet(headers, pages) {
+  let rowNumber = 0
+  const row = values => {
+    rowNumber++
+    const cells = values
+      .map((value, index) => cell(value, `${columnName(index)}${rowNumber}`))
+      .join("")
+    return `<row r="${rowNumber}">${cells}</row>`
+  }
+  yield Buffer.from(
+    `${XML_HEADER}<worksheet xmlns="${MAIN_NS}"><sheetData>${row(headers)}`
+  )
+  for await (let rows of pages) {
+    const xml = rows
+      .map(data => row(headers.map(header => data[header])))
+      .join("")
+    yield Buffer.from(xml, "utf8")
+  }
+  yield Buffer.from("</sheetData></worksheet>")
+}
+
+/**
+ * Generates an XLSX workbook with a single sheet.
+ * @param {string[]} headers The columns of the sheet, the first row is made up of these.
+ * @param {AsyncIterable<object[]>} pages The rows of the sheet, a page at a time.
+ * @return {AsyncGenerator<Buffer>} The contents of the workbook.
+ */
+exports.workbook = (headers, pages) => {
+  const files = {}
+  for (let [filename, contents] of Object.entries(STATIC_FILES)) {
+    files[filename] = [Buffer.from(contents, "utf8")]
+  }
+  files[SHEET_FILE] = sheet(headers, pages)
+  return zip(files)
+}